@@ -0,0 +1,100 @@
+import { EventRef, Events, TFile } from 'obsidian';
+import type FindOrphanedImagesPlugin from './main';
+import { DEFAULT_SETTINGS, CandidateFilters, DisposalMode, JournalRun } from './types';
+import type { Reference } from './reference-index';
+import type { ReferenceExtractor } from './extractors';
+import { applyFilters } from './filters';
+
+// The plugin's API for other plugins, on `plugin.api`:
+//
+//   const api = this.app.plugins.getPlugin('find-orphaned-images')?.api;
+//   const orphans = await api?.scan({ includeFolders: ['Inbox'], filters: { minAgeDays: 7 } });
+//
+// Everything here reads the plugin's live reference index; nothing opens a modal or shows
+// a Notice. Bump API_VERSION when a signature changes incompatibly.
+
+export const API_VERSION = 1;
+
+export type { Reference, ReferenceKind } from './reference-index';
+export type { ReferenceExtractor, ExtractedReference, ExtractContext } from './extractors';
+export type { CandidateFilters, DisposalMode, JournalRun, JournalFile, CleanupOutcome } from './types';
+
+// Per-call scope for scan(). Unset fields fall back to the user's settings; the quarantine
+// folder and .orphanignore always apply.
+export interface ScanOptions {
+    extensions?: string[]; // instead of the enabled attachment types
+    includeFolders?: string[];
+    excludeFolders?: string[];
+    scopeRules?: string[]; // gitignore-style globs, instead of the ones in settings
+    filters?: Partial<CandidateFilters>; // age/size bounds; the user's filters aren't applied
+    rebuild?: boolean; // re-read the whole vault instead of trusting the live index
+}
+
+// Sent before files are disposed of; `files` are vault paths.
+export interface BeforeCleanupEvent {
+    mode: DisposalMode;
+    files: string[];
+}
+
+export class FindOrphanedImagesApi {
+    readonly version = API_VERSION;
+    private events = new Events();
+
+    constructor(private plugin: FindOrphanedImagesPlugin) {}
+
+    // Orphans in the user's scan scope, before the age and size filters.
+    getOrphanedImages(): Promise<TFile[]> {
+        return this.plugin.scanner.getOrphanedImages();
+    }
+
+    // Orphans in the scope `options` describes.
+    async scan(options: ScanOptions = {}): Promise<TFile[]> {
+        const { scanner } = this.plugin;
+        if (options.rebuild) scanner.invalidate();
+        const orphans = await scanner.getOrphanedImages({
+            extensions: options.extensions,
+            includeFolders: options.includeFolders?.join('\n'),
+            excludeFolders: options.excludeFolders?.join('\n'),
+            scopeRules: options.scopeRules?.join('\n'),
+        });
+        if (!options.filters) return orphans;
+        return applyFilters(orphans, { ...DEFAULT_SETTINGS.candidateFilters, ...options.filters }, Date.now());
+    }
+
+    // True if anything references the file at `path`, whether or not it is in scope.
+    isReferenced(path: string): Promise<boolean> {
+        return this.plugin.scanner.isReferenced(path);
+    }
+
+    // Every reference to `path`, with its source and where in the source it sits.
+    getReferences(path: string): Promise<Reference[]> {
+        return this.plugin.scanner.getReferences(path);
+    }
+
+    // Adds a reference source. Returns a function that removes it again; call it from the
+    // registering plugin's onunload().
+    registerReferenceExtractor(extractor: ReferenceExtractor): () => void {
+        return this.plugin.registerReferenceExtractor(extractor);
+    }
+
+    // 'before-cleanup' fires before any file of a cleanup is touched; 'cleanup' fires after,
+    // with the journal entry recording each file's outcome. Pass the returned ref to
+    // Component.registerEvent() or off().
+    on(name: 'before-cleanup', callback: (event: BeforeCleanupEvent) => void): EventRef;
+    on(name: 'cleanup', callback: (run: JournalRun) => void): EventRef;
+    on(name: string, callback: (data: never) => void): EventRef {
+        return this.events.on(name, callback as (...data: unknown[]) => unknown);
+    }
+
+    off(ref: EventRef) {
+        this.events.offref(ref);
+    }
+
+    // Called by the plugin around performDeletion. Obsidian's Events logs listener errors
+    // instead of throwing them, so a failing listener can't interrupt a cleanup.
+    trigger(name: 'before-cleanup', event: BeforeCleanupEvent): void;
+    trigger(name: 'cleanup', run: JournalRun): void;
+    trigger(name: string, data: unknown) {
+        this.events.trigger(name, data);
+    }
+}
@@ -0,0 +1,133 @@
+import { ItemView, WorkspaceLeaf, TFile, setIcon } from 'obsidian';
+import type FindOrphanedImagesPlugin from './main';
+import { describeLocation, kindLabel } from './reference-index';
+import { BrokenReference, FIX_REASON_LABELS } from './broken';
+
+export const BROKEN_VIEW_TYPE = 'find-broken-references-view';
+
+// Broken references panel: links, embeds, <img> tags, frontmatter covers and canvas nodes
+// whose attachment doesn't exist, grouped by source, with one-click fixes.
+export class BrokenReferencesView extends ItemView {
+    private plugin: FindOrphanedImagesPlugin;
+    private broken: BrokenReference[] = [];
+    private scanning = false;
+    private generation = 0; // drops results from superseded scans
+
+    constructor(leaf: WorkspaceLeaf, plugin: FindOrphanedImagesPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return BROKEN_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Broken attachment references';
+    }
+
+    getIcon(): string {
+        return 'unlink';
+    }
+
+    async onOpen() {
+        // Fixed links drop out as the scanner's index picks up the edit.
+        this.register(this.plugin.scanner.onChange(() => void this.refresh({ quiet: true })));
+        await this.refresh();
+    }
+
+    // `quiet` keeps the current list on screen while scanning (used for live updates);
+    // `rebuild` re-reads the whole vault instead of trusting the live index.
+    async refresh({ quiet = false, rebuild = false } = {}) {
+        const generation = ++this.generation;
+        if (rebuild) this.plugin.scanner.invalidate();
+        if (!quiet) {
+            this.scanning = true;
+            this.render();
+        }
+        let broken: BrokenReference[] = [];
+        try {
+            broken = await this.plugin.scanner.findBrokenReferences();
+        } catch (error) {
+            console.error('Failed to scan for broken references:', error);
+        }
+        if (generation !== this.generation) return;
+        this.broken = broken;
+        this.scanning = false;
+        this.render();
+    }
+
+    private render() {
+        const root = this.contentEl;
+        const scrollTop = root.scrollTop;
+        root.empty();
+        root.addClass('orphaned-images-view');
+
+        if (this.scanning) {
+            root.createEl('p', { cls: 'oiv-status', text: 'Scanning vault…' });
+            return;
+        }
+
+        const header = root.createDiv({ cls: 'oiv-header' });
+        const count = this.broken.length;
+        header.createDiv({
+            cls: 'oiv-summary',
+            text: count === 0 ? 'No broken references' : `${count} broken reference${count === 1 ? '' : 's'}`,
+        });
+        const actions = header.createDiv({ cls: 'oiv-actions' });
+        const rescan = actions.createEl('button', { cls: 'oiv-btn oiv-btn-icon' });
+        setIcon(rescan, 'refresh-cw');
+        rescan.setAttribute('aria-label', 'Rescan vault');
+        rescan.addEventListener('click', () => this.refresh({ rebuild: true }));
+
+        if (count === 0) {
+            root.createEl('p', { cls: 'oiv-status', text: 'Every attachment reference points at a file that exists.' });
+            return;
+        }
+
+        let group: HTMLElement | null = null;
+        let source = '';
+        for (const item of this.broken) {
+            if (!group || item.ref.source !== source) {
+                source = item.ref.source;
+                group = root.createDiv({ cls: 'oiv-group' });
+                const head = group.createDiv({ cls: 'oiv-group-header' });
+                const title = head.createDiv({ cls: 'oiv-group-title oiv-path', text: source });
+                title.setAttribute('title', source);
+                title.addEventListener('click', () => this.openSource(item));
+            }
+            this.renderItem(group, item);
+        }
+        root.scrollTop = scrollTop;
+    }
+
+    private renderItem(parent: HTMLElement, item: BrokenReference) {
+        const { ref, suggestions } = item;
+        const row = parent.createDiv({ cls: 'oiv-item oiv-ref' });
+        const meta = row.createDiv({ cls: 'oiv-meta' });
+        const target = meta.createDiv({ cls: 'oiv-path', text: ref.link ?? ref.target });
+        target.setAttribute('title', 'Open at this reference');
+        target.addEventListener('click', () => this.openSource(item));
+        meta.createDiv({ cls: 'oiv-size', text: `${kindLabel(ref)}${describeLocation(ref)}` });
+
+        if (suggestions.length === 0) {
+            meta.createDiv({ cls: 'oiv-size', text: 'No likely replacement found.' });
+            return;
+        }
+        const fixes = meta.createDiv({ cls: 'oiv-fixes' });
+        for (const suggestion of suggestions) {
+            const button = fixes.createEl('button', { cls: 'oiv-btn', text: `Use ${suggestion.path}` });
+            button.setAttribute('aria-label', `Rewrite the link to ${suggestion.path} (${FIX_REASON_LABELS[suggestion.reason]})`);
+            button.addEventListener('click', () => {
+                const replacement = this.app.vault.getAbstractFileByPath(suggestion.path);
+                if (replacement instanceof TFile) void this.plugin.fixBrokenReference(ref, replacement);
+            });
+        }
+    }
+
+    private openSource({ ref }: BrokenReference) {
+        const source = this.app.vault.getAbstractFileByPath(ref.source);
+        if (!(source instanceof TFile)) return;
+        void this.app.workspace.getLeaf(true).openFile(source, ref.line !== undefined ? { eState: { line: ref.line } } : {});
+    }
+}
@@ -0,0 +1,114 @@
+import { Reference, describeLocation, kindLabel } from './reference-index';
+
+// Pure helpers for references whose target doesn't exist (no Obsidian dependency):
+// suggesting a replacement file and rendering the broken-references report.
+
+// Similarity (0–1) an orphan's name needs to be suggested for a broken reference.
+const SIMILAR_NAME_THRESHOLD = 0.6;
+
+export interface FixSuggestion {
+    path: string;
+    reason: 'same-name' | 'similar-orphan';
+}
+
+export interface BrokenReference {
+    ref: Reference;
+    suggestions: FixSuggestion[];
+}
+
+export const FIX_REASON_LABELS: Record<FixSuggestion['reason'], string> = {
+    'same-name': 'same name, other folder',
+    'similar-orphan': 'orphan with a similar name',
+};
+
+// Replacement candidates for a missing `target` path: files with exactly its name anywhere
+// in the vault first, then orphans whose names are close (most similar first). `files`
+// and `orphans` are vault paths; orphans usually belong in `files` too.
+export function suggestFixes(target: string, files: string[], orphans: string[], limit = 3): FixSuggestion[] {
+    const name = fileName(target).toLowerCase();
+    const suggestions: FixSuggestion[] = files
+        .filter(path => fileName(path).toLowerCase() === name)
+        .sort((a, b) => a.localeCompare(b))
+        .map(path => ({ path, reason: 'same-name' }));
+
+    const taken = new Set(suggestions.map(suggestion => suggestion.path));
+    const stem = baseName(target);
+    const similar = orphans
+        .filter(path => !taken.has(path))
+        .map(path => ({ path, score: nameSimilarity(stem, baseName(path)) }))
+        .filter(candidate => candidate.score >= SIMILAR_NAME_THRESHOLD)
+        .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+    for (const { path } of similar) suggestions.push({ path, reason: 'similar-orphan' });
+
+    return suggestions.slice(0, limit);
+}
+
+// 1 for identical names, falling towards 0 as the edit distance grows. Case-insensitive.
+export function nameSimilarity(a: string, b: string): number {
+    const x = a.toLowerCase();
+    const y = b.toLowerCase();
+    const longest = Math.max(x.length, y.length);
+    return longest === 0 ? 1 : 1 - editDistance(x, y) / longest;
+}
+
+// Levenshtein distance, one row at a time.
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// Report body: broken references grouped by source file, each with where it sits and any
+// suggested replacement. Suggestions are plain code spans, not links, so the report
+// itself never makes an orphan look referenced.
+export function buildBrokenReport(broken: BrokenReference[]): string {
+    const bySource = new Map<string, BrokenReference[]>();
+    for (const item of broken) {
+        const bucket = bySource.get(item.ref.source);
+        if (bucket) bucket.push(item);
+        else bySource.set(item.ref.source, [item]);
+    }
+
+    const sources = [...bySource.keys()].sort((a, b) => a.localeCompare(b));
+    const lines = [
+        '# Broken Attachment References',
+        '',
+        broken.length === 0
+            ? 'Every attachment reference points at a file that exists.'
+            : `${broken.length} reference${broken.length === 1 ? '' : 's'} in ${sources.length} file${sources.length === 1 ? '' : 's'} point${broken.length === 1 ? 's' : ''} at a missing file.`,
+    ];
+
+    for (const source of sources) {
+        const items = bySource.get(source) ?? [];
+        lines.push('', `## [[${source}]] — ${items.length} broken`, '');
+        for (const { ref, suggestions } of items) {
+            const fixes = suggestions.length === 0
+                ? 'no suggestion'
+                : `try ${suggestions.map(fix => `\`${fix.path}\` (${FIX_REASON_LABELS[fix.reason]})`).join(', ')}`;
+            lines.push(`- \`${ref.link ?? ref.target}\` — ${kindLabel(ref)}${describeLocation(ref)} — ${fixes}`);
+        }
+    }
+
+    return lines.join('\n');
+}
+
+function fileName(path: string): string {
+    return path.slice(path.lastIndexOf('/') + 1);
+}
+
+// File name without its extension.
+function baseName(path: string): string {
+    const name = fileName(path);
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.slice(0, dot) : name;
+}
@@ -0,0 +1,53 @@
+import type { AttachmentCategory } from './types';
+
+// Pure helpers for attachment categories (no Obsidian dependency).
+
+// Built-in categories. Only images are on by default, matching what the plugin always scanned.
+export const DEFAULT_CATEGORIES: AttachmentCategory[] = [
+    { id: 'images', name: 'Images', extensions: 'png, jpg, jpeg, gif, svg, bmp, webp, avif', enabled: true },
+    { id: 'pdf', name: 'PDFs', extensions: 'pdf', enabled: false },
+    { id: 'audio', name: 'Audio', extensions: 'mp3, wav, m4a, ogg, flac, aac, 3gp', enabled: false },
+    { id: 'video', name: 'Video', extensions: 'mp4, webm, mov, mkv, ogv', enabled: false },
+    { id: 'office', name: 'Office documents', extensions: 'doc, docx, xls, xlsx, ppt, pptx, odt, ods, odp', enabled: false },
+];
+
+export function isBuiltInCategory(id: string): boolean {
+    return DEFAULT_CATEGORIES.some(category => category.id === id);
+}
+
+// "png, .JPG ,," -> ['png', 'jpg'].
+export function parseExtensions(raw: string): string[] {
+    return raw
+        .split(/[\s,]+/)
+        .map(ext => ext.trim().replace(/^\./, '').toLowerCase())
+        .filter(ext => ext.length > 0);
+}
+
+// Extensions of every enabled category.
+export function enabledExtensions(categories: readonly AttachmentCategory[]): Set<string> {
+    const extensions = new Set<string>();
+    for (const category of categories) {
+        if (!category.enabled) continue;
+        for (const ext of parseExtensions(category.extensions)) extensions.add(ext);
+    }
+    return extensions;
+}
+
+// The first enabled category listing `extension`, or null if none does.
+export function categoryFor(extension: string, categories: readonly AttachmentCategory[]): AttachmentCategory | null {
+    const ext = extension.toLowerCase();
+    return categories.find(category => category.enabled && parseExtensions(category.extensions).includes(ext)) ?? null;
+}
+
+export type PreviewKind = 'image' | 'pdf' | 'audio' | 'video' | 'other';
+
+// How the review panel previews a file, by extension rather than category, so a
+// user-defined category still gets sensible previews.
+export function previewKind(extension: string): PreviewKind {
+    const ext = extension.toLowerCase();
+    if (['png', 'jpg', 'jpeg', 'gif', 'svg', 'bmp', 'webp', 'avif', 'ico', 'tif', 'tiff', 'heic'].includes(ext)) return 'image';
+    if (ext === 'pdf') return 'pdf';
+    if (['mp3', 'wav', 'm4a', 'ogg', 'flac', 'aac', '3gp', 'opus'].includes(ext)) return 'audio';
+    if (['mp4', 'webm', 'mov', 'mkv', 'ogv', 'm4v'].includes(ext)) return 'video';
+    return 'other';
+}
@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CLI_USAGE, buildTextReport, diskFile, parseCliArgs, scanFiles, settingsFromData } from './headless';
+import { buildExport } from './export';
+import type { ExportFile } from './export';
+import { IGNORE_FILE } from './scope';
+
+// Command-line scanner: finds orphaned attachments in a vault folder on disk, without
+// Obsidian, for pre-commit hooks and CI. Built to cli.js by `npm run build:cli`; the
+// detection itself is in ./headless.
+
+declare const CLI_VERSION: string; // set by esbuild from manifest.json
+
+const PLUGIN_DATA = '.obsidian/plugins/find-orphaned-images/data.json';
+
+// Exit codes: nothing orphaned, orphans found, or the scan couldn't run.
+const EXIT_CLEAN = 0;
+const EXIT_ORPHANS = 1;
+const EXIT_ERROR = 2;
+
+function main(args: string[]): number {
+    let options;
+    try {
+        options = parseCliArgs(args);
+    } catch (error) {
+        process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n\n${CLI_USAGE}`);
+        return EXIT_ERROR;
+    }
+    if (options.help) {
+        process.stdout.write(CLI_USAGE);
+        return EXIT_CLEAN;
+    }
+
+    try {
+        const vault = path.resolve(options.vault);
+        if (!fs.statSync(vault).isDirectory()) throw new Error(`${options.vault} is not a folder`);
+
+        const configPath = options.config ?? path.join(vault, PLUGIN_DATA);
+        const settings = settingsFromData(options.config || fs.existsSync(configPath)
+            ? JSON.parse(fs.readFileSync(configPath, 'utf8'))
+            : null);
+        const ignorePath = path.join(vault, IGNORE_FILE);
+        const ignoreFile = fs.existsSync(ignorePath) ? fs.readFileSync(ignorePath, 'utf8') : '';
+
+        const scannedAt = Date.now();
+        const scan = scanFiles(
+            listFiles(vault),
+            file => fs.readFileSync(path.join(vault, file), 'utf8'),
+            settings,
+            { ignoreFile, scope: options.scope },
+        );
+        for (const message of scan.errors) process.stderr.write(`warning: ${message}\n`);
+
+        const output = options.format === 'text'
+            ? buildTextReport(scan, options.vault)
+            : buildExport(options.format, scan.orphans, { scannedAt, pluginVersion: CLI_VERSION, settings });
+        if (options.output) fs.writeFileSync(options.output, output.endsWith('\n') ? output : `${output}\n`);
+        else process.stdout.write(output.endsWith('\n') ? output : `${output}\n`);
+
+        return scan.orphans.length > 0 ? EXIT_ORPHANS : EXIT_CLEAN;
+    } catch (error) {
+        process.stderr.write(`find-orphaned-images: ${error instanceof Error ? error.message : String(error)}\n`);
+        return EXIT_ERROR;
+    }
+}
+
+// Every file under `root` as a vault path, skipping dot-folders and dotfiles (.obsidian,
+// .git, .trash) the way Obsidian does.
+function listFiles(root: string): ExportFile[] {
+    const files: ExportFile[] = [];
+    const walk = (folder: string) => {
+        for (const entry of fs.readdirSync(path.join(root, folder), { withFileTypes: true })) {
+            if (entry.name.startsWith('.')) continue;
+            const vaultPath = folder ? `${folder}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                walk(vaultPath);
+            } else if (entry.isFile()) {
+                const stat = fs.statSync(path.join(root, vaultPath));
+                files.push(diskFile(vaultPath, { size: stat.size, mtime: stat.mtimeMs, ctime: stat.birthtimeMs || stat.ctimeMs }));
+            }
+        }
+    };
+    walk('');
+    return files;
+}
+
+process.exitCode = main(process.argv.slice(2));
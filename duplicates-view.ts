@@ -0,0 +1,136 @@
+import { ItemView, WorkspaceLeaf, TFile, setIcon } from 'obsidian';
+import type FindOrphanedImagesPlugin from './main';
+import { formatBytes } from './utils';
+import { renderPreview, stopPreviews } from './previews';
+import { pickKeeper, wastedBytes } from './duplicates';
+
+export const DUPLICATE_VIEW_TYPE = 'find-duplicate-images-view';
+
+// Duplicates panel: groups of byte-identical attachments. Pick the copy to keep in each group;
+// the others are relinked to it and then disposed of like orphans.
+export class DuplicateImagesView extends ItemView {
+    private plugin: FindOrphanedImagesPlugin;
+    private groups: TFile[][] = [];
+    private keepers = new Map<TFile[], TFile>(); // group -> chosen copy
+    private linkCounts = new Map<string, number>();
+    private scanning = false;
+
+    constructor(leaf: WorkspaceLeaf, plugin: FindOrphanedImagesPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return DUPLICATE_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Duplicate attachments';
+    }
+
+    getIcon(): string {
+        return 'copy';
+    }
+
+    async onOpen() {
+        await this.refresh();
+    }
+
+    async onClose() {
+        this.keepers.clear();
+        stopPreviews(this.contentEl);
+    }
+
+    // Re-hashes and re-renders. Called on open and after a merge.
+    async refresh() {
+        this.scanning = true;
+        this.render();
+        try {
+            this.groups = await this.plugin.scanner.findDuplicateImages();
+        } catch (error) {
+            console.error('Failed to scan for duplicate attachments:', error);
+            this.groups = [];
+        }
+        this.linkCounts = this.plugin.scanner.getLinkCounts();
+        this.keepers.clear();
+        for (const group of this.groups) {
+            this.keepers.set(group, pickKeeper(group, file => this.linkCounts.get(file.path) ?? 0));
+        }
+        this.scanning = false;
+        this.render();
+    }
+
+    private render() {
+        const root = this.contentEl;
+        stopPreviews(root);
+        root.empty();
+        root.addClass('orphaned-images-view');
+
+        if (this.scanning) {
+            root.createEl('p', { cls: 'oiv-status', text: 'Comparing files…' });
+            return;
+        }
+
+        const header = root.createDiv({ cls: 'oiv-header' });
+        const count = this.groups.length;
+        const waste = this.groups.reduce((sum, group) => sum + wastedBytes(group), 0);
+        header.createDiv({
+            cls: 'oiv-summary',
+            text: count === 0
+                ? 'No duplicate attachments'
+                : `${count} duplicate group${count === 1 ? '' : 's'} · ${formatBytes(waste)} reclaimable`,
+        });
+        const actions = header.createDiv({ cls: 'oiv-actions' });
+        const rescan = actions.createEl('button', { cls: 'oiv-btn oiv-btn-icon' });
+        setIcon(rescan, 'refresh-cw');
+        rescan.setAttribute('aria-label', 'Rescan vault');
+        rescan.addEventListener('click', () => this.refresh());
+
+        if (count === 0) {
+            root.createEl('p', { cls: 'oiv-status', text: 'Every attachment in scope is unique.' });
+            return;
+        }
+
+        this.groups.forEach((group, index) => this.renderGroup(root, group, index));
+    }
+
+    private renderGroup(root: HTMLElement, group: TFile[], index: number) {
+        const groupEl = root.createDiv({ cls: 'oiv-group' });
+        const head = groupEl.createDiv({ cls: 'oiv-group-header' });
+        head.createDiv({
+            cls: 'oiv-group-title',
+            text: `${group.length} copies · ${formatBytes(group[0].stat.size)} each · ${formatBytes(wastedBytes(group))} reclaimable`,
+        });
+
+        const mergeBtn = head.createEl('button', { cls: 'oiv-btn mod-warning', text: 'Keep selected, remove others' });
+        mergeBtn.addEventListener('click', () => {
+            const keeper = this.keepers.get(group) ?? group[0];
+            const extras = group.filter(file => file !== keeper);
+            // Relink + confirm + dispose; the panel refreshes once it completes.
+            this.plugin.mergeDuplicates(keeper, extras);
+        });
+
+        for (const image of group) {
+            const item = groupEl.createDiv({ cls: 'oiv-item' });
+
+            const radio = item.createEl('input', { type: 'radio', cls: 'oiv-check' });
+            radio.name = `oiv-keep-${index}`;
+            radio.checked = this.keepers.get(group) === image;
+            radio.setAttribute('aria-label', 'Keep this copy');
+            radio.addEventListener('change', () => {
+                if (radio.checked) this.keepers.set(group, image);
+            });
+
+            renderPreview(this.app, item.createDiv({ cls: 'oiv-thumb' }), image);
+
+            const meta = item.createDiv({ cls: 'oiv-meta' });
+            const pathEl = meta.createDiv({ cls: 'oiv-path', text: image.path });
+            pathEl.setAttribute('title', image.path);
+            pathEl.addEventListener('click', () => {
+                this.app.workspace.getLeaf(true).openFile(image);
+            });
+            const links = this.linkCounts.get(image.path) ?? 0;
+            meta.createDiv({ cls: 'oiv-size', text: `${links} link${links === 1 ? '' : 's'}` });
+        }
+    }
+}
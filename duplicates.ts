@@ -0,0 +1,41 @@
+// Pure grouping helpers for duplicate detection (no Obsidian dependency). The scanner
+// groups by size first, then hashes only the files that share one.
+
+interface Sized {
+    path: string;
+    stat: { size: number; ctime?: number };
+}
+
+// Items sharing a key, in groups of two or more. A null key drops the item (e.g. a
+// file that couldn't be read). Group and item order follow first appearance.
+export function groupDuplicates<T>(items: readonly T[], key: (item: T, index: number) => string | null): T[][] {
+    const groups = new Map<string, T[]>();
+    items.forEach((item, index) => {
+        const k = key(item, index);
+        if (k === null) return;
+        const bucket = groups.get(k);
+        if (bucket) bucket.push(item);
+        else groups.set(k, [item]);
+    });
+    return [...groups.values()].filter(group => group.length > 1);
+}
+
+// Bytes freed by keeping one copy and removing the rest.
+export function wastedBytes(group: readonly Sized[]): number {
+    return group.length > 1 ? group[0].stat.size * (group.length - 1) : 0;
+}
+
+// Largest waste first, then by the first path for a stable order.
+export function sortByWaste<T extends Sized>(groups: T[][]): T[][] {
+    return [...groups].sort((a, b) => wastedBytes(b) - wastedBytes(a) || a[0].path.localeCompare(b[0].path));
+}
+
+// Default copy to keep: the most-linked one, then the oldest, then the shortest path
+// (usually the attachment folder rather than a pasted-into subfolder).
+export function pickKeeper<T extends Sized>(group: readonly T[], linkCount: (item: T) => number): T {
+    return [...group].sort((a, b) =>
+        linkCount(b) - linkCount(a)
+        || (a.stat.ctime ?? 0) - (b.stat.ctime ?? 0)
+        || a.path.length - b.path.length
+        || a.path.localeCompare(b.path))[0];
+}
@@ -1,6 +1,7 @@
 import esbuild from "esbuild";
 import process from "process";
 import builtins from "builtin-modules";
+import { readFileSync } from "fs";
 
 const banner =
 `/*
@@ -11,6 +12,29 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// `node esbuild.config.mjs cli` builds the command-line scanner (cli.ts) instead of the plugin.
+if (process.argv[2] === "cli") {
+	const { version } = JSON.parse(readFileSync("manifest.json", "utf8"));
+	await esbuild.build({
+		banner: {
+			js: "#!/usr/bin/env node\n" + banner,
+		},
+		entryPoints: ["cli.ts"],
+		bundle: true,
+		platform: "node",
+		external: [...builtins],
+		define: {
+			CLI_VERSION: JSON.stringify(version),
+		},
+		format: "cjs",
+		target: "es2018",
+		logLevel: "info",
+		treeShaking: true,
+		outfile: "cli.js",
+	});
+	process.exit(0);
+}
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
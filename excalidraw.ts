@@ -0,0 +1,100 @@
+import { lineLocator } from './parsing';
+import { decompressFromBase64 } from './lzstring';
+
+// Pure parsing for Excalidraw drawings. Images a drawing shows are listed in its
+// "## Embedded files" section (`<fileId>: [[path]]`), which sits inside a %% comment that
+// Obsidian doesn't index; element links live in the drawing JSON, stored either as a
+// plain ```json block, an LZ-string ```compressed-json block, or (for legacy .excalidraw
+// files) as the whole file.
+
+// A raw link target, with the line it is on (embedded files) or the element it belongs to.
+export interface ExcalidrawLink {
+    target: string;
+    line?: number;
+    elementId?: string;
+}
+
+// True for Excalidraw's markdown drawings: `.excalidraw.md` files, or any note carrying the
+// `excalidraw-plugin` frontmatter key.
+export function isExcalidrawNote(path: string, frontmatter: Record<string, unknown> | undefined): boolean {
+    return path.toLowerCase().endsWith('.excalidraw.md') || frontmatter?.['excalidraw-plugin'] !== undefined;
+}
+
+// Every file a drawing embeds or links to, from either format.
+export function extractExcalidrawLinks(content: string): ExcalidrawLink[] {
+    const links = locateEmbeddedFiles(content);
+    const drawing = parseDrawing(content);
+    if (drawing) links.push(...elementLinks(drawing));
+    return links;
+}
+
+// Entries of the "## Embedded files" section, up to the next heading or comment marker.
+export function locateEmbeddedFiles(content: string): ExcalidrawLink[] {
+    const heading = /^#+[ \t]*Embedded files[ \t]*$/im.exec(content);
+    if (!heading) return [];
+
+    const lineOf = lineLocator(content);
+    const first = lineOf(heading.index) + 1;
+    const lines = content.split(/\r?\n/);
+    const links: ExcalidrawLink[] = [];
+    for (let i = first; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (line.startsWith('#') || line.startsWith('%%') || line.startsWith('```')) break;
+        const entry = /^[\w-]+:\s*(.+)$/.exec(line);
+        const target = entry ? linkTarget(entry[1]) : null;
+        if (target) links.push({ target, line: i });
+    }
+    return links;
+}
+
+// The drawing as JSON, from a .excalidraw file or a (compressed-)json block; null if there
+// is none or it can't be read.
+export function parseDrawing(content: string): unknown {
+    const trimmed = content.trim();
+    let json: string | null = trimmed.startsWith('{') ? trimmed : null;
+
+    if (json === null) {
+        const block = /```(compressed-json|json)[ \t]*\r?\n([\s\S]*?)\r?\n[ \t]*```/.exec(content);
+        if (!block) return null;
+        // Compressed drawings are wrapped across lines; the line breaks aren't data.
+        json = block[1] === 'compressed-json' ? decompressFromBase64(block[2].replace(/\s+/g, '')) : block[2];
+    }
+    if (!json) return null;
+
+    try {
+        return JSON.parse(json);
+    } catch {
+        return null;
+    }
+}
+
+// Links set on drawing elements, skipping deleted elements and URLs.
+function elementLinks(drawing: unknown): ExcalidrawLink[] {
+    const elements = (drawing as { elements?: unknown })?.elements;
+    if (!Array.isArray(elements)) return [];
+
+    const links: ExcalidrawLink[] = [];
+    for (const element of elements as { id?: unknown; link?: unknown; isDeleted?: unknown }[]) {
+        if (typeof element?.link !== 'string' || element.isDeleted === true) continue;
+        const target = linkTarget(element.link);
+        if (target) links.push({ target, elementId: typeof element.id === 'string' ? element.id : undefined });
+    }
+    return links;
+}
+
+// "[[path|alias]]" -> "path", "[text](path)" -> "path". Null for anything else (URLs,
+// LaTeX formulas, plain text). Anchors are kept; the caller resolves them like any link.
+function linkTarget(raw: string): string | null {
+    const value = raw.trim();
+    const wiki = /^!?\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/.exec(value);
+    if (wiki) return wiki[1].trim();
+
+    const markdown = /^!?\[[^\]]*\]\(([^)]+)\)/.exec(value);
+    if (!markdown) return null;
+    let target = markdown[1].trim();
+    if (target === '' || /^[a-z][a-z0-9+.-]*:/i.test(target)) return null;
+    try {
+        target = decodeURIComponent(target);
+    } catch { /* keep raw */ }
+    return target;
+}
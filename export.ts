@@ -0,0 +1,97 @@
+import type { FindOrphanedImagesSettings } from './types';
+import { totalSize, parseFolderList } from './utils';
+import { categoryFor, parseExtensions } from './categories';
+import { parseScopeRules } from './scope';
+
+// Machine-readable counterparts to the Markdown report (./report), for spreadsheets and
+// scripts. Pure.
+
+export type ExportFormat = 'json' | 'csv';
+
+// The parts of a file an export reads (satisfied by Obsidian's TFile, and by the files the
+// command-line scanner finds on disk).
+export interface ExportFile {
+    path: string;
+    name: string;
+    extension: string;
+    parent: { path: string } | null;
+    stat: { size: number; mtime: number; ctime: number };
+}
+
+// What produced an export: when the scan ran, which plugin version, and with which settings.
+export interface ExportRun {
+    scannedAt: number; // epoch ms
+    pluginVersion: string;
+    settings: FindOrphanedImagesSettings;
+}
+
+const CSV_COLUMNS = ['path', 'folder', 'name', 'extension', 'category', 'size', 'mtime', 'ctime', 'scanned_at'];
+
+export function buildExport(format: ExportFormat, files: readonly ExportFile[], run: ExportRun): string {
+    return format === 'json' ? buildJsonExport(files, run) : buildCsvExport(files, run);
+}
+
+// One object with the run metadata (settings that shaped the scan, scan time, totals) and
+// a row per file. Times are ISO 8601 strings.
+export function buildJsonExport(files: readonly ExportFile[], run: ExportRun): string {
+    const { settings } = run;
+    const data = {
+        generator: `find-orphaned-images ${run.pluginVersion}`,
+        scannedAt: new Date(run.scannedAt).toISOString(),
+        settings: {
+            categories: settings.categories
+                .filter(category => category.enabled)
+                .map(category => ({ id: category.id, name: category.name, extensions: parseExtensions(category.extensions) })),
+            includeFolders: parseFolderList(settings.includeFolders),
+            excludeFolders: parseFolderList(settings.excludeFolders),
+            scopeRules: parseScopeRules(settings.scopeRules, 'settings').map(rule => `${rule.negate ? '!' : ''}${rule.pattern}`),
+        },
+        totals: { files: files.length, bytes: totalSize(files) },
+        files: sortedRows(files, run).map(row => ({
+            path: row.path,
+            folder: row.folder,
+            name: row.name,
+            extension: row.extension,
+            category: row.category,
+            size: row.size,
+            mtime: row.mtime,
+            ctime: row.ctime,
+        })),
+    };
+    return JSON.stringify(data, null, 2);
+}
+
+// A header row and one row per file. CSV has nowhere to put run metadata, so each row
+// carries the scan time; settings and totals are in the JSON export.
+export function buildCsvExport(files: readonly ExportFile[], run: ExportRun): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const row of sortedRows(files, run)) {
+        lines.push([row.path, row.folder, row.name, row.extension, row.category, row.size, row.mtime, row.ctime, row.scannedAt]
+            .map(csvField)
+            .join(','));
+    }
+    return lines.join('\n') + '\n';
+}
+
+// Quotes a field when it contains a comma, quote or line break (RFC 4180).
+export function csvField(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function sortedRows(files: readonly ExportFile[], run: ExportRun) {
+    const scannedAt = new Date(run.scannedAt).toISOString();
+    return [...files]
+        .sort((a, b) => a.path.localeCompare(b.path))
+        .map(file => ({
+            path: file.path,
+            folder: file.parent?.path ?? '/',
+            name: file.name,
+            extension: file.extension,
+            category: categoryFor(file.extension, run.settings.categories)?.name ?? 'Other',
+            size: file.stat.size,
+            mtime: new Date(file.stat.mtime).toISOString(),
+            ctime: new Date(file.stat.ctime).toISOString(),
+            scannedAt,
+        }));
+}
@@ -0,0 +1,192 @@
+import type { CachedMetadata } from 'obsidian';
+import type { CanvasData } from 'obsidian/canvas';
+import type { Reference, ReferenceKind } from './reference-index';
+import { extractEmbeds, locateImgSrcs, locateAdmonitionEmbeds } from './parsing';
+import { extractExcalidrawLinks, isExcalidrawNote } from './excalidraw';
+
+// Reference extractors: named units that each read one kind of reference out of a file.
+// ReferenceScanner runs every enabled extractor registered for a file's extension and
+// resolves what they return against the vault. Other plugins add their own through
+// FindOrphanedImagesPlugin.registerReferenceExtractor.
+
+// What an extractor gets besides the raw text: the file's path and Obsidian's parsed
+// metadata for it (null for files Obsidian doesn't parse, e.g. canvases).
+export interface ExtractContext {
+    path: string;
+    cache: CachedMetadata | null;
+}
+
+// One reference as written. `link` is resolved like an Obsidian link (shortest form,
+// relative to the file) unless `literal` says it is already a full vault path.
+export interface ExtractedReference extends Pick<Reference, 'line' | 'nodeId' | 'key'> {
+    link: string;
+    kind?: ReferenceKind; // defaults to 'other'
+    literal?: boolean;
+}
+
+export interface ReferenceExtractor {
+    id: string; // stable key, used to switch it off in settings
+    name: string;
+    description?: string;
+    extensions: string[]; // lowercase file extensions it reads, without the dot
+    extract(content: string, context: ExtractContext): ExtractedReference[];
+}
+
+// Links and embeds Obsidian parsed itself, with their lines.
+export const linksExtractor: ReferenceExtractor = {
+    id: 'links',
+    name: 'Links and embeds',
+    description: 'Wikilinks, markdown links and embeds, as indexed by Obsidian.',
+    extensions: ['md'],
+    extract: (_content, { cache }) => [...cache?.links ?? [], ...cache?.embeds ?? []]
+        .map(link => ({ link: link.link, kind: 'link', line: link.position.start.line })),
+};
+
+// Frontmatter wikilinks (e.g. `cover: "[[image.png]]"`), which live outside resolvedLinks.
+export const frontmatterExtractor: ReferenceExtractor = {
+    id: 'frontmatter',
+    name: 'Frontmatter links',
+    description: 'Wikilinks in properties, such as cover: "[[image.png]]".',
+    extensions: ['md'],
+    extract: (_content, { cache }) => (cache?.frontmatterLinks ?? [])
+        .map(link => ({ link: link.link, kind: 'frontmatter', key: link.key })),
+};
+
+export const imgTagExtractor: ReferenceExtractor = {
+    id: 'img-tags',
+    name: 'HTML <img> tags',
+    description: 'Raw <img src="…"> tags in note text, which Obsidian does not index.',
+    extensions: ['md'],
+    extract: content => locateImgSrcs(content).map(({ target, line }) => ({ link: target, kind: 'img-tag', line })),
+};
+
+export const admonitionExtractor: ReferenceExtractor = {
+    id: 'admonitions',
+    name: 'Admonition embeds',
+    description: 'Embeds inside legacy Admonitions code blocks (```ad-note).',
+    extensions: ['md'],
+    extract: content => locateAdmonitionEmbeds(content).map(({ target, line }) => ({ link: target, kind: 'admonition', line })),
+};
+
+// Canvas file nodes (full vault paths), group backgrounds and embeds in text cards.
+// Throws on malformed JSON, so the canvas counts as referencing nothing rather than
+// being half-read.
+export const canvasExtractor: ReferenceExtractor = {
+    id: 'canvas',
+    name: 'Canvas',
+    description: 'File nodes, group backgrounds and embeds inside text cards.',
+    extensions: ['canvas'],
+    extract: content => {
+        const data = JSON.parse(content) as CanvasData;
+        const found: ExtractedReference[] = [];
+        for (const node of Array.isArray(data?.nodes) ? data.nodes : []) {
+            if (node.type === 'file' && typeof node.file === 'string') {
+                found.push({ link: node.file, kind: 'canvas-file', literal: true, nodeId: node.id });
+            } else if (node.type === 'group' && typeof node.background === 'string') {
+                found.push({ link: node.background, kind: 'canvas-group', nodeId: node.id });
+            } else if (node.type === 'text' && typeof node.text === 'string') {
+                for (const embed of extractEmbeds(node.text)) {
+                    found.push({ link: embed, kind: 'canvas-text', nodeId: node.id });
+                }
+            }
+        }
+        return found;
+    },
+};
+
+// Excalidraw drawings: embedded files and element links, from .excalidraw.md notes (plain
+// or compressed) and legacy .excalidraw JSON files. Other notes are skipped.
+export const excalidrawExtractor: ReferenceExtractor = {
+    id: 'excalidraw',
+    name: 'Excalidraw drawings',
+    description: 'Images and files embedded in Excalidraw drawings, including compressed ones.',
+    extensions: ['md', 'excalidraw'],
+    extract: (content, { path, cache }) => {
+        if (path.toLowerCase().endsWith('.md') && !isExcalidrawNote(path, cache?.frontmatter)) return [];
+        return extractExcalidrawLinks(content)
+            .map(({ target, line, elementId }) => ({ link: target, kind: 'excalidraw', line, nodeId: elementId }));
+    },
+};
+
+export const BUILT_IN_EXTRACTORS: readonly ReferenceExtractor[] = [
+    linksExtractor,
+    frontmatterExtractor,
+    imgTagExtractor,
+    admonitionExtractor,
+    canvasExtractor,
+    excalidrawExtractor,
+];
+
+// Runs `extractors` over one file and turns what they find into references: literal paths
+// as-is, links through `resolve`. A failing extractor (e.g. a malformed canvas) is reported
+// to `onError` and contributes nothing, rather than stopping the scan.
+export function collectReferences(
+    extractors: readonly ReferenceExtractor[],
+    content: string,
+    context: ExtractContext,
+    resolve: (link: string, sourcePath: string) => string,
+    onError: (extractor: ReferenceExtractor, error: unknown) => void,
+): Reference[] {
+    const source = context.path;
+    const refs: Reference[] = [];
+    for (const extractor of extractors) {
+        let found: ExtractedReference[];
+        try {
+            found = extractor.extract(content, context);
+        } catch (error) {
+            onError(extractor, error);
+            continue;
+        }
+        for (const { link, kind = 'other', literal, ...location } of found) {
+            refs.push(literal
+                ? { source, target: link, kind, extractor: extractor.id, ...location }
+                : { source, target: resolve(link, source), kind, extractor: extractor.id, link, ...location });
+        }
+    }
+    return refs;
+}
+
+export class ExtractorRegistry {
+    private extractors = new Map<string, ReferenceExtractor>();
+    private listeners = new Set<() => void>();
+
+    // Adds `extractor`; returns a function that removes it again. Ids must be unique.
+    register(extractor: ReferenceExtractor): () => void {
+        if (this.extractors.has(extractor.id)) {
+            throw new Error(`A reference extractor with id "${extractor.id}" is already registered`);
+        }
+        this.extractors.set(extractor.id, extractor);
+        this.changed();
+        return () => {
+            if (this.extractors.get(extractor.id) !== extractor) return;
+            this.extractors.delete(extractor.id);
+            this.changed();
+        };
+    }
+
+    // Every registered extractor, in registration order (the plugin registers built-ins first).
+    all(): ReferenceExtractor[] {
+        return [...this.extractors.values()];
+    }
+
+    // Extractors that read files with `extension`, skipping ids in `disabled`.
+    forExtension(extension: string, disabled: readonly string[] = []): ReferenceExtractor[] {
+        const ext = extension.toLowerCase();
+        return this.all().filter(extractor => extractor.extensions.includes(ext) && !disabled.includes(extractor.id));
+    }
+
+    // True if any enabled extractor reads files with `extension`.
+    reads(extension: string, disabled: readonly string[] = []): boolean {
+        return this.forExtension(extension, disabled).length > 0;
+    }
+
+    // Calls `listener` after an extractor is added or removed. Returns an unsubscribe function.
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private changed() {
+        for (const listener of this.listeners) listener();
+    }
+}
@@ -0,0 +1,46 @@
+import type { CandidateFilters } from './types';
+import { formatBytes, isOlderThanDays } from './utils';
+
+// Age and size filters that narrow orphans down to cleanup candidates, for the report, the
+// review panel and bulk delete. Zero switches a bound off. Pure.
+
+// Anything with on-disk stats (satisfied by Obsidian's TFile).
+interface WithStat {
+    stat: { size: number; mtime: number; ctime: number };
+}
+
+const AGE_FIELD_LABELS: Record<CandidateFilters['ageField'], string> = {
+    mtime: 'modified',
+    ctime: 'created',
+};
+
+// True if `file` passes every active filter at time `now` (epoch ms).
+export function passesFilters(file: WithStat, filters: CandidateFilters, now: number): boolean {
+    const { size } = file.stat;
+    if (filters.minAgeDays > 0 && !isOlderThanDays(file.stat[filters.ageField], filters.minAgeDays, now)) return false;
+    if (filters.minSizeKB > 0 && size <= filters.minSizeKB * 1024) return false;
+    if (filters.maxSizeKB > 0 && size >= filters.maxSizeKB * 1024) return false;
+    return true;
+}
+
+export function applyFilters<T extends WithStat>(files: readonly T[], filters: CandidateFilters, now: number): T[] {
+    return files.filter(file => passesFilters(file, filters, now));
+}
+
+// One phrase per active filter, e.g. ["modified more than 7 days ago", "larger than 500 KB"];
+// empty when none is active.
+export function describeFilters(filters: CandidateFilters): string[] {
+    const phrases: string[] = [];
+    if (filters.minAgeDays > 0) {
+        const days = `${filters.minAgeDays} day${filters.minAgeDays === 1 ? '' : 's'}`;
+        phrases.push(`${AGE_FIELD_LABELS[filters.ageField]} more than ${days} ago`);
+    }
+    if (filters.minSizeKB > 0) phrases.push(`larger than ${formatBytes(filters.minSizeKB * 1024)}`);
+    if (filters.maxSizeKB > 0) phrases.push(`smaller than ${formatBytes(filters.maxSizeKB * 1024)}`);
+    return phrases;
+}
+
+// Oldest first by the filters' age field, path as tie-break; the order a delete cap keeps.
+export function oldestFirst<T extends WithStat & { path: string }>(files: readonly T[], ageField: CandidateFilters['ageField']): T[] {
+    return [...files].sort((a, b) => a.stat[ageField] - b.stat[ageField] || a.path.localeCompare(b.path));
+}
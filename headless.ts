@@ -0,0 +1,218 @@
+import { DEFAULT_SETTINGS, FindOrphanedImagesSettings } from './types';
+import { BUILT_IN_EXTRACTORS, ExtractorRegistry, collectReferences } from './extractors';
+import { customPatternExtractor } from './patterns';
+import { ReferenceIndex } from './reference-index';
+import { LinkResolver } from './link-resolver';
+import { parseMetadata } from './metadata';
+import { IGNORE_FILE, ScopeOverrides, parseScopeRules, scopeFilter } from './scope';
+import { isPluginNote } from './report';
+import { KEEP_PROPERTY, isKeepValue, sidecarPathFor } from './keep';
+import type { ExportFile, ExportFormat } from './export';
+import { extensionOf, formatBytes, totalSize } from './utils';
+
+// Orphan detection over a plain list of files, for the command-line scanner (./cli) and
+// anything else running without Obsidian. The same extractors and scope rules as the
+// plugin; links are parsed by ./metadata and resolved by ./link-resolver instead of
+// Obsidian's metadata cache. No filesystem access here: the caller lists and reads files.
+
+export interface HeadlessScan {
+    attachments: ExportFile[]; // in scan scope
+    orphans: ExportFile[];
+    sources: number; // files read for references
+    errors: string[]; // files or extractors that failed, as messages
+}
+
+export interface HeadlessOptions {
+    ignoreFile?: string; // contents of the vault's .orphanignore
+    scope?: ScopeOverrides;
+}
+
+// `files` is every file in the vault; `read` returns one file's text (and may throw).
+export function scanFiles(
+    files: readonly ExportFile[],
+    read: (path: string) => string,
+    settings: FindOrphanedImagesSettings,
+    options: HeadlessOptions = {},
+): HeadlessScan {
+    const registry = new ExtractorRegistry();
+    for (const extractor of BUILT_IN_EXTRACTORS) registry.register(extractor);
+    registry.register(customPatternExtractor(() => settings.customPatterns));
+
+    const resolver = new LinkResolver(files.map(file => file.path));
+    const index = new ReferenceIndex();
+    const errors: string[] = [];
+    let sources = 0;
+
+    for (const file of files) {
+        const extractors = registry.forExtension(file.extension, settings.disabledExtractors);
+        if (extractors.length === 0 || isPluginNote(file.path, settings.reportFolder)) continue;
+        let content: string;
+        try {
+            content = read(file.path);
+        } catch (error) {
+            errors.push(`Could not read ${file.path}: ${error instanceof Error ? error.message : String(error)}`);
+            continue;
+        }
+        sources++;
+        const cache = file.extension.toLowerCase() === 'md' ? parseMetadata(content) : null;
+        index.setSource(file.path, collectReferences(
+            extractors,
+            content,
+            { path: file.path, cache },
+            (link, source) => resolver.resolveTarget(link, source),
+            (extractor, error) => errors.push(`Reference extractor "${extractor.id}" failed on ${file.path}: ${error instanceof Error ? error.message : String(error)}`),
+        ));
+    }
+
+    const inScope = scopeFilter(settings, parseScopeRules(options.ignoreFile ?? '', IGNORE_FILE), options.scope);
+    const attachments = files.filter(file => inScope(file.path));
+    const isKept = keptFilter(files, read, settings);
+    const orphans = attachments.filter(file => !index.isReferenced(file.path) && !isKept(file.path));
+    return { attachments, orphans, sources, errors };
+}
+
+// The keep list, plus sidecar notes saying `keep: true` when keepSidecars is on (see ./keep).
+function keptFilter(
+    files: readonly ExportFile[],
+    read: (path: string) => string,
+    settings: FindOrphanedImagesSettings,
+): (path: string) => boolean {
+    const kept = new Set(settings.keptFiles);
+    if (!settings.keepSidecars) return path => kept.has(path);
+    const paths = new Set(files.map(file => file.path));
+    return path => {
+        if (kept.has(path)) return true;
+        const sidecar = sidecarPathFor(path);
+        if (!paths.has(sidecar)) return false;
+        try {
+            return isKeepValue(parseMetadata(read(sidecar)).frontmatter?.[KEEP_PROPERTY]);
+        } catch {
+            return false;
+        }
+    };
+}
+
+// Plain-text listing: a summary line, then one line per orphan with its size.
+export function buildTextReport(scan: HeadlessScan, vault: string): string {
+    const { orphans } = scan;
+    if (orphans.length === 0) {
+        return `No orphaned attachments in ${vault} (${scan.attachments.length} checked).\n`;
+    }
+    const lines = [`${orphans.length} orphaned attachment${orphans.length === 1 ? '' : 's'} in ${vault} (${formatBytes(totalSize(orphans))}):`];
+    for (const file of [...orphans].sort((a, b) => a.path.localeCompare(b.path))) {
+        lines.push(`  ${file.path}  ${formatBytes(file.stat.size)}`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+export const CLI_USAGE = `Usage: find-orphaned-images <vault> [options]
+
+Lists attachments in the vault folder that nothing references, like the Obsidian plugin.
+Exits with 0 when there are none, 1 when there are orphans, and 2 on errors.
+
+Options:
+  --format <text|json|csv>  Output format (default: text)
+  --output <file>           Write the result to a file instead of standard output
+  --config <file>           Plugin settings to use (default: the vault's
+                            .obsidian/plugins/find-orphaned-images/data.json, if any)
+  --include <folders>       Only scan these folders (comma-separated), instead of the setting
+  --exclude <folders>       Skip these folders (comma-separated), instead of the setting
+  --ext <extensions>        Attachment extensions (comma-separated), instead of the settings
+  --help                    Show this help
+`;
+
+export interface CliOptions {
+    vault: string;
+    format: 'text' | ExportFormat;
+    output?: string;
+    config?: string;
+    scope: ScopeOverrides;
+    help: boolean;
+}
+
+// Parses command-line arguments (without node and the script). Throws an Error with a
+// message for the user on anything it doesn't understand.
+export function parseCliArgs(args: readonly string[]): CliOptions {
+    const options: CliOptions = { vault: '', format: 'text', scope: {}, help: false };
+    const positional: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const [flag, inline] = arg.startsWith('--') && arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+        const value = () => {
+            if (inline !== undefined) return inline;
+            const next = args[++i];
+            if (next === undefined || next.startsWith('--')) throw new Error(`${flag} needs a value`);
+            return next;
+        };
+
+        switch (flag) {
+            case '--help':
+            case '-h':
+                options.help = true;
+                break;
+            case '--format': {
+                const format = value();
+                if (format !== 'text' && format !== 'json' && format !== 'csv') {
+                    throw new Error(`Unknown format "${format}". Use text, json or csv.`);
+                }
+                options.format = format;
+                break;
+            }
+            case '--output':
+                options.output = value();
+                break;
+            case '--config':
+                options.config = value();
+                break;
+            case '--include':
+                options.scope.includeFolders = value();
+                break;
+            case '--exclude':
+                options.scope.excludeFolders = value();
+                break;
+            case '--ext':
+                options.scope.extensions = [value()];
+                break;
+            default:
+                if (arg.startsWith('-')) throw new Error(`Unknown option ${arg}`);
+                positional.push(arg);
+        }
+    }
+
+    if (options.help) return options;
+    if (positional.length !== 1) throw new Error(positional.length === 0 ? 'Missing the vault folder' : 'Only one vault folder can be scanned at a time');
+    options.vault = positional[0];
+    return options;
+}
+
+// Settings from a plugin data.json (or none), over the defaults, the way the plugin loads
+// them. The cleanup journal, report history and keys only older versions wrote are dropped.
+export function settingsFromData(data: unknown): FindOrphanedImagesSettings {
+    const stored: Record<string, unknown> = { ...(data && typeof data === 'object' ? data : {}) };
+    const { imageExtensions } = stored;
+    delete stored.imageExtensions;
+    delete stored.moveToTrash;
+    delete stored.journal;
+    delete stored.history;
+
+    const settings: FindOrphanedImagesSettings = Object.assign({}, DEFAULT_SETTINGS, stored);
+    // Pre-category versions stored a single imageExtensions list.
+    if (typeof imageExtensions === 'string' && stored.categories === undefined) {
+        settings.categories = settings.categories.map(category =>
+            category.id === 'images' ? { ...category, extensions: imageExtensions } : category);
+    }
+    return settings;
+}
+
+// A vault-relative path as an ExportFile, with the given stats.
+export function diskFile(path: string, stat: ExportFile['stat']): ExportFile {
+    const slash = path.lastIndexOf('/');
+    return {
+        path,
+        name: path.slice(slash + 1),
+        extension: extensionOf(path),
+        parent: slash === -1 ? null : { path: path.slice(0, slash) },
+        stat,
+    };
+}
@@ -0,0 +1,73 @@
+import type { ScanSnapshot, SnapshotFile } from './types';
+import { formatBytes } from './utils';
+
+// Pure helpers for the report history kept in plugin data (no Obsidian dependency): a
+// snapshot of the orphans each report listed, the diff against the previous one and a trend.
+
+// Oldest snapshots are dropped past this.
+export const HISTORY_LIMIT = 100;
+
+// Scans shown in the trend line.
+export const TREND_POINTS = 12;
+
+export function takeSnapshot(files: readonly { path: string; stat: { size: number } }[], timestamp: number): ScanSnapshot {
+    const snapshot = files.map(file => ({ path: file.path, size: file.stat.size }));
+    return {
+        timestamp,
+        count: snapshot.length,
+        bytes: snapshot.reduce((sum, file) => sum + file.size, 0),
+        files: snapshot,
+    };
+}
+
+// Returns a new history with `snapshot` appended, keeping only the newest `limit`. Only the
+// newest snapshot keeps its file list (the next report diffs against it); older ones keep
+// their totals for the trend, so data.json stays small.
+export function appendSnapshot(history: readonly ScanSnapshot[], snapshot: ScanSnapshot, limit = HISTORY_LIMIT): ScanSnapshot[] {
+    const next = history.map(({ timestamp, count, bytes }) => ({ timestamp, count, bytes }));
+    next.push(snapshot);
+    return next.length > limit ? next.slice(next.length - limit) : next;
+}
+
+export interface ScanDiff {
+    added: SnapshotFile[]; // orphaned now, not in the previous snapshot
+    resolved: SnapshotFile[]; // in the previous snapshot, not orphaned now
+    still: SnapshotFile[]; // in both
+}
+
+// Each list sorted by path. A previous snapshot without files diffs as empty.
+export function diffSnapshots(previous: ScanSnapshot, current: ScanSnapshot): ScanDiff {
+    const before = new Map((previous.files ?? []).map(file => [file.path, file]));
+    const diff: ScanDiff = { added: [], resolved: [], still: [] };
+    for (const file of current.files ?? []) {
+        if (before.delete(file.path)) diff.still.push(file);
+        else diff.added.push(file);
+    }
+    diff.resolved = [...before.values()];
+    for (const list of [diff.added, diff.resolved, diff.still]) list.sort((a, b) => a.path.localeCompare(b.path));
+    return diff;
+}
+
+const SPARKS = '▁▂▃▄▅▆▇█';
+
+// e.g. "▁▃▅█ 4 scans since 2026-10-01: 12 → 15 orphans, 3.4 MB → 4.0 MB", over the last
+// `points` snapshots; '' with fewer than two.
+export function trendLine(history: readonly ScanSnapshot[], points = TREND_POINTS): string {
+    const recent = history.slice(-points);
+    if (recent.length < 2) return '';
+    const max = Math.max(...recent.map(snapshot => snapshot.count));
+    const spark = recent
+        .map(snapshot => SPARKS[max === 0 ? 0 : Math.round(snapshot.count / max * (SPARKS.length - 1))])
+        .join('');
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    return `${spark} ${recent.length} scans since ${dateStamp(first.timestamp)}: `
+        + `${first.count} → ${last.count} orphans, ${formatBytes(first.bytes)} → ${formatBytes(last.bytes)}`;
+}
+
+// Local date as YYYY-MM-DD.
+export function dateStamp(timestamp: number): string {
+    const date = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,278 @@
+// Pure readers for image headers (no Obsidian dependency): pixel dimensions of PNG, JPEG,
+// GIF, WebP and BMP files, plus a JPEG's (or PNG's) EXIF tags and a PNG's text chunks, for
+// the review panel's lightbox. Nothing is decompressed; a damaged or unknown file gives
+// whatever was read before the problem, never an exception.
+
+export interface ImageInfo {
+    width?: number;
+    height?: number;
+    fields: [string, string][]; // label and value, in file order
+}
+
+// Long values (XMP packets, embedded descriptions) are cut to this many characters.
+const MAX_VALUE_LENGTH = 200;
+const MAX_FIELDS = 40;
+
+export function readImageInfo(data: ArrayBuffer | Uint8Array): ImageInfo {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    const info: ImageInfo = { fields: [] };
+    try {
+        if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) readPng(bytes, info);
+        else if (startsWith(bytes, [0xff, 0xd8])) readJpeg(bytes, info);
+        else if (ascii(bytes, 0, 4) === 'GIF8') readGif(bytes, info);
+        else if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') readWebp(bytes, info);
+        else if (ascii(bytes, 0, 2) === 'BM') readBmp(bytes, info);
+    } catch (error) {
+        // Truncated or damaged: keep what was read so far.
+        if (!(error instanceof RangeError)) throw error;
+    }
+    info.fields = info.fields.slice(0, MAX_FIELDS);
+    return info;
+}
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+    return prefix.every((byte, i) => bytes[i] === byte);
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+    return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+function view(bytes: Uint8Array): DataView {
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function addField(info: ImageInfo, label: string, value: string) {
+    // Control characters (line breaks, NULs from padded fields) become spaces.
+    const spaced = Array.from(value, char => (char.charCodeAt(0) < 0x20 ? ' ' : char)).join('');
+    const clean = spaced.replace(/ {2,}/g, ' ').trim();
+    if (!clean) return;
+    info.fields.push([label, clean.length > MAX_VALUE_LENGTH ? `${clean.slice(0, MAX_VALUE_LENGTH)}…` : clean]);
+}
+
+// Chunks: length, type, data, CRC. IHDR holds the size; tEXt and uncompressed iTXt hold
+// keyword/text pairs; eXIf holds EXIF as in a JPEG.
+function readPng(bytes: Uint8Array, info: ImageInfo) {
+    const data = view(bytes);
+    let pos = 8;
+    while (pos + 8 <= bytes.length) {
+        const length = data.getUint32(pos);
+        const type = ascii(bytes, pos + 4, 4);
+        const start = pos + 8;
+        const chunk = bytes.subarray(start, Math.min(bytes.length, start + length));
+        if (type === 'IHDR') {
+            info.width = data.getUint32(start);
+            info.height = data.getUint32(start + 4);
+        } else if (type === 'tEXt') {
+            const split = chunk.indexOf(0);
+            if (split > 0) addField(info, latin1(chunk.subarray(0, split)), latin1(chunk.subarray(split + 1)));
+        } else if (type === 'iTXt') {
+            readITxt(chunk, info);
+        } else if (type === 'eXIf') {
+            readTiff(chunk, info);
+        } else if (type === 'IEND') {
+            break;
+        }
+        pos = start + length + 4;
+    }
+}
+
+// keyword \0 compression-flag method language \0 translated-keyword \0 text (UTF-8).
+function readITxt(chunk: Uint8Array, info: ImageInfo) {
+    const keywordEnd = chunk.indexOf(0);
+    if (keywordEnd <= 0 || chunk[keywordEnd + 1] !== 0) return; // compressed
+    const languageEnd = chunk.indexOf(0, keywordEnd + 3);
+    const translatedEnd = languageEnd === -1 ? -1 : chunk.indexOf(0, languageEnd + 1);
+    if (translatedEnd === -1) return;
+    const keyword = latin1(chunk.subarray(0, keywordEnd));
+    addField(info, keyword, new TextDecoder().decode(chunk.subarray(translatedEnd + 1)));
+}
+
+function latin1(bytes: Uint8Array): string {
+    let text = '';
+    for (const byte of bytes) text += String.fromCharCode(byte);
+    return text;
+}
+
+// Segments: marker, length, data. A start-of-frame segment holds the size; APP1 may hold
+// EXIF. Stops at the image data.
+function readJpeg(bytes: Uint8Array, info: ImageInfo) {
+    const data = view(bytes);
+    let pos = 2;
+    while (pos + 4 <= bytes.length) {
+        if (bytes[pos] !== 0xff) return;
+        const marker = bytes[pos + 1];
+        if (marker === 0xff) {
+            pos++; // fill byte
+            continue;
+        }
+        if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+            pos += 2; // no length
+            continue;
+        }
+        if (marker === 0xd9 || marker === 0xda) return; // end of image, start of scan
+        const length = data.getUint16(pos + 2);
+        const start = pos + 4;
+        const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+        if (isFrame && info.width === undefined) {
+            info.height = data.getUint16(start + 1);
+            info.width = data.getUint16(start + 3);
+        } else if (marker === 0xe1 && ascii(bytes, start, 6) === 'Exif\0\0') {
+            readTiff(bytes.subarray(start + 6, pos + 2 + length), info);
+        }
+        pos += 2 + length;
+    }
+}
+
+function readGif(bytes: Uint8Array, info: ImageInfo) {
+    const data = view(bytes);
+    info.width = data.getUint16(6, true);
+    info.height = data.getUint16(8, true);
+}
+
+// The first chunk says how the size is stored: lossy (VP8), lossless (VP8L) or extended
+// (VP8X).
+function readWebp(bytes: Uint8Array, info: ImageInfo) {
+    const data = view(bytes);
+    const chunk = ascii(bytes, 12, 4);
+    if (chunk === 'VP8 ') {
+        info.width = data.getUint16(26, true) & 0x3fff;
+        info.height = data.getUint16(28, true) & 0x3fff;
+    } else if (chunk === 'VP8L') {
+        const bits = data.getUint32(21, true);
+        info.width = (bits & 0x3fff) + 1;
+        info.height = ((bits >> 14) & 0x3fff) + 1;
+    } else if (chunk === 'VP8X') {
+        const uint24 = (at: number) => data.getUint16(at, true) | (data.getUint8(at + 2) << 16);
+        info.width = uint24(24) + 1;
+        info.height = uint24(27) + 1;
+    }
+}
+
+function readBmp(bytes: Uint8Array, info: ImageInfo) {
+    const data = view(bytes);
+    info.width = Math.abs(data.getInt32(18, true));
+    info.height = Math.abs(data.getInt32(22, true)); // negative for top-down bitmaps
+}
+
+// EXIF tags worth showing, by IFD. Values are formatted by `formatTag`.
+const IFD0_TAGS: Record<number, string> = {
+    0x010e: 'Description',
+    0x010f: 'Camera make',
+    0x0110: 'Camera model',
+    0x0112: 'Orientation',
+    0x0131: 'Software',
+    0x0132: 'Date',
+    0x013b: 'Artist',
+    0x8298: 'Copyright',
+};
+const EXIF_TAGS: Record<number, string> = {
+    0x9003: 'Taken',
+    0x829a: 'Exposure',
+    0x829d: 'Aperture',
+    0x8827: 'ISO',
+    0x920a: 'Focal length',
+    0xa434: 'Lens',
+};
+const EXIF_POINTER = 0x8769;
+const GPS_POINTER = 0x8825;
+
+const ORIENTATIONS: Record<number, string> = {
+    1: 'Normal',
+    2: 'Mirrored',
+    3: 'Rotated 180°',
+    4: 'Mirrored vertically',
+    5: 'Mirrored, rotated 90° counter-clockwise',
+    6: 'Rotated 90° clockwise',
+    7: 'Mirrored, rotated 90° clockwise',
+    8: 'Rotated 90° counter-clockwise',
+};
+
+type TagValue = string | number[];
+
+// A TIFF structure as EXIF stores it: byte order, then IFD0, which may point at the EXIF
+// and GPS IFDs. Offsets are relative to the start of `tiff`.
+function readTiff(tiff: Uint8Array, info: ImageInfo) {
+    const order = ascii(tiff, 0, 2);
+    if (order !== 'II' && order !== 'MM') return;
+    const little = order === 'II';
+    const data = view(tiff);
+    if (data.getUint16(2, little) !== 42) return;
+
+    const ifd0 = readIfd(tiff, data.getUint32(4, little), little);
+    for (const [tag, value] of ifd0) {
+        if (IFD0_TAGS[tag]) addField(info, IFD0_TAGS[tag], formatTag(tag, value));
+    }
+    const exifOffset = ifd0.get(EXIF_POINTER);
+    if (Array.isArray(exifOffset)) {
+        for (const [tag, value] of readIfd(tiff, exifOffset[0], little)) {
+            if (EXIF_TAGS[tag]) addField(info, EXIF_TAGS[tag], formatTag(tag, value));
+        }
+    }
+    const gpsOffset = ifd0.get(GPS_POINTER);
+    if (Array.isArray(gpsOffset)) {
+        const location = formatLocation(readIfd(tiff, gpsOffset[0], little));
+        if (location) addField(info, 'Location', location);
+    }
+}
+
+// Entries of the IFD at `offset`: tag -> ASCII text, or numbers (rationals as fractions).
+function readIfd(tiff: Uint8Array, offset: number, little: boolean): Map<number, TagValue> {
+    const data = view(tiff);
+    const entries = new Map<number, TagValue>();
+    const count = data.getUint16(offset, little);
+    for (let i = 0; i < count; i++) {
+        const entry = offset + 2 + i * 12;
+        const tag = data.getUint16(entry, little);
+        const type = data.getUint16(entry + 2, little);
+        const n = data.getUint32(entry + 4, little);
+        const size = ({ 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 } as Record<number, number>)[type];
+        if (!size) continue;
+        const at = size * n <= 4 ? entry + 8 : data.getUint32(entry + 8, little);
+        if (at + size * n > tiff.length) continue;
+        if (type === 2) {
+            entries.set(tag, latin1(tiff.subarray(at, at + n)).replace(/\0+$/, ''));
+            continue;
+        }
+        const values: number[] = [];
+        for (let j = 0; j < Math.min(n, 16); j++) {
+            const p = at + j * size;
+            switch (type) {
+                case 3: values.push(data.getUint16(p, little)); break;
+                case 4: values.push(data.getUint32(p, little)); break;
+                case 9: values.push(data.getInt32(p, little)); break;
+                case 5: values.push(data.getUint32(p, little) / (data.getUint32(p + 4, little) || 1)); break;
+                case 10: values.push(data.getInt32(p, little) / (data.getInt32(p + 4, little) || 1)); break;
+                default: values.push(tiff[p]);
+            }
+        }
+        entries.set(tag, values);
+    }
+    return entries;
+}
+
+function formatTag(tag: number, value: TagValue): string {
+    if (typeof value === 'string') return value;
+    const [n] = value;
+    if (n === undefined) return '';
+    const round = (x: number) => String(Number(x.toFixed(1)));
+    switch (tag) {
+        case 0x0112: return ORIENTATIONS[n] ?? String(n);
+        case 0x829a: return n > 0 && n < 1 ? `1/${Math.round(1 / n)} s` : `${round(n)} s`;
+        case 0x829d: return `f/${round(n)}`;
+        case 0x920a: return `${round(n)} mm`;
+        default: return String(n);
+    }
+}
+
+// GPS latitude and longitude as signed decimal degrees, e.g. "48.85837, 2.29448".
+function formatLocation(gps: Map<number, TagValue>): string | null {
+    const degrees = (ref: TagValue | undefined, dms: TagValue | undefined, negative: string) => {
+        if (!Array.isArray(dms) || dms.length < 3) return null;
+        const value = dms[0] + dms[1] / 60 + dms[2] / 3600;
+        return (ref === negative ? -value : value).toFixed(5);
+    };
+    const lat = degrees(gps.get(1), gps.get(2), 'S');
+    const lon = degrees(gps.get(3), gps.get(4), 'W');
+    return lat && lon ? `${lat}, ${lon}` : null;
+}
@@ -0,0 +1,47 @@
+import type { CleanupOutcome, DisposalMode, JournalRun } from './types';
+
+// Pure helpers for the cleanup journal kept in plugin data (no Obsidian dependency).
+
+// Oldest runs are dropped past this, so data.json stays small.
+export const JOURNAL_LIMIT = 100;
+
+// Sortable, practically unique: base-36 timestamp plus a random suffix.
+export function newRunId(now: number): string {
+    return `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function outcomeFor(mode: DisposalMode): CleanupOutcome {
+    return mode === 'trash' ? 'trashed' : mode === 'quarantine' ? 'quarantined' : 'deleted';
+}
+
+// Returns a new journal with `run` appended, keeping only the newest `limit` runs.
+export function appendRun(journal: readonly JournalRun[], run: JournalRun, limit = JOURNAL_LIMIT): JournalRun[] {
+    const next = [...journal, run];
+    return next.length > limit ? next.slice(next.length - limit) : next;
+}
+
+// Per-outcome file counts plus the bytes the run actually removed.
+export function summarizeRun(run: JournalRun): Record<CleanupOutcome, number> & { bytes: number } {
+    const summary = { trashed: 0, deleted: 0, quarantined: 0, failed: 0, restored: 0, bytes: 0 };
+    for (const file of run.files) {
+        summary[file.outcome]++;
+        if (file.outcome !== 'failed' && file.outcome !== 'restored') summary.bytes += file.size;
+    }
+    return summary;
+}
+
+// e.g. "12 moved to trash, 1 failed" — omits zero counts.
+export function describeRun(run: JournalRun): string {
+    const summary = summarizeRun(run);
+    const labels: [CleanupOutcome, string][] = [
+        ['trashed', 'moved to trash'],
+        ['quarantined', 'quarantined'],
+        ['deleted', 'deleted'],
+        ['restored', 'restored'],
+        ['failed', 'failed'],
+    ];
+    const parts = labels
+        .filter(([outcome]) => summary[outcome] > 0)
+        .map(([outcome, label]) => `${summary[outcome]} ${label}`);
+    return parts.length > 0 ? parts.join(', ') : 'no files';
+}
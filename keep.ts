@@ -0,0 +1,46 @@
+// Pure helpers for kept files (no Obsidian dependency): attachments marked as intentionally
+// unlinked, which are never reported or offered for deletion. A file is kept by the keep
+// list in settings, or, with keepSidecars on, by a sidecar note next to it whose frontmatter
+// says `keep: true`.
+
+// Frontmatter property of a sidecar note that keeps its attachment.
+export const KEEP_PROPERTY = 'keep';
+
+// "Logos/logo.png" -> "Logos/logo.png.md".
+export function sidecarPathFor(path: string): string {
+    return `${path}.md`;
+}
+
+// True for a frontmatter value that means yes: true, "true" or "yes", any case.
+export function isKeepValue(value: unknown): boolean {
+    if (value === true) return true;
+    return typeof value === 'string' && /^(true|yes)$/i.test(value.trim());
+}
+
+// Returns a new keep list with `paths` added, sorted and without duplicates.
+export function addToKeepList(list: readonly string[], paths: readonly string[]): string[] {
+    return [...new Set([...list, ...paths])].sort((a, b) => a.localeCompare(b));
+}
+
+export function removeFromKeepList(list: readonly string[], paths: readonly string[]): string[] {
+    const removed = new Set(paths);
+    return list.filter(path => !removed.has(path));
+}
+
+// The keep list after `oldPath` (a file or folder) was renamed to `newPath`, so kept files
+// stay kept when moved. Returns `list` itself when nothing in it changed.
+export function renameInKeepList(list: string[], oldPath: string, newPath: string): string[] {
+    let changed = false;
+    const next = list.map(path => {
+        if (path === oldPath) {
+            changed = true;
+            return newPath;
+        }
+        if (path.startsWith(`${oldPath}/`)) {
+            changed = true;
+            return newPath + path.slice(oldPath.length);
+        }
+        return path;
+    });
+    return changed ? addToKeepList(next, []) : list;
+}
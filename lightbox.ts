@@ -0,0 +1,208 @@
+import { App, Modal, TFile, setIcon } from 'obsidian';
+import { previewKind } from './categories';
+import { renderPreview, stopPreviews } from './previews';
+import { readImageInfo } from './image-info';
+import { formatBytes } from './utils';
+
+// Largest image read for its embedded metadata: the vault API only reads whole files.
+const METADATA_READ_LIMIT = 32 * 1024 * 1024;
+
+// What the lightbox asks of the review panel that opened it.
+export interface LightboxHost {
+    isSelected(file: TFile): boolean;
+    toggleSelected(file: TFile): void;
+    keep(file: TFile): void;
+    delete(file: TFile): void;
+    closed(file: TFile | null): void; // the file last shown
+}
+
+// Steps through the review panel's files in its sort order, one large preview at a time,
+// with the file's dimensions, size, times and embedded metadata, and Keep, Select and
+// Delete actions. The panel hands over its list again after every change (setFiles), so
+// kept and deleted files drop out and the next one takes their place.
+export class LightboxModal extends Modal {
+    private files: TFile[];
+    private index: number;
+    private host: LightboxHost;
+    private shownPath: string | null = null; // the file the content was rendered for
+    private prevBtn: HTMLButtonElement | null = null;
+    private nextBtn: HTMLButtonElement | null = null;
+    private selectBtn: HTMLButtonElement | null = null;
+    private generation = 0; // drops metadata of files stepped past
+
+    constructor(app: App, files: TFile[], index: number, host: LightboxHost) {
+        super(app);
+        this.files = files;
+        this.index = index;
+        this.host = host;
+    }
+
+    onOpen() {
+        this.modalEl.addClass('oiv-lightbox');
+        const key = (name: string, action: () => void) => this.scope.register([], name, () => {
+            action();
+            return false;
+        });
+        key('ArrowLeft', () => this.step(-1));
+        key('ArrowRight', () => this.step(1));
+        key(' ', () => this.toggleSelected());
+        key('Delete', () => this.deleteCurrent());
+        this.render();
+    }
+
+    onClose() {
+        this.generation++;
+        stopPreviews(this.contentEl);
+        this.contentEl.empty();
+        this.host.closed(this.current());
+    }
+
+    // The panel's list changed: stay on the same file, or show whichever took its place.
+    setFiles(files: TFile[]) {
+        const at = files.findIndex(file => file.path === this.shownPath);
+        this.files = files;
+        if (files.length === 0) {
+            this.close();
+            return;
+        }
+        this.index = at !== -1 ? at : Math.min(this.index, files.length - 1);
+        this.render();
+    }
+
+    private current(): TFile | null {
+        return this.files[this.index] ?? null;
+    }
+
+    private step(delta: number) {
+        const index = Math.min(this.files.length - 1, Math.max(0, this.index + delta));
+        if (index === this.index) return;
+        this.index = index;
+        this.render();
+    }
+
+    private toggleSelected() {
+        const file = this.current();
+        if (!file) return;
+        this.host.toggleSelected(file);
+        this.updateControls();
+    }
+
+    private deleteCurrent() {
+        const file = this.current();
+        if (file) this.host.delete(file);
+    }
+
+    // Rebuilds the content for the current file, or only the controls if it is unchanged.
+    private render() {
+        const file = this.current();
+        if (!file) return;
+        if (file.path === this.shownPath) {
+            this.updateControls();
+            return;
+        }
+        this.shownPath = file.path;
+        const generation = ++this.generation;
+        const { contentEl } = this;
+        stopPreviews(contentEl);
+        contentEl.empty();
+
+        const stage = contentEl.createDiv({ cls: 'oiv-lightbox-stage' });
+        this.prevBtn = this.iconButton(stage, 'chevron-left', 'Previous (←)', () => this.step(-1));
+        const media = stage.createDiv({ cls: 'oiv-lightbox-media' });
+        this.nextBtn = this.iconButton(stage, 'chevron-right', 'Next (→)', () => this.step(1));
+
+        const details = contentEl.createDiv({ cls: 'oiv-lightbox-details' });
+        this.field(details, 'Path', file.path);
+        const dimensions = this.field(details, 'Dimensions', '…');
+        this.field(details, 'Size', formatBytes(file.stat.size));
+        this.field(details, 'Created', new Date(file.stat.ctime).toLocaleString());
+        this.field(details, 'Modified', new Date(file.stat.mtime).toLocaleString());
+        // Whichever knows first: the file header or the loaded image.
+        const setDimensions = (width: number, height: number) => {
+            if (generation === this.generation && width > 0 && height > 0) dimensions.setText(`${width} × ${height} px`);
+        };
+        const kind = previewKind(file.extension);
+        this.renderMedia(media, file, setDimensions);
+        if (kind === 'image' && file.stat.size <= METADATA_READ_LIMIT) {
+            void this.renderMetadata(details, file, generation, setDimensions);
+        } else if (kind !== 'image' && kind !== 'video') {
+            dimensions.setText('—');
+        }
+
+        const actions = contentEl.createDiv({ cls: 'oiv-lightbox-actions' });
+        this.textButton(actions, 'Keep', 'Keep as intentionally unlinked', () => this.host.keep(file));
+        this.selectBtn = this.textButton(actions, 'Select', 'Select for deletion (Space)', () => this.toggleSelected());
+        this.textButton(actions, 'Delete', 'Delete this file (Delete)', () => this.deleteCurrent()).addClass('mod-warning');
+        this.textButton(actions, 'Open', 'Open in a new tab', () => void this.app.workspace.getLeaf(true).openFile(file));
+        this.updateControls();
+    }
+
+    private updateControls() {
+        const file = this.current();
+        if (!file) return;
+        this.setTitle(`${file.name} (${this.index + 1} of ${this.files.length})`);
+        if (this.prevBtn) this.prevBtn.disabled = this.index === 0;
+        if (this.nextBtn) this.nextBtn.disabled = this.index === this.files.length - 1;
+        this.selectBtn?.setText(this.host.isSelected(file) ? 'Deselect' : 'Select');
+        this.selectBtn?.toggleClass('mod-cta', this.host.isSelected(file));
+    }
+
+    private renderMedia(media: HTMLElement, file: TFile, setDimensions: (width: number, height: number) => void) {
+        const src = this.app.vault.getResourcePath(file);
+        switch (previewKind(file.extension)) {
+            case 'image': {
+                const img = media.createEl('img', { attr: { src, alt: file.name } });
+                img.addEventListener('load', () => setDimensions(img.naturalWidth, img.naturalHeight));
+                break;
+            }
+            case 'video': {
+                const video = media.createEl('video', { attr: { src, controls: '' } });
+                video.addEventListener('loadedmetadata', () => setDimensions(video.videoWidth, video.videoHeight));
+                break;
+            }
+            case 'audio':
+                media.createEl('audio', { attr: { src, controls: '' } });
+                break;
+            default:
+                renderPreview(this.app, media.createDiv({ cls: 'oiv-thumb' }), file);
+        }
+    }
+
+    // Dimensions from the header, and any EXIF tags or PNG text chunks below the basics.
+    private async renderMetadata(details: HTMLElement, file: TFile, generation: number,
+        setDimensions: (width: number, height: number) => void) {
+        let data: ArrayBuffer;
+        try {
+            data = await this.app.vault.readBinary(file);
+        } catch (error) {
+            console.error(`Failed to read ${file.path} for its metadata:`, error);
+            return;
+        }
+        if (generation !== this.generation) return;
+        const info = readImageInfo(data);
+        if (info.width !== undefined && info.height !== undefined) setDimensions(info.width, info.height);
+        for (const [label, value] of info.fields) this.field(details, label, value);
+    }
+
+    private field(parent: HTMLElement, label: string, value: string): HTMLElement {
+        parent.createDiv({ cls: 'oiv-lightbox-label', text: label });
+        const valueEl = parent.createDiv({ cls: 'oiv-lightbox-value', text: value });
+        valueEl.setAttribute('title', value);
+        return valueEl;
+    }
+
+    private textButton(parent: HTMLElement, text: string, tooltip: string, onClick: () => void): HTMLButtonElement {
+        const btn = parent.createEl('button', { text });
+        btn.setAttribute('aria-label', tooltip);
+        btn.addEventListener('click', onClick);
+        return btn;
+    }
+
+    private iconButton(parent: HTMLElement, icon: string, tooltip: string, onClick: () => void): HTMLButtonElement {
+        const btn = parent.createEl('button', { cls: 'oiv-lightbox-nav' });
+        setIcon(btn, icon);
+        btn.setAttribute('aria-label', tooltip);
+        btn.addEventListener('click', onClick);
+        return btn;
+    }
+}
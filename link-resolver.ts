@@ -0,0 +1,77 @@
+// Link resolution over a plain list of vault paths, mimicking Obsidian's
+// metadataCache.getFirstLinkpathDest for reading vaults without Obsidian (see ./headless).
+// No Obsidian dependency.
+//
+// A link path is tried, in order: as a path from the vault root, relative to the linking
+// file's folder, and then by file name — the shortest-path form Obsidian writes by
+// default, where "pic.png" or "assets/pic.png" match any file whose path ends that way.
+// Among several name matches, one in the linking file's folder wins, then the shortest
+// path. Links without an extension also try ".md", and all matching ignores case.
+export class LinkResolver {
+    private byPath = new Map<string, string>(); // lowercased path -> path
+    private byName = new Map<string, string[]>(); // lowercased file name -> paths
+
+    constructor(paths: Iterable<string>) {
+        for (const path of paths) {
+            this.byPath.set(path.toLowerCase(), path);
+            const name = path.slice(path.lastIndexOf('/') + 1).toLowerCase();
+            const named = this.byName.get(name);
+            if (named) named.push(path);
+            else this.byName.set(name, [path]);
+        }
+    }
+
+    // The vault path `linkText` points at from `sourcePath`, or its raw path if none (like
+    // ReferenceScanner.resolveTarget). "#subpath" is dropped; "[[#Heading]]" is the source.
+    resolveTarget(linkText: string, sourcePath: string): string {
+        const path = linkText.replace(/#.*$/, '').trim();
+        if (path === '') return sourcePath;
+        return this.resolve(path, sourcePath) ?? path;
+    }
+
+    // The file `linkpath` (no subpath) points at from `sourcePath`, or null.
+    resolve(linkpath: string, sourcePath: string): string | null {
+        const path = linkpath.trim().replace(/^\/+/, '');
+        if (path === '') return null;
+        const variants = /\.[^/.]+$/.test(path) ? [path] : [`${path}.md`, path];
+        const folder = sourcePath.slice(0, sourcePath.lastIndexOf('/') + 1);
+
+        for (const variant of variants) {
+            for (const candidate of [normalizePath(variant), normalizePath(folder + variant)]) {
+                const found = candidate === null ? undefined : this.byPath.get(candidate.toLowerCase());
+                if (found) return found;
+            }
+        }
+
+        for (const variant of variants) {
+            const suffix = normalizePath(variant)?.toLowerCase();
+            if (!suffix) continue;
+            const name = suffix.slice(suffix.lastIndexOf('/') + 1);
+            const matches = (this.byName.get(name) ?? []).filter(candidate => {
+                const lower = candidate.toLowerCase();
+                return lower === suffix || lower.endsWith(`/${suffix}`);
+            });
+            if (matches.length === 0) continue;
+            const inFolder = (candidate: string) => candidate.slice(0, candidate.lastIndexOf('/') + 1) === folder;
+            matches.sort((a, b) =>
+                Number(inFolder(b)) - Number(inFolder(a)) || a.length - b.length || a.localeCompare(b));
+            return matches[0];
+        }
+        return null;
+    }
+}
+
+// Resolves "." and ".." segments; null if ".." climbs above the vault root.
+function normalizePath(path: string): string | null {
+    const segments: string[] = [];
+    for (const segment of path.split('/')) {
+        if (segment === '' || segment === '.') continue;
+        if (segment === '..') {
+            if (segments.length === 0) return null;
+            segments.pop();
+        } else {
+            segments.push(segment);
+        }
+    }
+    return segments.join('/');
+}
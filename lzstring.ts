@@ -0,0 +1,86 @@
+// Decompression for LZ-string's Base64 encoding, the format Excalidraw uses for
+// `compressed-json` drawing blocks. A port of the decoder from lz-string 1.4.4
+// (Pieroxy, MIT); only decompression is needed. Pure.
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/=';
+
+// Returns the original string, or null if `input` isn't valid LZ-string Base64.
+export function decompressFromBase64(input: string): string | null {
+    if (input === '') return null;
+    const values: number[] = [];
+    for (const char of input) {
+        const value = BASE64_ALPHABET.indexOf(char);
+        if (value === -1) return null;
+        values.push(value);
+    }
+    return decompress(values, 32);
+}
+
+// `values` are the encoded characters as numbers; each carries log2(resetValue) + 1 bits,
+// most significant first.
+function decompress(values: number[], resetValue: number): string | null {
+    const dictionary: string[] = [];
+    let enlargeIn = 4;
+    let dictSize = 4;
+    let numBits = 3;
+    const result: string[] = [];
+    let val = values[0] ?? 0;
+    let position = resetValue;
+    let index = 1;
+
+    const readBits = (count: number): number => {
+        let bits = 0;
+        for (let power = 1; power !== 1 << count; power <<= 1) {
+            const bit = val & position;
+            position >>= 1;
+            if (position === 0) {
+                position = resetValue;
+                val = values[index++] ?? 0;
+            }
+            if (bit > 0) bits |= power;
+        }
+        return bits;
+    };
+
+    let entry: string;
+    switch (readBits(2)) {
+        case 0: entry = String.fromCharCode(readBits(8)); break;
+        case 1: entry = String.fromCharCode(readBits(16)); break;
+        default: return '';
+    }
+    dictionary[3] = entry;
+    let w = entry;
+    result.push(entry);
+
+    for (;;) {
+        if (index > values.length) return '';
+
+        let code = readBits(numBits);
+        if (code === 0 || code === 1) {
+            dictionary[dictSize++] = String.fromCharCode(readBits(code === 0 ? 8 : 16));
+            code = dictSize - 1;
+            enlargeIn--;
+        } else if (code === 2) {
+            return result.join('');
+        }
+
+        if (enlargeIn === 0) {
+            enlargeIn = 1 << numBits;
+            numBits++;
+        }
+
+        if (dictionary[code] !== undefined) entry = dictionary[code];
+        else if (code === dictSize) entry = w + w.charAt(0);
+        else return null;
+        result.push(entry);
+
+        dictionary[dictSize++] = w + entry.charAt(0);
+        enlargeIn--;
+        w = entry;
+
+        if (enlargeIn === 0) {
+            enlargeIn = 1 << numBits;
+            numBits++;
+        }
+    }
+}
@@ -1,63 +1,281 @@
-import { Plugin, TFile, TFolder, Notice, WorkspaceLeaf, normalizePath } from 'obsidian';
-import { FindOrphanedImagesSettings, DEFAULT_SETTINGS } from './types';
+import { Plugin, TFile, TFolder, Notice, WorkspaceLeaf, ObsidianProtocolData, normalizePath } from 'obsidian';
+import { FindOrphanedImagesSettings, DEFAULT_SETTINGS, DisposalMode, QuarantineEntry, JournalFile, JournalRun, ScanSnapshot } from './types';
 import { ReferenceScanner } from './reference-scanner';
-import { ImageOptionsModal, ConfirmDeleteModal } from './modals';
+import { BUILT_IN_EXTRACTORS, ExtractorRegistry, ReferenceExtractor } from './extractors';
+import { customPatternExtractor } from './patterns';
+import { FindOrphanedImagesApi } from './api';
+import { Quarantine } from './quarantine';
+import { Restorer } from './restorer';
+import { Relinker } from './relinker';
+import { OrphanWatcher } from './orphan-watcher';
+import { ImageOptionsModal, ConfirmDeleteModal, QuarantineSuggestModal, CleanupHistoryModal } from './modals';
 import { FindOrphanedImagesSettingTab } from './settings';
 import { OrphanedImagesView, ORPHAN_VIEW_TYPE } from './view';
-import { buildReport } from './report';
-import { formatBytes, totalSize } from './utils';
+import { DuplicateImagesView, DUPLICATE_VIEW_TYPE } from './duplicates-view';
+import { ReferencesView, REFERENCES_VIEW_TYPE } from './references-view';
+import { BrokenReferencesView, BROKEN_VIEW_TYPE } from './broken-view';
+import { BROKEN_REPORT_NAME, REPORT_NAME, ReportHistory, buildReport, checkedReportItems, isReportNote, reportFileName } from './report';
+import { applyFilters, describeFilters, oldestFirst } from './filters';
+import { buildExport, ExportFormat } from './export';
+import { buildBrokenReport } from './broken';
+import type { Reference } from './reference-index';
+import { appendRun, newRunId, outcomeFor } from './journal';
+import { appendSnapshot, diffSnapshots, takeSnapshot, trendLine } from './history';
+import { addToKeepList, removeFromKeepList, renameInKeepList } from './keep';
+import { URI_ACTION, UriPanel, parseUriRequest } from './uri';
+import { ScanCancelledError, ScanProgressOptions } from './progress';
+import { formatBytes, totalSize, isOlderThanDays } from './utils';
+
+// The view each `panel=` value of an open-panel URI opens.
+const URI_PANELS: Record<UriPanel, string> = {
+    orphans: ORPHAN_VIEW_TYPE,
+    duplicates: DUPLICATE_VIEW_TYPE,
+    broken: BROKEN_VIEW_TYPE,
+};
 
 export default class FindOrphanedImagesPlugin extends Plugin {
     settings!: FindOrphanedImagesSettings;
     scanner!: ReferenceScanner;
+    extractors = new ExtractorRegistry();
+    api = new FindOrphanedImagesApi(this); // for other plugins (see ./api)
+    quarantine!: Quarantine;
+    restorer!: Restorer;
+    relinker!: Relinker;
+    orphanWatcher!: OrphanWatcher;
+    journal: JournalRun[] = []; // persisted alongside settings in data.json
+    history: ScanSnapshot[] = []; // one snapshot per orphan report, also in data.json
     ribbonIconEl: HTMLElement | null = null;
 
     async onload() {
         await this.loadSettings();
-        this.scanner = new ReferenceScanner(this.app, this.settings);
+        for (const extractor of BUILT_IN_EXTRACTORS) this.extractors.register(extractor);
+        this.extractors.register(customPatternExtractor(() => this.settings.customPatterns));
+        this.scanner = new ReferenceScanner(this.app, this.settings, this.extractors);
+        this.addChild(this.scanner); // keeps its reference index current while loaded
+        this.register(this.extractors.onChange(() => this.referenceSourcesChanged()));
+        this.quarantine = new Quarantine(this.app, this.settings);
+        this.restorer = new Restorer(this.app, this.quarantine);
+        this.relinker = new Relinker(this.app);
+        this.orphanWatcher = new OrphanWatcher(this);
+        this.register(this.scanner.onChange(orphaned => this.orphanWatcher.handleOrphaned(orphaned)));
+        this.register(() => this.orphanWatcher.cancel());
+        // Notifications need the index tracking edits from the start, not from the first scan.
+        this.app.workspace.onLayoutReady(() => {
+            if (this.settings.orphanNotifications) void this.scanner.ensureIndex();
+        });
 
         this.addSettingTab(new FindOrphanedImagesSettingTab(this.app, this));
 
         this.registerView(ORPHAN_VIEW_TYPE, leaf => new OrphanedImagesView(leaf, this));
+        this.registerView(DUPLICATE_VIEW_TYPE, leaf => new DuplicateImagesView(leaf, this));
+        this.registerView(REFERENCES_VIEW_TYPE, leaf => new ReferencesView(leaf, this));
+        this.registerView(BROKEN_VIEW_TYPE, leaf => new BrokenReferencesView(leaf, this));
+
+        this.registerObsidianProtocolHandler(URI_ACTION, params => void this.handleUri(params));
 
         this.addCommand({
             id: 'find-orphaned-images',
-            name: 'Find or delete orphaned images',
+            name: 'Find or delete orphaned attachments',
             callback: () => this.showOptionsModal(),
         });
 
+        this.addCommand({
+            id: 'process-report-note',
+            name: 'Process report note',
+            callback: () => this.processReportNote(),
+        });
+
+        this.addCommand({
+            id: 'export-orphaned-images-json',
+            name: 'Export orphaned attachments as JSON',
+            callback: () => this.exportOrphanedImages('json'),
+        });
+
+        this.addCommand({
+            id: 'export-orphaned-images-csv',
+            name: 'Export orphaned attachments as CSV',
+            callback: () => this.exportOrphanedImages('csv'),
+        });
+
         this.addCommand({
             id: 'open-orphaned-images-panel',
-            name: 'Open orphaned images panel',
+            name: 'Open orphaned attachments panel',
             callback: () => this.activateView(),
         });
 
+        // Selection commands for the review panel, available while it is the active view.
+        this.addCommand({
+            id: 'select-orphans-in-folder',
+            name: 'Select all orphans in the focused file\'s folder',
+            checkCallback: (checking) => {
+                const view = this.app.workspace.getActiveViewOfType(OrphanedImagesView);
+                if (!view?.focusedFile()) return false;
+                if (!checking) view.selectFocusedFolder();
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: 'invert-orphan-selection',
+            name: 'Invert selection in the orphaned attachments panel',
+            checkCallback: (checking) => {
+                const view = this.app.workspace.getActiveViewOfType(OrphanedImagesView);
+                if (!view) return false;
+                if (!checking) view.invertSelection();
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: 'open-duplicate-images-panel',
+            name: 'Open duplicate attachments panel',
+            callback: () => this.activateView(DUPLICATE_VIEW_TYPE),
+        });
+
+        this.addCommand({
+            id: 'open-broken-references-panel',
+            name: 'Open broken attachment references panel',
+            callback: () => this.activateView(BROKEN_VIEW_TYPE),
+        });
+
+        this.addCommand({
+            id: 'create-broken-references-report',
+            name: 'Create broken attachment references report',
+            callback: () => this.createBrokenReferencesNote(),
+        });
+
+        this.addCommand({
+            id: 'show-references',
+            name: 'Show references to current file',
+            checkCallback: (checking) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension === 'md') return false;
+                if (!checking) this.showReferences(file);
+                return true;
+            },
+        });
+
+        this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+            if (!(file instanceof TFile) || file.extension === 'md') return;
+            menu.addItem(item => item
+                .setTitle('Show references')
+                .setIcon('links-coming-in')
+                .onClick(() => this.showReferences(file)));
+            const kept = this.settings.keptFiles.includes(file.path);
+            menu.addItem(item => item
+                .setTitle(kept ? 'Stop keeping as unlinked' : 'Keep as intentionally unlinked')
+                .setIcon(kept ? 'pin-off' : 'pin')
+                .onClick(() => kept ? this.unkeepFiles([file.path]) : this.keepFiles([file.path])));
+        }));
+
+        // Kept files stay kept when they (or their folders) move.
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            const keptFiles = renameInKeepList(this.settings.keptFiles, oldPath, file.path);
+            if (keptFiles === this.settings.keptFiles) return;
+            this.settings.keptFiles = keptFiles;
+            void this.saveSettings();
+        }));
+
+        this.addCommand({
+            id: 'restore-quarantined-image',
+            name: 'Restore a quarantined file',
+            callback: () => this.showQuarantineRestoreModal(),
+        });
+
+        this.addCommand({
+            id: 'restore-all-quarantined-images',
+            name: 'Restore all quarantined files',
+            callback: () => this.restoreAllQuarantined(),
+        });
+
+        this.addCommand({
+            id: 'purge-quarantine',
+            name: 'Purge old quarantined files',
+            callback: () => this.purgeQuarantine(),
+        });
+
+        this.addCommand({
+            id: 'undo-last-cleanup',
+            name: 'Undo last cleanup',
+            callback: () => this.undoLastCleanup(),
+        });
+
+        this.addCommand({
+            id: 'show-cleanup-history',
+            name: 'Show cleanup history',
+            callback: () => new CleanupHistoryModal(this.app, this).open(),
+        });
+
         if (this.settings.showRibbonIcon) {
             this.addIconToRibbon();
         }
     }
 
     addIconToRibbon() {
-        this.ribbonIconEl = this.addRibbonIcon('image', 'Find orphaned images', () => {
+        this.ribbonIconEl = this.addRibbonIcon('paperclip', 'Find orphaned attachments', () => {
             this.activateView();
         });
     }
 
+    // Lets another plugin teach the scanner its own reference format (also on `api`). Returns
+    // a function that unregisters the extractor; call it from that plugin's onunload.
+    registerReferenceExtractor(extractor: ReferenceExtractor): () => void {
+        return this.extractors.register(extractor);
+    }
+
+    // Carries out an obsidian://find-orphaned-images request (see ./uri). Folder parameters
+    // replace the include/exclude folders for that run only; cleanup always goes through
+    // the confirmation modal.
+    async handleUri(params: ObsidianProtocolData) {
+        try {
+            const request = parseUriRequest(params);
+            switch (request.action) {
+                case 'open-panel':
+                    await this.activateView(URI_PANELS[request.panel]);
+                    break;
+                case 'report':
+                    await this.findUnlinkedImages(request.embed, await this.scanner.getOrphanedImages(request.scope), {
+                        scoped: Object.keys(request.scope).length > 0,
+                    });
+                    break;
+                case 'cleanup':
+                    await this.deleteOrphanedImages(await this.scanner.getOrphanedImages(request.scope));
+                    break;
+            }
+        } catch (error) {
+            console.error('Failed to handle obsidian:// request:', error);
+            new Notice(`Find orphaned images: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // An extractor was added, removed, or switched on or off: everything must be re-read.
+    referenceSourcesChanged() {
+        this.scanner.invalidate();
+        if (this.settings.orphanNotifications) void this.scanner.ensureIndex();
+        this.refreshOrphanViews();
+    }
+
     showOptionsModal() {
         new ImageOptionsModal(this.app, this).open();
     }
 
-    // Opens or reveals the review panel in the right sidebar.
-    async activateView() {
+    // Opens or reveals a panel (the orphan review panel by default) in the right sidebar.
+    async activateView(type = ORPHAN_VIEW_TYPE): Promise<WorkspaceLeaf | null> {
         const { workspace } = this.app;
-        const existing = workspace.getLeavesOfType(ORPHAN_VIEW_TYPE);
+        const existing = workspace.getLeavesOfType(type);
         let leaf: WorkspaceLeaf | null = existing[0] ?? null;
 
         if (!leaf) {
             leaf = workspace.getRightLeaf(false);
-            await leaf?.setViewState({ type: ORPHAN_VIEW_TYPE, active: true });
+            await leaf?.setViewState({ type, active: true });
         }
         if (leaf) workspace.revealLeaf(leaf);
+        return leaf;
+    }
+
+    async showReferences(file: TFile) {
+        const leaf = await this.activateView(REFERENCES_VIEW_TYPE);
+        if (leaf?.view instanceof ReferencesView) await leaf.view.setFile(file);
     }
 
     // Re-scans any open review panels after the vault changes.
@@ -68,28 +286,75 @@ export default class FindOrphanedImagesPlugin extends Plugin {
         }
     }
 
-    getOrphanedImages(): Promise<TFile[]> {
-        return this.scanner.getOrphanedImages();
+    refreshDuplicateViews() {
+        for (const leaf of this.app.workspace.getLeavesOfType(DUPLICATE_VIEW_TYPE)) {
+            const view = leaf.view;
+            if (view instanceof DuplicateImagesView) void view.refresh();
+        }
+    }
+
+    getOrphanedImages(options: ScanProgressOptions = {}): Promise<TFile[]> {
+        return this.scanner.getOrphanedImages({}, options);
+    }
+
+    // Adds files to the keep list: they are never reported or offered for deletion again.
+    async keepFiles(paths: string[]) {
+        this.settings.keptFiles = addToKeepList(this.settings.keptFiles, paths);
+        await this.saveSettings();
+        new Notice(paths.length === 1
+            ? `Keeping "${paths[0]}"; it won't be reported as orphaned.`
+            : `Keeping ${paths.length} files; they won't be reported as orphaned.`);
+        this.refreshOrphanViews();
+    }
+
+    async unkeepFiles(paths: string[]) {
+        this.settings.keptFiles = removeFromKeepList(this.settings.keptFiles, paths);
+        await this.saveSettings();
+        this.refreshOrphanViews();
+    }
+
+    // The orphans that pass the age and size filters: what reports and bulk delete act on.
+    filterCandidates(orphans: TFile[]): TFile[] {
+        return applyFilters(orphans, this.settings.candidateFilters, Date.now());
     }
 
     // `orphans` lets a caller that already scanned (e.g. the modal) skip a second pass.
-    async findUnlinkedImages(embedImages: boolean, orphans?: TFile[]) {
-        const orphanedImages = orphans ?? await this.getOrphanedImages();
+    // `scoped` marks orphans from a scan with scope overrides, which the history leaves out.
+    async findUnlinkedImages(embedImages: boolean, orphans?: TFile[], { scoped = false } = {}) {
+        const allOrphans = orphans ?? await this.getOrphanedImages();
+        const orphanedImages = this.filterCandidates(allOrphans);
 
         if (orphanedImages.length > 0) {
-            await this.createOrUpdateUnlinkedImagesNote(orphanedImages, embedImages);
+            await this.createOrUpdateUnlinkedImagesNote(orphanedImages, embedImages, scoped ? null : allOrphans);
             const size = formatBytes(totalSize(orphanedImages));
-            new Notice(`Found ${orphanedImages.length} orphaned image${orphanedImages.length === 1 ? '' : 's'} (${size}). Report created or updated.`);
+            new Notice(`Found ${orphanedImages.length} orphaned attachment${orphanedImages.length === 1 ? '' : 's'} (${size}). Report created or updated.`);
+        } else if (allOrphans.length > 0) {
+            new Notice(`None of the ${allOrphans.length} orphaned attachments match the filters.`);
         } else {
-            new Notice("All images are linked!");
+            new Notice("All attachments are linked!");
         }
     }
 
-    async deleteOrphanedImages(orphans?: TFile[]) {
-        const orphanedImages = orphans ?? await this.getOrphanedImages();
+    // `options` report the progress of (and can cancel) the scans before the confirmation.
+    async deleteOrphanedImages(orphans?: TFile[], options: ScanProgressOptions = {}) {
+        try {
+            await this.confirmDeletion(orphans, options);
+        } catch (error) {
+            if (!(error instanceof ScanCancelledError)) throw error;
+            new Notice("Scan cancelled; nothing was deleted.");
+        }
+    }
+
+    private async confirmDeletion(orphans: TFile[] | undefined, options: ScanProgressOptions) {
+        const allOrphans = orphans ?? await this.getOrphanedImages(options);
+        // Oldest first, so a max delete count keeps the newest files rather than cutting the
+        // list at an arbitrary point.
+        const orphanedImages = oldestFirst(this.filterCandidates(allOrphans), this.settings.candidateFilters.ageField);
 
         if (orphanedImages.length === 0) {
-            new Notice("No orphaned images found to delete.");
+            new Notice(allOrphans.length > 0
+                ? `None of the ${allOrphans.length} orphaned attachments match the filters; nothing was deleted.`
+                : "No orphaned attachments found to delete.");
             return;
         }
 
@@ -98,17 +363,17 @@ export default class FindOrphanedImagesPlugin extends Plugin {
         let filesToDelete = limit >= 0 ? orphanedImages.slice(0, limit) : orphanedImages;
 
         if (filesToDelete.length === 0) {
-            new Notice("Max delete count is set to 0, so no images were deleted.");
+            new Notice("Max delete count is set to 0, so no files were deleted.");
             return;
         }
 
         // Backstop for references we can't parse (see ReferenceScanner.filterBySafetyScan).
         if (this.settings.safetyTextScan) {
             const before = filesToDelete.length;
-            filesToDelete = await this.scanner.filterBySafetyScan(filesToDelete);
+            filesToDelete = await this.scanner.filterBySafetyScan(filesToDelete, options);
             const skipped = before - filesToDelete.length;
             if (skipped > 0) {
-                new Notice(`Safety scan kept ${skipped} image${skipped === 1 ? '' : 's'} whose name still appears in a note or canvas.`);
+                new Notice(`Safety scan kept ${skipped} file${skipped === 1 ? '' : 's'} whose name still appears in a note or canvas.`);
             }
             if (filesToDelete.length === 0) {
                 new Notice("Safety scan found a possible reference to every candidate; nothing was deleted.");
@@ -120,77 +385,370 @@ export default class FindOrphanedImagesPlugin extends Plugin {
             this.app,
             filesToDelete.map(f => f.path),
             formatBytes(totalSize(filesToDelete)),
-            this.settings.moveToTrash,
+            this.settings.disposalMode,
             () => this.performDeletion(filesToDelete),
         ).open();
     }
 
-    async performDeletion(files: TFile[]) {
+    async performDeletion(files: TFile[], mode = this.settings.disposalMode) {
+        this.api.trigger('before-cleanup', { mode, files: files.map(file => file.path) });
+        const run: JournalRun = { id: newRunId(Date.now()), timestamp: Date.now(), mode, files: [] };
         let successCount = 0;
         let freedBytes = 0;
 
         for (const file of files) {
+            // Read before the file is gone.
+            const record: JournalFile = { path: file.path, size: file.stat.size, outcome: outcomeFor(mode) };
+            run.files.push(record);
             try {
-                const size = file.stat.size; // read before the file is gone
-                if (this.settings.moveToTrash) {
-                    // Respects the user's "Deleted files" preference.
-                    await this.app.fileManager.trashFile(file);
-                } else {
-                    await this.app.vault.delete(file);
-                }
+                const quarantinePath = await this.disposeFile(file, mode);
+                if (quarantinePath) record.quarantinePath = quarantinePath;
                 successCount++;
-                freedBytes += size;
+                freedBytes += record.size;
+            } catch (error) {
+                console.error(`Failed to delete orphaned attachment: ${file.path}`, error);
+                record.outcome = 'failed';
+                record.error = error instanceof Error ? error.message : String(error);
+            }
+        }
+
+        if (mode === 'quarantine') {
+            try {
+                await this.quarantine.flush();
             } catch (error) {
-                console.error(`Failed to delete orphaned image: ${file.path}`, error);
+                console.error('Failed to write the quarantine manifest:', error);
+                new Notice(`Failed to update the quarantine manifest in "${this.quarantine.folder}". Restore commands may not find these files.`);
             }
         }
 
+        this.journal = appendRun(this.journal, run);
+        await this.saveSettings();
+        this.api.trigger('cleanup', run);
+
         if (successCount > 0) {
-            const action = this.settings.moveToTrash ? 'Moved to trash' : 'Deleted';
-            new Notice(`${action} ${successCount} orphaned image${successCount === 1 ? '' : 's'} (${formatBytes(freedBytes)} freed).`);
+            const plural = successCount === 1 ? '' : 's';
+            const size = formatBytes(freedBytes);
+            new Notice(mode === 'quarantine'
+                ? `Moved ${successCount} orphaned attachment${plural} (${size}) to "${this.quarantine.folder}".`
+                : `${mode === 'trash' ? 'Moved to trash' : 'Deleted'} ${successCount} orphaned attachment${plural} (${size} freed).`);
         }
         if (successCount < files.length) {
-            new Notice(`Failed to delete ${files.length - successCount} image(s). See console for details.`);
+            new Notice(`Failed to delete ${files.length - successCount} file(s). See console for details.`);
         }
 
         this.refreshOrphanViews();
     }
 
-    async createOrUpdateUnlinkedImagesNote(images: TFile[], embedImages: boolean) {
-        const { vault } = this.app;
-        const noteContent = buildReport(images, embedImages);
+    // Points every reference to `extras` at `keeper`, then disposes of `extras` through the
+    // usual deletion path. Nothing is removed if any referencing file failed to update.
+    mergeDuplicates(keeper: TFile, extras: TFile[]) {
+        if (extras.length === 0) return;
 
-        const noteName = "Orphaned Images Report.md";
-        const folder = this.settings.reportFolder.trim().replace(/^\/+|\/+$/g, '');
-        const notePath = normalizePath(folder ? `${folder}/${noteName}` : noteName);
+        new ConfirmDeleteModal(
+            this.app,
+            extras.map(f => f.path),
+            formatBytes(totalSize(extras)),
+            this.settings.disposalMode,
+            async () => {
+                const { changed, failed } = await this.relinker.relink(extras, keeper);
+                if (failed.length > 0) {
+                    new Notice(`Could not update links in ${failed.length} file(s), so no duplicates were removed. See console for details.`);
+                    this.refreshDuplicateViews();
+                    return;
+                }
+                if (changed > 0) {
+                    new Notice(`Updated links in ${changed} file${changed === 1 ? '' : 's'} to point at ${keeper.path}.`);
+                }
+                await this.performDeletion(extras);
+                this.refreshDuplicateViews();
+            },
+            {
+                label: 'duplicate file',
+                note: `Links to these copies will first be rewritten to point at ${keeper.path}.`,
+            },
+        ).open();
+    }
 
+    // Rewrites a broken reference to point at `replacement` (see Relinker.fixReference).
+    async fixBrokenReference(ref: Reference, replacement: TFile) {
         try {
-            if (folder && !(vault.getAbstractFileByPath(folder) instanceof TFolder)) {
-                await vault.createFolder(folder);
-            }
+            const changed = await this.relinker.fixReference(ref, replacement);
+            new Notice(changed
+                ? `Updated ${ref.source} to point at ${replacement.path}.`
+                : `Nothing to update in ${ref.source}; the link may already have been fixed.`);
+        } catch (error) {
+            console.error(`Failed to fix the reference in ${ref.source}:`, error);
+            new Notice(`Could not update ${ref.source}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    // Returns the quarantine path when `mode` is 'quarantine', otherwise null.
+    private async disposeFile(file: TFile, mode: DisposalMode): Promise<string | null> {
+        if (mode === 'trash') {
+            // Respects the user's "Deleted files" preference.
+            await this.app.fileManager.trashFile(file);
+        } else if (mode === 'quarantine') {
+            return (await this.quarantine.move(file)).quarantinePath;
+        } else {
+            await this.app.vault.delete(file);
+        }
+        return null;
+    }
 
-            const existingFile = vault.getAbstractFileByPath(notePath);
+    async undoLastCleanup() {
+        const run = this.journal[this.journal.length - 1];
+        if (!run) {
+            new Notice("No cleanups have been recorded yet.");
+            return;
+        }
+        await this.restoreRun(run);
+    }
 
-            if (existingFile instanceof TFile) {
-                await vault.modify(existingFile, noteContent);
-            } else {
-                await vault.create(notePath, noteContent);
-            }
+    // Restores what it can from a journaled run and says which files it couldn't, and why.
+    async restoreRun(run: JournalRun) {
+        const { restored, skipped } = await this.restorer.restore(run);
+        await this.saveSettings();
 
-            new Notice(`Note "${noteName}" created or updated with orphaned images.`);
+        const attempted = skipped.filter(status => status.file.outcome !== 'restored' && status.file.outcome !== 'failed');
+        if (restored.length > 0) {
+            new Notice(`Restored ${restored.length} file${restored.length === 1 ? '' : 's'} from the cleanup of ${new Date(run.timestamp).toLocaleString()}.`);
+        }
+        if (attempted.length > 0) {
+            const preview = attempted.slice(0, 3).map(status => `${status.file.path}: ${status.reason}`).join('\n');
+            const more = attempted.length > 3 ? `\n…and ${attempted.length - 3} more (see "Show cleanup history").` : '';
+            new Notice(`${attempted.length} file${attempted.length === 1 ? '' : 's'} could not be restored:\n${preview}${more}`, 10000);
+        } else if (restored.length === 0) {
+            new Notice("Nothing to restore from that cleanup.");
+        }
+
+        this.refreshOrphanViews();
+    }
+
+    async showQuarantineRestoreModal() {
+        const entries = await this.quarantine.list();
+        if (entries.length === 0) {
+            new Notice("The quarantine is empty.");
+            return;
+        }
+        new QuarantineSuggestModal(this.app, entries, entry => this.restoreQuarantined(entry)).open();
+    }
+
+    async restoreQuarantined(entry: QuarantineEntry) {
+        try {
+            await this.quarantine.restore(entry);
+            new Notice(`Restored ${entry.originalPath}.`);
+        } catch (error) {
+            console.error(`Failed to restore quarantined file: ${entry.originalPath}`, error);
+            new Notice(`Could not restore ${entry.originalPath}: ${error instanceof Error ? error.message : error}`);
+        }
+        this.refreshOrphanViews();
+    }
+
+    async restoreAllQuarantined() {
+        const { restored, failed } = await this.quarantine.restoreAll();
+        if (restored === 0 && failed === 0) {
+            new Notice("The quarantine is empty.");
+            return;
+        }
+        if (restored > 0) {
+            new Notice(`Restored ${restored} quarantined file${restored === 1 ? '' : 's'} to their original folders.`);
+        }
+        if (failed > 0) {
+            new Notice(`Failed to restore ${failed} file(s). See console for details.`);
+        }
+        this.refreshOrphanViews();
+    }
+
+    // Permanently deletes quarantined files older than `quarantinePurgeDays`, after confirmation.
+    async purgeQuarantine() {
+        const days = this.settings.quarantinePurgeDays;
+        const now = Date.now();
+        const expired = (await this.quarantine.list())
+            .filter(entry => isOlderThanDays(entry.quarantinedAt, days, now));
+
+        if (expired.length === 0) {
+            new Notice(`No quarantined files are older than ${days} day${days === 1 ? '' : 's'}.`);
+            return;
+        }
+
+        new ConfirmDeleteModal(
+            this.app,
+            expired.map(entry => entry.quarantinePath),
+            formatBytes(expired.reduce((sum, entry) => sum + entry.size, 0)),
+            'delete',
+            async () => {
+                const { purged, failed, freedBytes } = await this.quarantine.purgeEntries(expired);
+                if (purged > 0) {
+                    new Notice(`Purged ${purged} quarantined file${purged === 1 ? '' : 's'} (${formatBytes(freedBytes)} freed).`);
+                }
+                if (failed > 0) {
+                    new Notice(`Failed to purge ${failed} file(s). See console for details.`);
+                }
+            },
+        ).open();
+    }
+
+    // Writes the orphan report of `images` (the orphans that pass the cleanup filters). The
+    // history records `allOrphans`, before any filter, so reports compare like for like
+    // whatever the filters were; without it (a scoped scan) the report has no history
+    // sections and the scan isn't recorded.
+    async createOrUpdateUnlinkedImagesNote(images: TFile[], embedImages: boolean, allOrphans: TFile[] | null) {
+        const timestamp = Date.now();
+        const snapshot = allOrphans && takeSnapshot(allOrphans, timestamp);
+        const previous = this.history[this.history.length - 1];
+        const history: ReportHistory | null = snapshot && previous?.files ? {
+            since: previous.timestamp,
+            diff: diffSnapshots(previous, snapshot),
+            trend: trendLine([...this.history, snapshot]),
+        } : null;
+        const noteContent = buildReport(images, embedImages, this.settings.categories, describeFilters(this.settings.candidateFilters), history);
+        const noteName = reportFileName(this.settings.datedReports, timestamp);
+
+        try {
+            const notePath = await this.writeReportFile(noteName, noteContent);
+            if (snapshot) {
+                this.history = appendSnapshot(this.history, snapshot);
+                await this.saveSettings();
+            }
+            new Notice(`Note "${noteName}" created or updated with orphaned attachments.`);
             this.app.workspace.openLinkText(notePath, '', true);
         } catch (error) {
             console.error("Failed to create or update note:", error);
-            new Notice("Failed to create or update note with orphaned images.");
+            new Notice("Failed to create or update note with orphaned attachments.");
+        }
+    }
+
+    // Deletes the items checked in a report note (the active one, or else the newest report),
+    // through the usual filters, safety scan and confirmation. Checked files that are no
+    // longer orphaned, kept, or gone are skipped; a notice counts those and any the filters
+    // or max delete count leave out.
+    async processReportNote() {
+        const active = this.app.workspace.getActiveFile();
+        const report = active && isReportNote(active.path, this.settings.reportFolder)
+            ? active
+            : this.app.vault.getMarkdownFiles()
+                .filter(file => isReportNote(file.path, this.settings.reportFolder))
+                .sort((a, b) => b.stat.mtime - a.stat.mtime)[0];
+        if (!report) {
+            new Notice("No orphaned attachments report found. Create one first.");
+            return;
+        }
+
+        const checked = checkedReportItems(await this.app.vault.cachedRead(report));
+        if (checked.length === 0) {
+            new Notice(`No items are checked in "${report.basename}".`);
+            return;
+        }
+
+        let orphans: Set<TFile>;
+        try {
+            orphans = new Set(await this.getOrphanedImages());
+        } catch (error) {
+            console.error("Failed to scan for orphaned attachments:", error);
+            new Notice("Failed to scan for orphaned attachments; nothing was deleted.");
+            return;
+        }
+        const files: TFile[] = [];
+        for (const path of checked) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile && orphans.has(file)) files.push(file);
+        }
+        const skipped = checked.length - files.length;
+        if (skipped > 0) {
+            new Notice(`Skipped ${skipped} checked item${skipped === 1 ? '' : 's'} that ${skipped === 1 ? 'is' : 'are'} no longer orphaned or no longer in the vault.`);
+        }
+
+        // deleteOrphanedImages applies the cleanup filters and max delete count again; say
+        // which checked items that leaves out rather than drop them silently.
+        const unmatched = files.length - this.filterCandidates(files).length;
+        const limit = this.settings.maxDeleteCount;
+        const overLimit = limit >= 0 ? Math.max(0, files.length - unmatched - limit) : 0;
+        const excluded = [
+            unmatched > 0 ? `${unmatched} ${unmatched === 1 ? "doesn't" : "don't"} match the cleanup filters` : '',
+            overLimit > 0 ? `${overLimit} ${overLimit === 1 ? 'is' : 'are'} over the max delete count` : '',
+        ].filter(Boolean);
+        if (excluded.length > 0) {
+            new Notice(`Of the checked items, ${excluded.join(' and ')}; ${unmatched + overLimit === 1 ? 'it' : 'they'} will not be deleted.`);
+        }
+        if (files.length > 0) await this.deleteOrphanedImages(files);
+    }
+
+    async createBrokenReferencesNote() {
+        const noteName = `${BROKEN_REPORT_NAME}.md`;
+        try {
+            const broken = await this.scanner.findBrokenReferences();
+            const notePath = await this.writeReportFile(noteName, buildBrokenReport(broken));
+            new Notice(broken.length === 0
+                ? "No broken attachment references found."
+                : `Found ${broken.length} broken attachment reference${broken.length === 1 ? '' : 's'}. Report created or updated.`);
+            this.app.workspace.openLinkText(notePath, '', true);
+        } catch (error) {
+            console.error("Failed to create the broken references report:", error);
+            new Notice("Failed to create or update the broken references report.");
+        }
+    }
+
+    // Writes a JSON or CSV export of the orphans next to the report note: those of `scan`,
+    // stamped with when it ran, or else of a fresh scan.
+    async exportOrphanedImages(format: ExportFormat, scan?: { orphans: TFile[]; scannedAt: number }) {
+        const fileName = `${REPORT_NAME}.${format}`;
+        try {
+            const { orphans, scannedAt } = scan ?? { orphans: await this.getOrphanedImages(), scannedAt: Date.now() };
+            const content = buildExport(format, orphans, { scannedAt, pluginVersion: this.manifest.version, settings: this.settings });
+            const path = await this.writeReportFile(fileName, content);
+            new Notice(`Exported ${orphans.length} orphaned attachment${orphans.length === 1 ? '' : 's'} to "${path}".`);
+        } catch (error) {
+            console.error(`Failed to export ${fileName}:`, error);
+            new Notice(`Failed to export orphaned attachments as ${format.toUpperCase()}.`);
+        }
+    }
+
+    // Creates or overwrites `fileName` in the report folder (creating the folder if needed).
+    // Returns its vault path.
+    private async writeReportFile(fileName: string, content: string): Promise<string> {
+        const { vault } = this.app;
+        const folder = this.settings.reportFolder.trim().replace(/^\/+|\/+$/g, '');
+        const path = normalizePath(folder ? `${folder}/${fileName}` : fileName);
+
+        if (folder && !(vault.getAbstractFileByPath(folder) instanceof TFolder)) {
+            await vault.createFolder(folder);
         }
+
+        const existingFile = vault.getAbstractFileByPath(path);
+        if (existingFile instanceof TFile) {
+            await vault.modify(existingFile, content);
+        } else {
+            await vault.create(path, content);
+        }
+        return path;
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const { moveToTrash, imageExtensions, journal, history, ...data } = (await this.loadData()) ?? {};
+        this.journal = Array.isArray(journal) ? journal : [];
+        this.history = Array.isArray(history) ? history : [];
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+        // Copy so edits in the settings tab never mutate DEFAULT_CATEGORIES.
+        this.settings.categories = this.settings.categories.map(category => ({ ...category }));
+        this.settings.disabledExtractors = [...this.settings.disabledExtractors];
+        this.settings.keptFiles = [...this.settings.keptFiles];
+        this.settings.customPatterns = this.settings.customPatterns.map(pattern => ({ ...pattern }));
+        this.settings.candidateFilters = { ...DEFAULT_SETTINGS.candidateFilters, ...this.settings.candidateFilters };
+
+        // Pre-category versions stored a single imageExtensions list.
+        if (typeof imageExtensions === 'string' && data.categories === undefined) {
+            const images = this.settings.categories.find(category => category.id === 'images');
+            if (images) images.extensions = imageExtensions;
+        }
+
+        // Pre-quarantine versions stored a moveToTrash boolean instead of disposalMode.
+        if (typeof moveToTrash === 'boolean' && data.disposalMode === undefined) {
+            this.settings.disposalMode = moveToTrash ? 'trash' : 'delete';
+        }
     }
 
     async saveSettings() {
-        await this.saveData(this.settings);
+        await this.saveData({ ...this.settings, journal: this.journal, history: this.history });
     }
     // No onunload needed: addRibbonIcon() auto-registers its element for removal.
 }
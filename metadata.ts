@@ -0,0 +1,45 @@
+import type { CachedMetadata, EmbedCache, FrontMatterCache, FrontmatterLinkCache, LinkCache } from 'obsidian';
+import { locateLinks } from './parsing';
+
+// A minimal stand-in for Obsidian's metadata cache entry of a note, for reading vaults
+// without Obsidian (see ./headless). It fills what the built-in extractors read: body
+// links and embeds with their lines, wikilinks in frontmatter with their property, and
+// top-level frontmatter scalars. Pure.
+export function parseMetadata(content: string): CachedMetadata {
+    const lines = content.split(/\r?\n/);
+    const frontmatter: Record<string, string> = {};
+    const frontmatterLinks: FrontmatterLinkCache[] = [];
+    let bodyStart = 0;
+
+    if (lines[0]?.trim() === '---') {
+        const end = lines.findIndex((line, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(line));
+        if (end > 0) {
+            let key = '';
+            for (let i = 1; i < end; i++) {
+                const entry = /^([^\s#:-][^:]*):(.*)$/.exec(lines[i]);
+                if (entry) {
+                    key = entry[1].trim();
+                    frontmatter[key] = entry[2].trim().replace(/^(["'])(.*)\1$/, '$2');
+                }
+                for (const match of lines[i].matchAll(/\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g)) {
+                    frontmatterLinks.push({ key, link: match[1].trim(), original: match[0], displayText: match[2] });
+                }
+            }
+            bodyStart = end + 1;
+        }
+    }
+
+    const links: LinkCache[] = [];
+    const embeds: EmbedCache[] = [];
+    for (const { link, line, embed } of locateLinks(lines.slice(bodyStart).join('\n'), bodyStart)) {
+        const position = { start: { line, col: 0, offset: 0 }, end: { line, col: 0, offset: 0 } };
+        (embed ? embeds : links).push({ link, original: link, position });
+    }
+
+    return {
+        links,
+        embeds,
+        frontmatterLinks,
+        frontmatter: bodyStart > 0 ? frontmatter as FrontMatterCache : undefined,
+    };
+}
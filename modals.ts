@@ -1,10 +1,17 @@
-import { App, Modal, Setting, TFile } from 'obsidian';
+import { App, FuzzySuggestModal, Modal, Setting, TFile } from 'obsidian';
 import type FindOrphanedImagesPlugin from './main';
+import type { DisposalMode, JournalRun, QuarantineEntry } from './types';
 import { formatBytes, totalSize } from './utils';
+import { describeRun, summarizeRun } from './journal';
+import { describeFilters } from './filters';
+import { ScanCancelledError } from './progress';
+import { ScanProgressBar } from './progress-bar';
 
 export class ImageOptionsModal extends Modal {
     plugin: FindOrphanedImagesPlugin;
     private orphans: TFile[] = [];
+    private scannedAt = 0; // when `orphans` was computed
+    private progress: ScanProgressBar | null = null;
 
     constructor(app: App, plugin: FindOrphanedImagesPlugin) {
         super(app);
@@ -13,21 +20,28 @@ export class ImageOptionsModal extends Modal {
 
     async onOpen() {
         const { contentEl } = this;
-        this.setTitle('Find orphaned images');
+        this.setTitle('Find orphaned attachments');
 
-        // Scan up front so the choice is informed and the buttons reuse this result.
-        const status = contentEl.createEl('p', { text: 'Scanning vault…' });
+        // Scan up front so the choice is informed and the buttons reuse this result. Cancel,
+        // or closing the modal, stops the scan.
+        const status = contentEl.createDiv();
+        this.progress = new ScanProgressBar(status, 'Scanning vault…', () => this.close());
         try {
-            this.orphans = await this.plugin.getOrphanedImages();
+            this.orphans = await this.plugin.getOrphanedImages(this.progress.options());
+            this.scannedAt = Date.now();
         } catch (error) {
-            console.error('Failed to scan for orphaned images:', error);
-            status.setText('Scan failed — see the developer console for details.');
+            if (error instanceof ScanCancelledError) return;
+            console.error('Failed to scan for orphaned attachments:', error);
+            status.empty();
+            status.createEl('p', { text: 'Scan failed — see the developer console for details.' });
             return;
+        } finally {
+            this.progress = null;
         }
         status.remove();
 
         if (this.orphans.length === 0) {
-            contentEl.createEl('p', { text: 'All images are linked — nothing to clean up.' });
+            contentEl.createEl('p', { text: 'All attachments are linked — nothing to clean up.' });
             new Setting(contentEl).addButton(button => button
                 .setButtonText('Close')
                 .setCta()
@@ -37,11 +51,19 @@ export class ImageOptionsModal extends Modal {
 
         const count = this.orphans.length;
         const size = formatBytes(totalSize(this.orphans));
-        this.setTitle(`Found ${count} orphaned image${count === 1 ? '' : 's'} (${size})`);
+        this.setTitle(`Found ${count} orphaned attachment${count === 1 ? '' : 's'} (${size})`);
+
+        const filters = describeFilters(this.plugin.settings.candidateFilters);
+        if (filters.length > 0) {
+            const candidates = this.plugin.filterCandidates(this.orphans);
+            contentEl.createEl('p', {
+                text: `${candidates.length} of them (${formatBytes(totalSize(candidates))}) are ${filters.join(', ')}. Reports and deletion include only those.`,
+            });
+        }
 
         new Setting(contentEl)
-            .setName('Embed images')
-            .setDesc('Create a report with embedded images. This will display the images in the note.')
+            .setName('Embedded files')
+            .setDesc('Create a report that embeds each file, so images, PDFs and media display in the note.')
             .addButton(button => button
                 .setButtonText('Create')
                 .setCta()
@@ -52,7 +74,7 @@ export class ImageOptionsModal extends Modal {
 
         new Setting(contentEl)
             .setName('Text links')
-            .setDesc('Create a report with text links to the images. This will not display the images in the note.')
+            .setDesc('Create a report with text links to the files. This will not display them in the note.')
             .addButton(button => button
                 .setButtonText('Create')
                 .onClick(() => {
@@ -61,8 +83,24 @@ export class ImageOptionsModal extends Modal {
                 }));
 
         new Setting(contentEl)
-            .setName('Delete orphaned images')
-            .setDesc('Delete the orphaned images found in the vault, up to the max delete count set in the plugin settings.')
+            .setName('Export')
+            .setDesc('Save the list with size, dates and folder for each file, plus the scan settings and totals, for spreadsheets and scripts. Written next to the report note.')
+            .addButton(button => button
+                .setButtonText('JSON')
+                .onClick(() => {
+                    this.plugin.exportOrphanedImages('json', { orphans: this.orphans, scannedAt: this.scannedAt });
+                    this.close();
+                }))
+            .addButton(button => button
+                .setButtonText('CSV')
+                .onClick(() => {
+                    this.plugin.exportOrphanedImages('csv', { orphans: this.orphans, scannedAt: this.scannedAt });
+                    this.close();
+                }));
+
+        new Setting(contentEl)
+            .setName('Delete orphaned attachments')
+            .setDesc('Delete the orphaned attachments found in the vault that pass the filters, oldest first, up to the max delete count set in the plugin settings.')
             .addButton(button => button
                 .setButtonText('Delete')
                 .setWarning()
@@ -73,23 +111,40 @@ export class ImageOptionsModal extends Modal {
     }
 
     onClose() {
+        this.progress?.cancel();
         const { contentEl } = this;
         contentEl.empty();
     }
 }
 
+// `label` names what is being removed in the title ("orphaned attachment" by default);
+// `note` adds a paragraph explaining anything else the action does.
+export interface ConfirmDeleteOptions {
+    label?: string;
+    note?: string;
+}
+
 export class ConfirmDeleteModal extends Modal {
     private imagePaths: string[];
     private sizeLabel: string;
-    private moveToTrash: boolean;
+    private mode: DisposalMode;
     private onConfirm: () => void;
+    private options: ConfirmDeleteOptions;
 
-    constructor(app: App, imagePaths: string[], sizeLabel: string, moveToTrash: boolean, onConfirm: () => void) {
+    constructor(
+        app: App,
+        imagePaths: string[],
+        sizeLabel: string,
+        mode: DisposalMode,
+        onConfirm: () => void,
+        options: ConfirmDeleteOptions = {},
+    ) {
         super(app);
         this.imagePaths = imagePaths;
         this.sizeLabel = sizeLabel;
-        this.moveToTrash = moveToTrash;
+        this.mode = mode;
         this.onConfirm = onConfirm;
+        this.options = options;
     }
 
     onOpen() {
@@ -97,13 +152,19 @@ export class ConfirmDeleteModal extends Modal {
         const count = this.imagePaths.length;
         const plural = count === 1 ? '' : 's';
 
-        this.setTitle(`Delete ${count} orphaned image${plural}?`);
+        const label = this.options.label ?? 'orphaned attachment';
+        this.setTitle(this.mode === 'quarantine'
+            ? `Quarantine ${count} ${label}${plural}?`
+            : `Delete ${count} ${label}${plural}?`);
+
+        if (this.options.note) contentEl.createEl('p', { text: this.options.note });
 
-        contentEl.createEl('p', {
-            text: this.moveToTrash
-                ? `This will move ${count} image${plural} (${this.sizeLabel}) to trash. You can restore them from your trash if needed.`
-                : `This will permanently delete ${count} image${plural} (${this.sizeLabel}). This cannot be undone.`,
-        });
+        const descriptions: Record<DisposalMode, string> = {
+            trash: `This will move ${count} file${plural} (${this.sizeLabel}) to trash. You can restore them from your trash if needed.`,
+            delete: `This will permanently delete ${count} file${plural} (${this.sizeLabel}). This cannot be undone.`,
+            quarantine: `This will move ${count} file${plural} (${this.sizeLabel}) to the quarantine folder. You can restore them with the "Restore quarantined files" commands.`,
+        };
+        contentEl.createEl('p', { text: descriptions[this.mode] });
 
         // Capped preview.
         const previewLimit = 10;
@@ -120,7 +181,7 @@ export class ConfirmDeleteModal extends Modal {
                 .setButtonText('Cancel')
                 .onClick(() => this.close()))
             .addButton(button => button
-                .setButtonText(this.moveToTrash ? 'Move to trash' : 'Delete')
+                .setButtonText({ trash: 'Move to trash', delete: 'Delete', quarantine: 'Quarantine' }[this.mode])
                 .setWarning()
                 .onClick(() => {
                     this.close();
@@ -132,3 +193,104 @@ export class ConfirmDeleteModal extends Modal {
         this.contentEl.empty();
     }
 }
+
+// Picks one quarantined file to restore to its original path.
+export class QuarantineSuggestModal extends FuzzySuggestModal<QuarantineEntry> {
+    private entries: QuarantineEntry[];
+    private onChoose: (entry: QuarantineEntry) => void;
+
+    constructor(app: App, entries: QuarantineEntry[], onChoose: (entry: QuarantineEntry) => void) {
+        super(app);
+        this.entries = entries;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Choose a quarantined file to restore');
+    }
+
+    getItems(): QuarantineEntry[] {
+        // Newest first: the usual case is undoing a recent mistake.
+        return [...this.entries].sort((a, b) => b.quarantinedAt - a.quarantinedAt);
+    }
+
+    getItemText(entry: QuarantineEntry): string {
+        return `${entry.originalPath} (${formatBytes(entry.size)}, quarantined ${new Date(entry.quarantinedAt).toLocaleString()})`;
+    }
+
+    onChooseItem(entry: QuarantineEntry): void {
+        this.onChoose(entry);
+    }
+}
+
+// Lists journaled cleanups (newest first). Each run can be expanded to show, per file,
+// whether it can still be restored and why not, and restored as a whole.
+export class CleanupHistoryModal extends Modal {
+    plugin: FindOrphanedImagesPlugin;
+
+    constructor(app: App, plugin: FindOrphanedImagesPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        this.setTitle('Cleanup history');
+        this.render();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        const runs = [...this.plugin.journal].reverse();
+        if (runs.length === 0) {
+            contentEl.createEl('p', { text: 'No cleanups have been recorded yet.' });
+            return;
+        }
+
+        const modeLabels: Record<DisposalMode, string> = {
+            trash: 'Trash',
+            delete: 'Permanent delete',
+            quarantine: 'Quarantine',
+        };
+
+        for (const run of runs) {
+            const summary = summarizeRun(run);
+            const removed = summary.trashed + summary.quarantined;
+
+            new Setting(contentEl)
+                .setName(`${new Date(run.timestamp).toLocaleString()} — ${modeLabels[run.mode]}`)
+                .setDesc(`${describeRun(run)} · ${formatBytes(summary.bytes)}`)
+                .addButton(button => button
+                    .setButtonText('Details')
+                    .onClick(() => {
+                        if (details.childElementCount > 0) details.empty();
+                        else void this.renderDetails(details, run);
+                    }))
+                .addButton(button => button
+                    .setButtonText('Restore')
+                    .setDisabled(removed === 0)
+                    .onClick(async () => {
+                        button.setDisabled(true);
+                        await this.plugin.restoreRun(run);
+                        this.render();
+                    }));
+
+            const details = contentEl.createDiv(); // filled by "Details"
+        }
+    }
+
+    private async renderDetails(container: HTMLElement, run: JournalRun) {
+        container.createEl('p', { text: 'Checking files…' });
+        const statuses = await this.plugin.restorer.check(run);
+        container.empty();
+
+        const list = container.createEl('ul');
+        for (const { file, source, reason } of statuses) {
+            list.createEl('li', {
+                text: `${file.path} (${formatBytes(file.size)}) — ${source ? 'restorable' : 'not restorable'}: ${reason}`,
+            });
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
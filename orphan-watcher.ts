@@ -0,0 +1,124 @@
+import { Notice, TFile, debounce } from 'obsidian';
+import type FindOrphanedImagesPlugin from './main';
+import type { DisposalMode } from './types';
+import { ConfirmDeleteModal } from './modals';
+import { formatBytes, isInFolder, parseFolderList, totalSize } from './utils';
+
+// Wait this long after the last reference disappears before asking, so cutting an embed
+// from one note and pasting it into another doesn't raise a notice.
+const GRACE_MS = 3000;
+
+// Offers to clean up attachments as they lose their last reference, fed by
+// ReferenceScanner.onChange. One notice covers every attachment orphaned so far; a newer
+// batch replaces it rather than stacking another.
+export class OrphanWatcher {
+    private pending = new Set<string>();
+    private notice: Notice | null = null;
+    private kept = new Set<string>(); // answered "Keep" this session; not offered again
+    private scheduleNotice = debounce(() => void this.showNotice(), GRACE_MS, true);
+
+    constructor(private plugin: FindOrphanedImagesPlugin) {}
+
+    // `paths` lost their last reference in the latest index update.
+    handleOrphaned(paths: string[]) {
+        if (!this.plugin.settings.orphanNotifications) return;
+        for (const path of paths) {
+            if (!this.kept.has(path)) this.pending.add(path);
+        }
+        if (this.pending.size > 0) this.scheduleNotice();
+    }
+
+    cancel() {
+        this.scheduleNotice.cancel();
+        this.notice?.hide();
+        this.notice = null;
+        this.pending.clear();
+    }
+
+    private async showNotice() {
+        const files = await this.stillOrphaned([...this.pending]);
+        this.pending = new Set(files.map(file => file.path));
+        this.notice?.hide();
+        this.notice = null;
+        if (files.length === 0) return;
+
+        const count = files.length;
+        const { disposalMode } = this.plugin.settings;
+        // "Delete" follows the deletion setting, except that quarantine has its own button.
+        const deleteMode: DisposalMode = disposalMode === 'delete' ? 'delete' : 'trash';
+
+        const notice = new Notice(createFragment(frag => {
+            frag.createDiv({
+                text: count === 1
+                    ? `${files[0].path} is no longer referenced by any note or canvas.`
+                    : `${count} attachments (${formatBytes(totalSize(files))}) are no longer referenced by any note or canvas.`,
+            });
+            if (count > 1) {
+                const list = frag.createEl('ul');
+                for (const file of files.slice(0, 5)) list.createEl('li', { text: file.path });
+                if (count > 5) list.createEl('li', { text: `…and ${count - 5} more.` });
+            }
+            const actions = frag.createDiv({ cls: 'oiv-notice-actions' });
+            this.noticeButton(actions, 'Delete', () => this.dispose(files, deleteMode), 'mod-warning');
+            this.noticeButton(actions, 'Move to quarantine', () => this.dispose(files, 'quarantine'));
+            this.noticeButton(actions, 'Keep', () => {
+                for (const file of files) this.kept.add(file.path);
+            });
+        }), 0);
+        this.notice = notice;
+    }
+
+    private noticeButton(parent: HTMLElement, text: string, onClick: () => void, cls?: string) {
+        const button = parent.createEl('button', { cls, text });
+        // Clicking anywhere on a notice dismisses it, so the buttons only need to act.
+        button.addEventListener('click', () => {
+            this.notice = null;
+            this.pending.clear();
+            onClick();
+        });
+    }
+
+    // Acts on whatever is still orphaned by the time a button is pressed, after the safety
+    // scan if it is on. Permanent deletion still asks for confirmation.
+    private async dispose(candidates: TFile[], mode: DisposalMode) {
+        let files = await this.stillOrphaned(candidates.map(file => file.path));
+        if (this.plugin.settings.safetyTextScan && files.length > 0) {
+            const before = files.length;
+            files = await this.plugin.scanner.filterBySafetyScan(files);
+            const skipped = before - files.length;
+            if (skipped > 0) {
+                new Notice(`Safety scan kept ${skipped} file${skipped === 1 ? '' : 's'} whose name still appears in a note or canvas.`);
+            }
+        }
+        if (files.length === 0) return;
+
+        if (mode === 'delete') {
+            new ConfirmDeleteModal(
+                this.plugin.app,
+                files.map(file => file.path),
+                formatBytes(totalSize(files)),
+                mode,
+                () => this.plugin.performDeletion(files, mode),
+            ).open();
+        } else {
+            await this.plugin.performDeletion(files, mode);
+        }
+    }
+
+    // Files among `paths` that still exist, are in scan scope, aren't kept or opted out of
+    // notifications, and are still unreferenced.
+    private async stillOrphaned(paths: string[]): Promise<TFile[]> {
+        const { scanner, settings } = this.plugin;
+        const optedOut = parseFolderList(settings.orphanNotificationExcludeFolders);
+        await scanner.loadIgnoreFile();
+        const files: TFile[] = [];
+        for (const path of paths) {
+            const file = this.plugin.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile) || !scanner.isInScope(file) || scanner.isKept(path)) continue;
+            if (optedOut.some(dir => isInFolder(path, dir))) continue;
+            if (await scanner.isReferenced(path)) continue;
+            files.push(file);
+        }
+        return files;
+    }
+}
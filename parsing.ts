@@ -1,30 +1,70 @@
 // Pure text extraction for reference sources Obsidian doesn't index. Each returns raw
-// targets; the caller resolves them against the vault (ReferenceScanner.addResolvedRef).
+// targets; the caller resolves them against the vault (collectReferences in ./extractors).
+// The locate* variants also report the 0-based line each target was found on.
+
+// A raw target and the 0-based line of `text` it appears on.
+export interface LocatedTarget {
+    target: string;
+    line: number;
+}
+
+// Maps a character offset in `text` to its 0-based line number.
+export function lineLocator(text: string): (offset: number) => number {
+    const starts = [0];
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) starts.push(i + 1);
+    return offset => {
+        let lo = 0;
+        let hi = starts.length - 1;
+        while (lo < hi) {
+            const mid = (lo + hi + 1) >> 1;
+            if (starts[mid] <= offset) lo = mid;
+            else hi = mid - 1;
+        }
+        return lo;
+    };
+}
+
+// Lowercased file name a link points at ("assets/Pic.png#x" -> "pic.png"): the part that
+// decides which files it could resolve to.
+export function linkFileName(link: string): string {
+    const path = link.replace(/[#|].*$/, '');
+    return path.slice(path.lastIndexOf('/') + 1).trim().toLowerCase();
+}
 
 // Embed targets: wiki (![[target]]) and markdown (![](target)). Strips wiki
 // aliases/anchors; decodes percent-encoding in markdown URLs.
 export function extractEmbeds(text: string): string[] {
-    const targets: string[] = [];
+    return locateEmbeds(text).map(found => found.target);
+}
+
+export function locateEmbeds(text: string, lineOffset = 0): LocatedTarget[] {
+    const lineOf = lineLocator(text);
+    const found: { target: string; index: number }[] = [];
 
     for (const match of text.matchAll(/!\[\[([^\]|#]+)[^\]]*\]\]/g)) {
-        targets.push(match[1].trim());
+        found.push({ target: match[1].trim(), index: match.index ?? 0 });
     }
     for (const match of text.matchAll(/!\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g)) {
         const raw = match[1].trim();
+        let target = raw;
         try {
-            targets.push(decodeURIComponent(raw));
-        } catch {
-            targets.push(raw);
-        }
+            target = decodeURIComponent(raw);
+        } catch { /* keep raw */ }
+        found.push({ target, index: match.index ?? 0 });
     }
 
-    return targets;
+    return found.map(({ target, index }) => ({ target, line: lineOffset + lineOf(index) }));
 }
 
 // <img src="..."> targets. Skips anything with a URI scheme (http:, data:, …) since it
 // can't be a vault path, and strips a leading "./" or "/".
 export function extractImgSrcs(content: string): string[] {
-    const srcs: string[] = [];
+    return locateImgSrcs(content).map(found => found.target);
+}
+
+export function locateImgSrcs(content: string): LocatedTarget[] {
+    const lineOf = lineLocator(content);
+    const srcs: LocatedTarget[] = [];
 
     for (const match of content.matchAll(/<img\b[^>]*\bsrc\s*=\s*["']([^"']+)["']/gi)) {
         const src = match[1].trim();
@@ -33,7 +73,7 @@ export function extractImgSrcs(content: string): string[] {
         try {
             path = decodeURIComponent(src);
         } catch { /* keep raw */ }
-        srcs.push(path.replace(/^\.?\//, ''));
+        srcs.push({ target: path.replace(/^\.?\//, ''), line: lineOf(match.index ?? 0) });
     }
 
     return srcs;
@@ -42,11 +82,60 @@ export function extractImgSrcs(content: string): string[] {
 // Embeds inside legacy Admonitions blocks (```ad-note … ![[img]] … ```), which Obsidian
 // renders but never resolves. Only ad-* fences are scanned; plain code blocks are ignored.
 export function extractAdmonitionEmbeds(content: string): string[] {
-    const targets: string[] = [];
+    return locateAdmonitionEmbeds(content).map(found => found.target);
+}
+
+export function locateAdmonitionEmbeds(content: string): LocatedTarget[] {
+    const lineOf = lineLocator(content);
+    const targets: LocatedTarget[] = [];
 
     for (const block of content.matchAll(/(`{3,}|~{3,})[ \t]*ad-[\w-]+[^\n]*\n([\s\S]*?)\r?\n\1/gi)) {
-        targets.push(...extractEmbeds(block[2]));
+        const bodyStart = (block.index ?? 0) + block[0].indexOf('\n') + 1;
+        targets.push(...locateEmbeds(block[2], lineOf(bodyStart)));
     }
 
     return targets;
 }
+
+// A link or embed as Obsidian's metadata cache records it: `link` keeps any #subpath but
+// drops the |alias; markdown URLs are percent-decoded.
+export interface LocatedLink {
+    link: string;
+    line: number;
+    embed: boolean;
+}
+
+// Wikilinks and markdown links outside code, the way Obsidian indexes a note's body.
+// External URLs (anything with a scheme) are skipped.
+export function locateLinks(text: string, lineOffset = 0): LocatedLink[] {
+    const masked = maskCode(text);
+    const lineOf = lineLocator(masked);
+    const found: { link: string; index: number; embed: boolean }[] = [];
+
+    for (const match of masked.matchAll(/(!?)\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g)) {
+        const link = match[2].trim();
+        if (link) found.push({ link, index: match.index ?? 0, embed: match[1] === '!' });
+    }
+    for (const match of masked.matchAll(/(!?)\[[^\]]*\]\(\s*(?:<([^>]+)>|([^)\s]+))(?:\s+"[^"]*")?\s*\)/g)) {
+        const raw = (match[2] ?? match[3]).trim();
+        if (/^[a-z][a-z0-9+.-]*:/i.test(raw)) continue; // URL scheme, not a vault path
+        let link = raw;
+        try {
+            link = decodeURIComponent(raw);
+        } catch { /* keep raw */ }
+        found.push({ link, index: match.index ?? 0, embed: match[1] === '!' });
+    }
+
+    return found
+        .sort((a, b) => a.index - b.index)
+        .map(({ link, index, embed }) => ({ link, line: lineOffset + lineOf(index), embed }));
+}
+
+// `text` with fenced code blocks and inline code blanked out, keeping every offset and
+// line break, so links inside code aren't matched.
+export function maskCode(text: string): string {
+    const blank = (code: string) => code.replace(/[^\n]/g, ' ');
+    return text
+        .replace(/^([ \t]*)(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:\n[ \t]*\2[^\n]*|$(?![\s\S]))/gm, blank)
+        .replace(/(`+)[^`\n]+?\1/g, blank);
+}
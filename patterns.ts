@@ -0,0 +1,89 @@
+import type { CustomPattern } from './types';
+import type { ReferenceExtractor } from './extractors';
+import { LocatedTarget, lineLocator } from './parsing';
+import { parseExtensions } from './categories';
+
+// User-defined reference patterns (no Obsidian dependency): a regex whose capture group is
+// the target, the file extensions it applies to, and whether the capture is a link to
+// resolve or a literal vault path. All patterns run through one extractor.
+
+// Compiles `pattern` as a global regex. Accepts a bare source or /source/flags. Throws
+// SyntaxError for invalid regexes and for ones without a capture group.
+export function compilePattern(pattern: string): RegExp {
+    const literal = /^\/([\s\S]+)\/([a-z]*)$/.exec(pattern.trim());
+    const source = literal ? literal[1] : pattern.trim();
+    const flags = new Set(literal ? literal[2] : '');
+    flags.add('g');
+    if (source === '') throw new SyntaxError('Pattern is empty');
+    const regex = new RegExp(source, [...flags].join(''));
+    // An alternative that matches '' reveals how many groups the pattern has.
+    if (new RegExp(`${source}|`, regex.flags).exec('')?.length === 1) throw new SyntaxError('Pattern has no capture group for the target');
+    return regex;
+}
+
+// Why `pattern` can't be used, or null if it can.
+export function patternError(pattern: string): string | null {
+    try {
+        compilePattern(pattern);
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
+// Every target `regex` captures in `content`, with its 0-based line. The target is the
+// named group `target` if the pattern has one, otherwise the first capture group.
+export function matchPattern(regex: RegExp, content: string): LocatedTarget[] {
+    const lineOf = lineLocator(content);
+    const found: LocatedTarget[] = [];
+    for (const match of content.matchAll(regex)) {
+        const target = (match.groups?.target ?? match[1])?.trim();
+        if (target) found.push({ target, line: lineOf(match.index ?? 0) });
+    }
+    return found;
+}
+
+// Each valid pattern of `patterns` with its regex. Regexes are reused from `cache` (pattern
+// text -> regex, null if invalid), which is updated to hold exactly the current patterns:
+// text since edited or removed is dropped.
+export function compilePatterns(
+    patterns: readonly CustomPattern[],
+    cache: Map<string, RegExp | null>,
+): { pattern: CustomPattern; regex: RegExp }[] {
+    const current = new Set(patterns.map(pattern => pattern.pattern));
+    for (const text of cache.keys()) {
+        if (!current.has(text)) cache.delete(text);
+    }
+    const usable: { pattern: CustomPattern; regex: RegExp }[] = [];
+    for (const pattern of patterns) {
+        if (!cache.has(pattern.pattern)) {
+            cache.set(pattern.pattern, patternError(pattern.pattern) === null ? compilePattern(pattern.pattern) : null);
+        }
+        const regex = cache.get(pattern.pattern);
+        if (regex) usable.push({ pattern, regex });
+    }
+    return usable;
+}
+
+// One extractor for every valid pattern in `getPatterns()` (read on each use, so edits in
+// settings apply without re-registering). Its extensions are the union of the patterns'.
+export function customPatternExtractor(getPatterns: () => readonly CustomPattern[]): ReferenceExtractor {
+    const compiled = new Map<string, RegExp | null>();
+    const usable = () => compilePatterns(getPatterns(), compiled);
+
+    return {
+        id: 'custom-patterns',
+        name: 'Custom patterns',
+        description: 'The patterns defined under "Custom reference patterns".',
+        get extensions() {
+            return [...new Set(usable().flatMap(({ pattern }) => parseExtensions(pattern.extensions)))];
+        },
+        extract: (content, { path }) => {
+            const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+            return usable()
+                .filter(({ pattern }) => parseExtensions(pattern.extensions).includes(extension))
+                .flatMap(({ pattern, regex }) => matchPattern(regex, content)
+                    .map(({ target, line }) => ({ link: target, kind: 'pattern' as const, literal: pattern.resolveAs === 'path', line })));
+        },
+    };
+}
@@ -0,0 +1,137 @@
+import { App, TFile, loadPdfJs, setIcon } from 'obsidian';
+import { previewKind } from './categories';
+
+// Canvas size for PDF first pages: twice the 44px thumbnail, for high-DPI screens.
+const PDF_THUMB_PX = 88;
+
+// Fills a thumbnail box with a preview suited to the file type: the image itself, a PDF's
+// first page, a video's first frame, a play button for audio, or a file-type icon.
+export function renderPreview(app: App, thumb: HTMLElement, file: TFile) {
+    switch (previewKind(file.extension)) {
+        case 'image':
+            renderImage(app, thumb, file);
+            break;
+        case 'pdf':
+            renderPdf(app, thumb, file);
+            break;
+        case 'video':
+            renderVideo(app, thumb, file);
+            break;
+        case 'audio':
+            renderAudio(app, thumb, file);
+            break;
+        default:
+            renderIcon(thumb, file);
+    }
+}
+
+// Observers of PDF previews still waiting to scroll into view, by their canvas.
+const pendingPdfs = new WeakMap<Element, IntersectionObserver>();
+
+// Pauses any audio/video previews under `container` and drops PDF previews that haven't
+// rendered yet. Call before emptying it: detached media elements keep playing, and an
+// observer keeps its removed thumbnail alive.
+export function stopPreviews(container: HTMLElement) {
+    container.querySelectorAll('audio, video').forEach(media => (media as HTMLMediaElement).pause());
+    container.querySelectorAll('.oiv-thumb-pdf').forEach(canvas => {
+        pendingPdfs.get(canvas)?.disconnect();
+        pendingPdfs.delete(canvas);
+    });
+}
+
+function renderImage(app: App, thumb: HTMLElement, file: TFile) {
+    const img = thumb.createEl('img', { cls: 'oiv-thumb-img' });
+    img.loading = 'lazy';
+    img.src = app.vault.getResourcePath(file);
+    img.alt = file.name;
+    // Undecodable formats fall back to an extension badge.
+    img.addEventListener('error', () => {
+        img.remove();
+        thumb.createDiv({ cls: 'oiv-thumb-fallback', text: file.extension.toUpperCase() });
+    });
+}
+
+// Renders the first page once the thumbnail scrolls into view, so a long list doesn't
+// parse every PDF up front.
+function renderPdf(app: App, thumb: HTMLElement, file: TFile) {
+    const canvas = thumb.createEl('canvas', { cls: 'oiv-thumb-img oiv-thumb-pdf' });
+    const observer = new IntersectionObserver(entries => {
+        if (!entries.some(entry => entry.isIntersecting)) return;
+        observer.disconnect();
+        pendingPdfs.delete(canvas);
+        drawPdfFirstPage(app, file, canvas).catch(error => {
+            console.error(`Failed to render PDF preview for ${file.path}:`, error);
+            canvas.remove();
+            renderIcon(thumb, file);
+        });
+    });
+    observer.observe(thumb);
+    pendingPdfs.set(canvas, observer);
+}
+
+async function drawPdfFirstPage(app: App, file: TFile, canvas: HTMLCanvasElement) {
+    const pdfjs = await loadPdfJs();
+    const doc = await pdfjs.getDocument({ data: new Uint8Array(await app.vault.readBinary(file)) }).promise;
+    try {
+        const page = await doc.getPage(1);
+        const base = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: PDF_THUMB_PX / Math.max(base.width, base.height) });
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas 2D context unavailable');
+        await page.render({ canvasContext: context, viewport }).promise;
+    } finally {
+        await doc.destroy();
+    }
+}
+
+// The `#t=` fragment makes the browser seek past the (often black) first frame as a poster.
+function renderVideo(app: App, thumb: HTMLElement, file: TFile) {
+    const video = thumb.createEl('video', { cls: 'oiv-thumb-img' });
+    video.preload = 'metadata';
+    video.muted = true;
+    video.src = `${app.vault.getResourcePath(file)}#t=0.5`;
+    video.addEventListener('error', () => {
+        video.remove();
+        renderIcon(thumb, file);
+    });
+}
+
+// A play/pause toggle over a hidden <audio>. Stops the click from opening the file.
+function renderAudio(app: App, thumb: HTMLElement, file: TFile) {
+    const audio = thumb.createEl('audio');
+    audio.preload = 'none';
+    audio.src = app.vault.getResourcePath(file);
+
+    const button = thumb.createEl('button', { cls: 'oiv-thumb-play' });
+    button.setAttribute('aria-label', `Play ${file.name}`);
+    setIcon(button, 'play');
+    button.addEventListener('click', event => {
+        event.stopPropagation();
+        if (audio.paused) void audio.play();
+        else audio.pause();
+    });
+    audio.addEventListener('play', () => setIcon(button, 'pause'));
+    audio.addEventListener('pause', () => setIcon(button, 'play'));
+    audio.addEventListener('ended', () => setIcon(button, 'play'));
+}
+
+function renderIcon(thumb: HTMLElement, file: TFile) {
+    const icon = thumb.createDiv({ cls: 'oiv-thumb-icon' });
+    setIcon(icon, iconFor(file.extension.toLowerCase()));
+    icon.setAttribute('aria-label', file.extension.toUpperCase());
+}
+
+function iconFor(extension: string): string {
+    switch (previewKind(extension)) {
+        case 'pdf': return 'file-text';
+        case 'audio': return 'music';
+        case 'video': return 'film';
+        case 'image': return 'image';
+    }
+    if (['xls', 'xlsx', 'ods', 'csv'].includes(extension)) return 'sheet';
+    if (['ppt', 'pptx', 'odp', 'key'].includes(extension)) return 'presentation';
+    if (['doc', 'docx', 'odt', 'rtf', 'pages'].includes(extension)) return 'file-text';
+    return 'file';
+}
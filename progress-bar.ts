@@ -0,0 +1,36 @@
+import { ScanProgressOptions, ScanProgress, describeProgress } from './progress';
+
+// A progress bar with a Cancel button, for a scan run with `options()`. Cancel aborts the
+// scan, then calls `onCancel` (to close a modal, say). The bar is indeterminate until the
+// scan first reports progress.
+export class ScanProgressBar {
+    private controller = new AbortController();
+    private labelEl: HTMLElement;
+    private barEl: HTMLProgressElement;
+
+    constructor(parent: HTMLElement, label: string, onCancel?: () => void) {
+        const el = parent.createDiv({ cls: 'oiv-progress' });
+        this.labelEl = el.createDiv({ cls: 'oiv-progress-label', text: label });
+        const row = el.createDiv({ cls: 'oiv-progress-row' });
+        this.barEl = row.createEl('progress', { cls: 'oiv-progress-bar' });
+        const cancel = row.createEl('button', { cls: 'oiv-btn', text: 'Cancel' });
+        cancel.addEventListener('click', () => {
+            this.cancel();
+            onCancel?.();
+        });
+    }
+
+    cancel() {
+        this.controller.abort();
+    }
+
+    options(): ScanProgressOptions {
+        return { signal: this.controller.signal, onProgress: progress => this.update(progress) };
+    }
+
+    private update(progress: ScanProgress) {
+        this.labelEl.setText(describeProgress(progress));
+        this.barEl.max = Math.max(1, progress.total);
+        this.barEl.value = progress.done;
+    }
+}
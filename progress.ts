@@ -0,0 +1,62 @@
+// Progress and cancellation for long scans (no Obsidian dependency). A scan takes
+// ScanProgressOptions: `onProgress` hears how far it got, and aborting `signal` stops it
+// between batches of reads, rejecting with ScanCancelledError.
+
+// The index build runs in this order. Links and frontmatter come from Obsidian's metadata
+// cache, so those phases read no files; canvases, then note bodies (and any other file an
+// extractor reads) are read from disk. The safety scan is a separate pass over the same
+// files.
+export type ScanPhase = 'links' | 'frontmatter' | 'canvases' | 'bodies' | 'safety';
+
+export const SCAN_PHASE_LABELS: Record<ScanPhase, string> = {
+    links: 'Reading metadata links',
+    frontmatter: 'Reading frontmatter',
+    canvases: 'Reading canvases',
+    bodies: 'Reading note bodies',
+    safety: 'Safety scan',
+};
+
+// `done` of `total` files read; the phase is that of the files being read now.
+export interface ScanProgress {
+    phase: ScanPhase;
+    done: number;
+    total: number;
+}
+
+export interface ScanProgressOptions {
+    signal?: AbortSignal;
+    onProgress?: (progress: ScanProgress) => void;
+}
+
+export class ScanCancelledError extends Error {
+    constructor() {
+        super('Scan cancelled');
+        this.name = 'ScanCancelledError';
+    }
+}
+
+export function throwIfCancelled(signal?: AbortSignal) {
+    if (signal?.aborted) throw new ScanCancelledError();
+}
+
+// Settles like `promise`, or rejects with ScanCancelledError as soon as `signal` aborts.
+// `promise` itself runs on.
+export function untilCancelled<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(new ScanCancelledError());
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(new ScanCancelledError());
+        signal.addEventListener('abort', onAbort);
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+// Which phase of the index build reads the text of a source with this extension.
+export function sourcePhase(extension: string): 'canvases' | 'bodies' {
+    return extension.toLowerCase() === 'canvas' ? 'canvases' : 'bodies';
+}
+
+// "Reading canvases… 120 of 400 files".
+export function describeProgress({ phase, done, total }: ScanProgress): string {
+    return `${SCAN_PHASE_LABELS[phase]}… ${done} of ${total} file${total === 1 ? '' : 's'}`;
+}
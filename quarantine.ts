@@ -0,0 +1,195 @@
+import { App, TFile, TFolder, Vault, normalizePath } from 'obsidian';
+import { DEFAULT_SETTINGS, FindOrphanedImagesSettings, QuarantineEntry } from './types';
+import { quarantinePathFor, numberedPath } from './utils';
+
+const MANIFEST_NAME = 'quarantine-manifest.json';
+
+// Creates the parent folders of `path`, one level at a time.
+export async function ensureParentFolders(vault: Vault, path: string): Promise<void> {
+    const parts = path.split('/').slice(0, -1);
+    for (let i = 1; i <= parts.length; i++) {
+        const folder = parts.slice(0, i).join('/');
+        if (!(vault.getAbstractFileByPath(folder) instanceof TFolder)) {
+            await vault.createFolder(folder);
+        }
+    }
+}
+
+// Holding area for disposed files: moves them under `settings.quarantineFolder` (keeping
+// their folder structure) and records each move in a JSON manifest stored in that folder,
+// so it syncs with the vault and any device can restore. The manifest is re-read at the
+// start of every operation; `settings` is held by reference like ReferenceScanner's.
+export class Quarantine {
+    private entries: QuarantineEntry[] | null = null; // loaded lazily, dropped on flush
+    private dirty = false;
+
+    constructor(private app: App, private settings: FindOrphanedImagesSettings) {}
+
+    get folder(): string {
+        return normalizePath(this.settings.quarantineFolder.trim().replace(/^\/+|\/+$/g, '') || DEFAULT_SETTINGS.quarantineFolder);
+    }
+
+    private get manifestPath(): string {
+        return normalizePath(`${this.folder}/${MANIFEST_NAME}`);
+    }
+
+    async list(): Promise<QuarantineEntry[]> {
+        if (!this.dirty) this.entries = null; // always show the manifest as it is on disk
+        return [...await this.load()];
+    }
+
+    // Moves `file` into quarantine. Call flush() once the batch is done to write the manifest.
+    async move(file: TFile): Promise<QuarantineEntry> {
+        const { vault } = this.app;
+        const entries = await this.load();
+
+        const target = await this.availablePath(normalizePath(quarantinePathFor(this.folder, file.path)));
+        const entry: QuarantineEntry = {
+            originalPath: file.path,
+            quarantinePath: target,
+            quarantinedAt: Date.now(),
+            size: file.stat.size,
+        };
+
+        await ensureParentFolders(this.app.vault, target);
+        // vault.rename, not fileManager.renameFile: an orphan has no links worth updating.
+        await vault.rename(file, target);
+        entries.push(entry);
+        this.dirty = true;
+        return entry;
+    }
+
+    // Moves a quarantined file back to where it came from. Never overwrites: fails if the
+    // original path is taken again or the quarantined copy has gone missing.
+    async restore(entry: QuarantineEntry): Promise<void> {
+        const { failed } = await this.restoreEntries([entry]);
+        if (failed.length > 0) throw failed[0].error;
+    }
+
+    // Restores each of `entries` like restore(), reading and writing the manifest once for
+    // the whole batch. One failure doesn't stop the rest.
+    async restoreEntries(entries: QuarantineEntry[]): Promise<{
+        restored: QuarantineEntry[];
+        failed: { entry: QuarantineEntry; error: unknown }[];
+    }> {
+        const restored: QuarantineEntry[] = [];
+        const failed: { entry: QuarantineEntry; error: unknown }[] = [];
+        try {
+            await this.load();
+            for (const entry of entries) {
+                try {
+                    await this.restoreOne(entry);
+                    restored.push(entry);
+                } catch (error) {
+                    failed.push({ entry, error });
+                }
+            }
+        } finally {
+            await this.flush();
+        }
+        return { restored, failed };
+    }
+
+    async restoreAll(): Promise<{ restored: number; failed: number }> {
+        const { restored, failed } = await this.restoreEntries(await this.list());
+        for (const { entry, error } of failed) {
+            console.error(`Failed to restore quarantined file: ${entry.originalPath}`, error);
+        }
+        return { restored: restored.length, failed: failed.length };
+    }
+
+    // Permanently deletes the quarantined files of `entries`, such as those a confirmation
+    // listed. Entries no longer in the manifest (restored or purged meanwhile) are skipped.
+    async purgeEntries(entries: readonly QuarantineEntry[]): Promise<{ purged: number; failed: number; freedBytes: number }> {
+        const { vault } = this.app;
+        let purged = 0;
+        let failed = 0;
+        let freedBytes = 0;
+
+        try {
+            const current = new Set((await this.load()).map(entry => entry.quarantinePath));
+            for (const entry of entries) {
+                if (!current.has(entry.quarantinePath)) continue;
+                try {
+                    const file = vault.getAbstractFileByPath(entry.quarantinePath);
+                    if (file instanceof TFile) await vault.delete(file);
+                    // Already gone (deleted by hand, another device): just drop the entry.
+                    this.forget(entry);
+                    purged++;
+                    freedBytes += entry.size;
+                } catch (error) {
+                    console.error(`Failed to purge quarantined file: ${entry.quarantinePath}`, error);
+                    failed++;
+                }
+            }
+        } finally {
+            await this.flush();
+        }
+        return { purged, failed, freedBytes };
+    }
+
+    // Writes the manifest if anything changed, then drops the cache so the next
+    // operation sees edits made elsewhere (e.g. by sync).
+    async flush(): Promise<void> {
+        try {
+            if (this.dirty && this.entries) {
+                await ensureParentFolders(this.app.vault, this.manifestPath);
+                await this.app.vault.adapter.write(this.manifestPath, JSON.stringify(this.entries, null, '\t'));
+            }
+        } finally {
+            this.entries = null;
+            this.dirty = false;
+        }
+    }
+
+    private async restoreOne(entry: QuarantineEntry): Promise<void> {
+        const { vault } = this.app;
+        const file = vault.getAbstractFileByPath(entry.quarantinePath);
+        if (!(file instanceof TFile)) {
+            throw new Error(`Quarantined copy is missing: ${entry.quarantinePath}`);
+        }
+        if (vault.getAbstractFileByPath(entry.originalPath)) {
+            throw new Error(`A file already exists at ${entry.originalPath}`);
+        }
+        await ensureParentFolders(this.app.vault, entry.originalPath);
+        await vault.rename(file, entry.originalPath);
+        this.forget(entry);
+    }
+
+    private forget(entry: QuarantineEntry) {
+        if (!this.entries) return;
+        const index = this.entries.findIndex(e => e.quarantinePath === entry.quarantinePath);
+        if (index === -1) return;
+        this.entries.splice(index, 1);
+        this.dirty = true;
+    }
+
+    private async load(): Promise<QuarantineEntry[]> {
+        if (this.entries) return this.entries;
+
+        const { adapter } = this.app.vault;
+        let entries: QuarantineEntry[] = [];
+        if (await adapter.exists(this.manifestPath)) {
+            try {
+                const parsed = JSON.parse(await adapter.read(this.manifestPath));
+                if (Array.isArray(parsed)) entries = parsed;
+            } catch (error) {
+                // Unreadable manifest: start empty rather than overwrite it (dirty stays false).
+                console.error(`Failed to read quarantine manifest ${this.manifestPath}:`, error);
+            }
+        }
+        this.entries = entries;
+        return entries;
+    }
+
+    // First free path at or after `path` ("pic.png", "pic 1.png", …), counting both
+    // vault files and paths already claimed in the manifest.
+    private async availablePath(path: string): Promise<string> {
+        const claimed = new Set((await this.load()).map(entry => entry.quarantinePath));
+        let candidate = path;
+        for (let n = 1; this.app.vault.getAbstractFileByPath(candidate) || claimed.has(candidate); n++) {
+            candidate = numberedPath(path, n);
+        }
+        return candidate;
+    }
+}
@@ -0,0 +1,145 @@
+// In-memory map of who references what, keyed both ways (no Obsidian dependency).
+// ReferenceScanner fills it one source file at a time.
+
+export type ReferenceKind =
+    | 'link' // a link or embed Obsidian resolved itself
+    | 'frontmatter'
+    | 'canvas-file'
+    | 'canvas-group'
+    | 'canvas-text'
+    | 'img-tag'
+    | 'admonition'
+    | 'excalidraw'
+    | 'pattern' // from a custom pattern in settings
+    | 'other'; // from an extractor another plugin registered
+
+export const REFERENCE_KIND_LABELS: Record<ReferenceKind, string> = {
+    'link': 'Link or embed',
+    'frontmatter': 'Frontmatter',
+    'canvas-file': 'Canvas file node',
+    'canvas-group': 'Canvas group background',
+    'canvas-text': 'Canvas text card',
+    'img-tag': '<img> tag',
+    'admonition': 'Admonition embed',
+    'excalidraw': 'Excalidraw drawing',
+    'pattern': 'Custom pattern',
+    'other': 'Other source',
+};
+
+// One reference from `source` to `target` (both vault paths; an unresolved target keeps
+// its raw path). `link` is the text as written when the target was resolved from it, so
+// the reference can be resolved again after files are added or moved. Where it sits is
+// given by whichever locator applies.
+export interface Reference {
+    source: string;
+    target: string;
+    kind: ReferenceKind;
+    extractor?: string; // id of the extractor that found it (see ./extractors)
+    link?: string;
+    line?: number; // 0-based, for note text
+    nodeId?: string; // canvas node or drawing element
+    key?: string; // frontmatter property
+}
+
+// The kind's label, naming the extractor for references other plugins' extractors found.
+export function kindLabel(ref: Reference): string {
+    const label = REFERENCE_KIND_LABELS[ref.kind];
+    return ref.kind === 'other' && ref.extractor ? `${label} (${ref.extractor})` : label;
+}
+
+// " · line 4", " · node abc" or " · property "cover"", or '' when the position is unknown.
+export function describeLocation(ref: Reference): string {
+    if (ref.line !== undefined) return ` · line ${ref.line + 1}`;
+    if (ref.nodeId !== undefined) return ` · node ${ref.nodeId}`;
+    if (ref.key !== undefined) return ` · property "${ref.key}"`;
+    return '';
+}
+
+export class ReferenceIndex {
+    private bySource = new Map<string, Reference[]>();
+    private byTarget = new Map<string, Set<Reference>>();
+
+    // Replaces everything `source` references.
+    setSource(source: string, refs: Reference[]) {
+        this.removeSource(source);
+        if (refs.length === 0) return;
+        this.bySource.set(source, refs);
+        for (const ref of refs) this.link(ref);
+    }
+
+    // Adds one reference to what `ref.source` already has.
+    add(ref: Reference) {
+        const refs = this.bySource.get(ref.source);
+        if (refs) refs.push(ref);
+        else this.bySource.set(ref.source, [ref]);
+        this.link(ref);
+    }
+
+    removeSource(source: string) {
+        const refs = this.bySource.get(source);
+        if (!refs) return;
+        this.bySource.delete(source);
+        for (const ref of refs) this.unlink(ref);
+    }
+
+    isReferenced(target: string): boolean {
+        return this.byTarget.has(target);
+    }
+
+    // True if `source` references `target` in any way.
+    hasReference(source: string, target: string): boolean {
+        return this.bySource.get(source)?.some(ref => ref.target === target) ?? false;
+    }
+
+    // References to `target`, ordered by source path then position.
+    getReferences(target: string): Reference[] {
+        return [...this.byTarget.get(target) ?? []].sort((a, b) =>
+            a.source.localeCompare(b.source) || (a.line ?? -1) - (b.line ?? -1));
+    }
+
+    // References made by `source`, in extraction order.
+    getReferencesFrom(source: string): Reference[] {
+        return [...this.bySource.get(source) ?? []];
+    }
+
+    // Every indexed reference matching `predicate`.
+    find(predicate: (ref: Reference) => boolean): Reference[] {
+        const found: Reference[] = [];
+        for (const refs of this.bySource.values()) {
+            for (const ref of refs) if (predicate(ref)) found.push(ref);
+        }
+        return found;
+    }
+
+    // Points indexed `refs` at whatever `resolve` now returns for them. True if any moved.
+    retarget(refs: Reference[], resolve: (ref: Reference) => string): boolean {
+        let moved = false;
+        for (const ref of refs) {
+            const target = resolve(ref);
+            if (target === ref.target) continue;
+            this.unlink(ref);
+            ref.target = target;
+            this.link(ref);
+            moved = true;
+        }
+        return moved;
+    }
+
+    clear() {
+        this.bySource.clear();
+        this.byTarget.clear();
+    }
+
+    private link(ref: Reference) {
+        const set = this.byTarget.get(ref.target);
+        if (set) set.add(ref);
+        else this.byTarget.set(ref.target, new Set([ref]));
+    }
+
+    private unlink(ref: Reference) {
+        const set = this.byTarget.get(ref.target);
+        if (!set) return;
+        set.delete(ref);
+        if (set.size === 0) this.byTarget.delete(ref.target);
+    }
+}
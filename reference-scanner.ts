@@ -1,60 +1,413 @@
-import { App, TFile, parseLinktext } from 'obsidian';
-import type { CanvasData } from 'obsidian/canvas';
+import { App, Component, Notice, TAbstractFile, TFile, arrayBufferToHex, debounce, parseLinktext } from 'obsidian';
 import type { FindOrphanedImagesSettings } from './types';
-import { extractEmbeds, extractImgSrcs, extractAdmonitionEmbeds } from './parsing';
-import { parseFolderList, isInFolder } from './utils';
+import { linkFileName } from './parsing';
+import { extensionOf } from './utils';
+import { ReferenceIndex, Reference } from './reference-index';
+import { ExtractorRegistry, ReferenceExtractor, collectReferences, frontmatterExtractor, linksExtractor } from './extractors';
+import { groupDuplicates, sortByWaste } from './duplicates';
+import { enabledExtensions } from './categories';
+import { BrokenReference, suggestFixes } from './broken';
+import { IGNORE_FILE, ScopeOverrides, ScopeRule, describeRuleProblems, parseScopeRules, scopeFilter } from './scope';
+import { isPluginNote } from './report';
+import { KEEP_PROPERTY, isKeepValue, sidecarPathFor } from './keep';
+import { ScanCancelledError, ScanProgressOptions, ScanPhase, sourcePhase, throwIfCancelled, untilCancelled } from './progress';
 
-// Owns all vault/metadata access for finding orphaned images (pure parsing lives in
-// ./parsing). `settings` is held by reference — the plugin mutates it in place, so the
-// scanner always sees current values.
-export class ReferenceScanner {
-    constructor(private app: App, private settings: FindOrphanedImagesSettings) {}
+// How long vault changes are batched before the index is updated.
+const UPDATE_DELAY_MS = 500;
 
-    // Images referenced by no note, frontmatter, canvas, <img> tag, or admonition.
-    async getOrphanedImages(): Promise<TFile[]> {
+// Extractors that read only Obsidian's metadata cache. The index build runs each as a phase
+// of its own, before reading any file (see ./progress).
+const METADATA_PHASES: [string, ScanPhase][] = [[linksExtractor.id, 'links'], [frontmatterExtractor.id, 'frontmatter']];
+
+// An index build in flight, and the callers waiting on it.
+interface IndexBuild {
+    promise: Promise<ReferenceIndex>;
+    controller: AbortController;
+    waiters: Set<ScanProgressOptions>;
+}
+
+// Owns all vault/metadata access for finding orphaned attachments (what counts as a
+// reference is up to the extractors in ./extractors). `settings` is held by reference —
+// the plugin mutates it in place, so the scanner always sees current values.
+//
+// The reference index is built on first use and then kept current from vault and
+// metadata-cache events, so only changed notes and canvases are read again. Add the
+// scanner with Plugin.addChild() so those events are registered and released with it.
+//
+// Scans that read files take ScanProgressOptions (see ./progress) to report progress and
+// to be cancelled.
+export class ReferenceScanner extends Component {
+    private index: ReferenceIndex | null = null;
+    private building: IndexBuild | null = null;
+    private dirty = new Set<string>(); // notes/canvases to read again
+    private stalePaths = new Set<string>(); // removed attachments; links to them may resolve elsewhere now
+    private staleNames = new Set<string>(); // lowercased names of added attachments
+    private released = new Set<string>(); // targets that lost a reference since the last update
+    private updates: Promise<void> = Promise.resolve(); // serializes applyPending()
+    private listeners = new Set<(orphaned: string[]) => void>();
+    private ignoreRules: ScopeRule[] = []; // from .orphanignore, as of the last loadIgnoreFile()
+    private reportedRuleProblems = new Set<string>(); // shown once each (see loadIgnoreFile)
+    private scheduleUpdate = debounce(() => void this.update(), UPDATE_DELAY_MS, true);
+
+    constructor(private app: App, private settings: FindOrphanedImagesSettings, private extractors: ExtractorRegistry) {
+        super();
+    }
+
+    onload() {
         const { vault, metadataCache } = this.app;
-        const imageExtensions = this.settings.imageExtensions
-            .split(',')
-            .map(ext => ext.trim().toLowerCase())
-            .filter(ext => ext.length > 0);
-
-        const includeFolders = parseFolderList(this.settings.includeFolders);
-        const excludeFolders = parseFolderList(this.settings.excludeFolders);
-
-        const imageFiles = vault.getFiles().filter(file =>
-            imageExtensions.includes(file.extension.toLowerCase())
-            && (includeFolders.length === 0 || includeFolders.some(dir => isInFolder(file.path, dir)))
-            && !excludeFolders.some(dir => isInFolder(file.path, dir)));
-
-        if (imageFiles.length === 0) return []; // nothing to scan for
-
-        // Merge every reference source into one set for O(1) lookups. The canvas and
-        // note-body passes overlap; each writes its own set, so no locking is needed.
-        const [canvasRefs, noteBodyRefs] = await Promise.all([
-            this.collectCanvasReferences(),
-            this.collectNoteBodyReferences(),
-        ]);
-
-        const referenced = new Set<string>();
-        for (const targets of Object.values(metadataCache.resolvedLinks)) {
-            for (const targetPath of Object.keys(targets)) {
-                referenced.add(targetPath);
+        this.registerEvent(vault.on('create', file => this.onCreate(file)));
+        this.registerEvent(vault.on('modify', file => {
+            // Notes wait for 'changed': their links come from the metadata cache.
+            if (file instanceof TFile && file.extension !== 'md') this.markDirty(file.path);
+        }));
+        this.registerEvent(vault.on('delete', file => this.onDelete(file)));
+        this.registerEvent(vault.on('rename', (file, oldPath) => this.onRename(file, oldPath)));
+        this.registerEvent(metadataCache.on('changed', file => this.markDirty(file.path)));
+        this.registerEvent(metadataCache.on('resolved', () => this.onResolved()));
+        this.register(() => this.scheduleUpdate.cancel());
+    }
+
+    // Calls `listener` whenever the live index changes, with the paths whose last reference
+    // that change removed. Returns an unsubscribe function (suitable for Component.register).
+    onChange(listener: (orphaned: string[]) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    // Drops the index so the next lookup rebuilds it from scratch.
+    invalidate() {
+        this.index = null;
+        // A build in flight reads under the old settings: stop it, so callers start afresh.
+        this.building?.controller.abort();
+        this.building = null;
+        this.dirty.clear();
+        this.stalePaths.clear();
+        this.staleNames.clear();
+        this.released.clear();
+    }
+
+    // Attachments referenced by no note, frontmatter, canvas, <img> tag, or admonition.
+    // `scope` replaces scope settings for this call only.
+    async getOrphanedImages(scope: ScopeOverrides = {}, options: ScanProgressOptions = {}): Promise<TFile[]> {
+        await this.loadIgnoreFile();
+        const attachments = this.getAttachmentFiles(scope);
+
+        if (attachments.length === 0) return []; // nothing to scan for
+
+        const index = await this.getIndex(options);
+        const isKept = this.keptFilter();
+        return attachments.filter(file => !index.isReferenced(file.path) && !isKept(file.path));
+    }
+
+    // Kept files are never orphans, whether or not anything references them (see ./keep).
+    isKept(path: string): boolean {
+        return this.keptFilter()(path);
+    }
+
+    // Every kept file that exists, in scan scope or not.
+    getKeptFiles(): TFile[] {
+        const isKept = this.keptFilter();
+        return this.app.vault.getFiles().filter(file => isKept(file.path));
+    }
+
+    private keptFilter(): (path: string) => boolean {
+        const kept = new Set(this.settings.keptFiles);
+        const { keepSidecars } = this.settings;
+        return path => kept.has(path) || (keepSidecars
+            && isKeepValue(this.app.metadataCache.getCache(sidecarPathFor(path))?.frontmatter?.[KEEP_PROPERTY]));
+    }
+
+    // Builds the index now rather than on first lookup, so changes are tracked from here on.
+    async ensureIndex(): Promise<void> {
+        await this.getIndex();
+    }
+
+    // True if anything references `path`, by the live index.
+    async isReferenced(path: string): Promise<boolean> {
+        return (await this.getIndex()).isReferenced(path);
+    }
+
+    // Every reference to `path`, with where it comes from.
+    async getReferences(path: string): Promise<Reference[]> {
+        return (await this.getIndex()).getReferences(path);
+    }
+
+    // The live index, built if needed and with any queued changes applied. Every caller
+    // waiting on a build hears its progress; the build stops once all of them cancelled.
+    // Callers of a build that invalidate() dropped wait for a fresh one.
+    private async getIndex(options: ScanProgressOptions = {}): Promise<ReferenceIndex> {
+        let index = this.index;
+        while (!index) {
+            if (!this.building || this.building.controller.signal.aborted) this.building = this.startBuild();
+            const build = this.building;
+            build.waiters.add(options);
+            try {
+                const built = await untilCancelled(build.promise, options.signal);
+                if (this.index === built) index = built;
+            } catch (error) {
+                if (!(error instanceof ScanCancelledError) || options.signal?.aborted) throw error;
+            } finally {
+                build.waiters.delete(options);
+                if (build.waiters.size === 0 && options.signal?.aborted) build.controller.abort();
             }
         }
-        for (const path of this.collectFrontmatterReferences()) referenced.add(path);
-        for (const path of canvasRefs) referenced.add(path);
-        for (const path of noteBodyRefs) referenced.add(path);
+        await this.update();
+        return index;
+    }
+
+    private startBuild(): IndexBuild {
+        const controller = new AbortController();
+        const waiters = new Set<ScanProgressOptions>();
+        const promise = this.buildReferenceIndex({
+            signal: controller.signal,
+            onProgress: progress => waiters.forEach(waiter => waiter.onProgress?.(progress)),
+        }).then(built => {
+            // Unless invalidate() dropped this build meanwhile.
+            if (this.building === build) this.index = built;
+            return built;
+        });
+        const build: IndexBuild = { promise, controller, waiters };
+        // Waiters see failures; this only clears the slot (also after a build nobody awaits).
+        void promise.catch(() => undefined).then(() => {
+            if (this.building === build) this.building = null;
+        });
+        return build;
+    }
+
+    // Reads every note and canvas once and indexes what each references, from metadata
+    // (links, frontmatter) and raw text (canvas nodes, <img> tags, admonitions). Runs in
+    // the phases ./progress lists, each reporting its own progress.
+    private async buildReferenceIndex(options: ScanProgressOptions = {}): Promise<ReferenceIndex> {
+        const sources = this.app.vault.getFiles().filter(file => this.isSource(file.path));
+        const refs = new Map<string, Reference[]>(sources.map(file => [file.path, []]));
+        const phaseOf = (extractor: ReferenceExtractor, file: TFile) =>
+            METADATA_PHASES.find(([id]) => id === extractor.id)?.[1] ?? sourcePhase(file.extension);
+        const extractorsFor = (file: TFile, phase: ScanPhase) => this.extractors
+            .forExtension(file.extension, this.settings.disabledExtractors)
+            .filter(extractor => phaseOf(extractor, file) === phase);
+        const collect = (file: TFile, content: string, phase: ScanPhase) =>
+            refs.get(file.path)?.push(...this.extract(file, content, extractorsFor(file, phase)));
+
+        for (const [, phase] of METADATA_PHASES) {
+            const files = sources.filter(file => extractorsFor(file, phase).length > 0);
+            if (files.length === 0) continue;
+            throwIfCancelled(options.signal);
+            options.onProgress?.({ phase, done: 0, total: files.length });
+            for (const file of files) collect(file, '', phase);
+            options.onProgress?.({ phase, done: files.length, total: files.length });
+        }
+
+        for (const phase of ['canvases', 'bodies'] as const) {
+            const files = sources.filter(file => extractorsFor(file, phase).length > 0);
+            await this.forEachFileContent(files, (file, content) => {
+                collect(file, content, phase);
+            }, {
+                signal: options.signal,
+                onProgress: done => options.onProgress?.({ phase, done, total: files.length }),
+            });
+        }
+
+        const index = new ReferenceIndex();
+        for (const [path, found] of refs) index.setSource(path, this.withResolvedLinks(path, found));
+        this.indexOtherSources(index);
+        return index;
+    }
+
+    // File types Obsidian resolves links for but no extractor reads count through resolvedLinks.
+    private indexOtherSources(index: ReferenceIndex) {
+        for (const [source, targets] of Object.entries(this.app.metadataCache.resolvedLinks)) {
+            if (this.isSource(source) || isPluginNote(source, this.settings.reportFolder)) continue;
+            index.setSource(source, Object.keys(targets).map(target => ({ source, target, kind: 'link' as const })));
+        }
+    }
+
+    // True for files some registered extractor reads (enabled or not: Obsidian's resolved
+    // links from them still count), except the plugin's own report notes (see isPluginNote).
+    private isSource(path: string): boolean {
+        const name = path.slice(path.lastIndexOf('/') + 1);
+        const dot = name.lastIndexOf('.');
+        return dot > 0 && this.extractors.reads(name.slice(dot + 1)) && !isPluginNote(path, this.settings.reportFolder);
+    }
+
+    // Events only matter once there is an index to keep current, or one being built.
+    private get tracking(): boolean {
+        return this.index !== null || this.building !== null;
+    }
+
+    private markDirty(path: string) {
+        if (!this.tracking || !this.isSource(path)) return;
+        this.dirty.add(path);
+        this.scheduleUpdate();
+    }
+
+    private onCreate(file: TAbstractFile) {
+        if (!(file instanceof TFile) || !this.tracking) return;
+        if (this.isSource(file.path)) this.dirty.add(file.path);
+        else this.staleNames.add(file.name.toLowerCase());
+        this.scheduleUpdate();
+    }
+
+    private onDelete(file: TAbstractFile) {
+        if (!(file instanceof TFile) || !this.tracking) return;
+        if (this.isSource(file.path)) {
+            this.dirty.delete(file.path);
+            if (this.index) this.replaceSource(this.index, file.path);
+        } else {
+            this.stalePaths.add(file.path);
+        }
+        this.scheduleUpdate();
+    }
+
+    private onRename(file: TAbstractFile, oldPath: string) {
+        if (!(file instanceof TFile) || !this.tracking) return;
+        if (this.isSource(oldPath)) {
+            this.dirty.delete(oldPath);
+            if (this.index) this.replaceSource(this.index, oldPath);
+        } else {
+            this.stalePaths.add(oldPath);
+        }
+        this.onCreate(file);
+    }
+
+    private onResolved() {
+        if (!this.index) return;
+        this.indexOtherSources(this.index);
+        this.scheduleUpdate();
+    }
+
+    // Applies queued changes. Calls are chained so two never touch the index at once.
+    private update(): Promise<void> {
+        this.updates = this.updates.then(() => this.applyPending()).catch(error => {
+            console.error('Failed to update the reference index:', error);
+        });
+        return this.updates;
+    }
+
+    private async applyPending() {
+        const index = this.index;
+        if (!index) return;
+        if (this.dirty.size + this.stalePaths.size + this.staleNames.size + this.released.size === 0) return;
+
+        const files = [...this.dirty]
+            .map(path => this.app.vault.getAbstractFileByPath(path))
+            .filter((file): file is TFile => file instanceof TFile);
+        this.dirty.clear();
+        await this.forEachFileContent(files, (file, content) => {
+            this.replaceSource(index, file.path, this.referencesIn(file, content));
+        });
+
+        // An added, removed or renamed attachment can change what existing links resolve
+        // to: a shortest-form link may now match a different file, or none.
+        const { stalePaths, staleNames } = this;
+        this.stalePaths = new Set();
+        this.staleNames = new Set();
+        const affected = index.find(ref => ref.link !== undefined
+            && (stalePaths.has(ref.target) || staleNames.has(linkFileName(ref.link))));
+        for (const ref of affected) this.released.add(ref.target);
+        index.retarget(affected, ref => this.resolveTarget(ref.link ?? ref.target, ref.source));
+
+        if (index !== this.index) return; // invalidated meanwhile
+        const orphaned = [...this.released].filter(target => !index.isReferenced(target));
+        this.released.clear();
+        for (const listener of this.listeners) listener(orphaned);
+    }
+
+    // Replaces (or, without `refs`, removes) what `source` references, remembering what it
+    // referenced before in case that was the last reference to it.
+    private replaceSource(index: ReferenceIndex, source: string, refs?: Reference[]) {
+        for (const ref of index.getReferencesFrom(source)) this.released.add(ref.target);
+        if (refs) index.setSource(source, refs);
+        else index.removeSource(source);
+    }
+
+    // References to missing files of an enabled attachment type, by source then position,
+    // each with suggested replacements.
+    async findBrokenReferences(): Promise<BrokenReference[]> {
+        const { vault } = this.app;
+        const extensions = enabledExtensions(this.settings.categories);
+        const index = await this.getIndex();
+        const broken = index.find(ref =>
+            extensions.has(extensionOf(ref.target)) && !vault.getAbstractFileByPath(ref.target));
+        if (broken.length === 0) return [];
+
+        // Same-name matches may sit anywhere (even in excluded folders); similar names come
+        // only from orphans, which are the likely intended targets.
+        const files = vault.getFiles().filter(file => extensions.has(file.extension.toLowerCase())).map(file => file.path);
+        const orphans = (await this.getOrphanedImages()).map(file => file.path);
+        return broken
+            .sort((a, b) => a.source.localeCompare(b.source) || (a.line ?? -1) - (b.line ?? -1))
+            .map(ref => ({ ref, suggestions: suggestFixes(ref.target, files, orphans) }));
+    }
+
+    // Re-reads the vault's .orphanignore. Obsidian doesn't index dotfiles, so edits to it
+    // raise no events; scans call this first instead. Any scope rule with a problem (in
+    // settings or the file) gets a Notice, once.
+    async loadIgnoreFile(): Promise<void> {
+        const { adapter } = this.app.vault;
+        try {
+            const text = await adapter.exists(IGNORE_FILE) ? await adapter.read(IGNORE_FILE) : '';
+            this.ignoreRules = parseScopeRules(text, IGNORE_FILE);
+        } catch (error) {
+            console.error(`Failed to read ${IGNORE_FILE}:`, error);
+        }
+        const problems = describeRuleProblems(this.getScopeRules())
+            .filter(problem => !this.reportedRuleProblems.has(problem));
+        if (problems.length > 0) {
+            problems.forEach(problem => this.reportedRuleProblems.add(problem));
+            new Notice(`Scope rule problem:\n${problems.join('\n')}`);
+        }
+    }
+
+    // The scope rules in effect: those from settings, then .orphanignore (as of the last
+    // loadIgnoreFile), so the file can override settings.
+    getScopeRules(): ScopeRule[] {
+        return [...parseScopeRules(this.settings.scopeRules, 'settings'), ...this.ignoreRules];
+    }
+
+    // Attachments in scan scope: in an enabled category, inside the include/exclude folders,
+    // and not excluded by the scope rules.
+    getAttachmentFiles(scope: ScopeOverrides = {}): TFile[] {
+        return this.app.vault.getFiles().filter(this.scopeFilter(scope));
+    }
+
+    // True if `file` would be scanned at all.
+    isInScope(file: TFile): boolean {
+        return this.scopeFilter()(file);
+    }
+
+    private scopeFilter(scope: ScopeOverrides = {}): (file: TFile) => boolean {
+        const inScope = scopeFilter(this.settings, this.ignoreRules, scope);
+        return file => inScope(file.path);
+    }
+
+    // Groups of byte-identical attachments in scope, most wasted space first. Only files that
+    // share a size are read and hashed, one size group at a time to bound memory.
+    async findDuplicateImages(): Promise<TFile[][]> {
+        await this.loadIgnoreFile();
+        const groups: TFile[][] = [];
+        for (const sameSize of groupDuplicates(this.getAttachmentFiles(), file => String(file.stat.size))) {
+            const hashes = await Promise.all(sameSize.map(file => this.hashFile(file)));
+            groups.push(...groupDuplicates(sameSize, (_file, i) => hashes[i]));
+        }
+        return sortByWaste(groups);
+    }
 
-        return imageFiles.filter(image => !referenced.has(image.path));
+    // Incoming link count per target path, from Obsidian's resolved links.
+    getLinkCounts(): Map<string, number> {
+        const counts = new Map<string, number>();
+        for (const targets of Object.values(this.app.metadataCache.resolvedLinks)) {
+            for (const [targetPath, count] of Object.entries(targets)) {
+                counts.set(targetPath, (counts.get(targetPath) ?? 0) + count);
+            }
+        }
+        return counts;
     }
 
     // Drops any image whose filename still appears in a note or canvas — a conservative
     // backstop (case-insensitive substring, over-keeps) for references we can't parse.
     // Streams file-by-file against a shrinking candidate set, stopping once it empties.
-    async filterBySafetyScan(files: TFile[]): Promise<TFile[]> {
-        const { vault } = this.app;
-        const textFiles = vault.getFiles()
-            .filter(file => file.extension === 'md' || file.extension === 'canvas');
+    async filterBySafetyScan(files: TFile[], options: ScanProgressOptions = {}): Promise<TFile[]> {
+        const textFiles = this.app.vault.getFiles().filter(file => this.isSource(file.path));
 
         // Name -> images. Colliding names across folders keep every match (safe direction).
         const remaining = new Map<string, TFile[]>();
@@ -76,20 +429,28 @@ export class ReferenceScanner {
                 }
             }
             return remaining.size === 0; // nothing left to look for
+        }, {
+            signal: options.signal,
+            onProgress: done => options.onProgress?.({ phase: 'safety', done, total: textFiles.length }),
         });
 
         return files.filter(image => !keep.has(image));
     }
 
     // Reads files in parallel batches (bounded memory, overlapped I/O), calling `handle`
-    // on each. `handle` returning true stops early.
+    // on each. `handle` returning true stops early. `onProgress` hears how many files were
+    // read before each batch and once all are; an aborted `signal` throws ScanCancelledError
+    // before the next batch.
     private async forEachFileContent(
         files: TFile[],
         handle: (file: TFile, content: string) => boolean | void,
+        { signal, onProgress }: { signal?: AbortSignal; onProgress?: (done: number) => void } = {},
         batchSize = 50,
     ): Promise<void> {
         const { vault } = this.app;
         for (let i = 0; i < files.length; i += batchSize) {
+            throwIfCancelled(signal);
+            onProgress?.(i);
             const batch = files.slice(i, i + batchSize);
             const contents = await Promise.all(batch.map(file =>
                 vault.cachedRead(file).catch(error => {
@@ -102,76 +463,49 @@ export class ReferenceScanner {
                 if (handle(batch[j], content) === true) return;
             }
         }
+        if (files.length > 0) onProgress?.(files.length);
     }
 
-    // Canvas references: file nodes, group backgrounds, and embeds in text cards.
-    private async collectCanvasReferences(): Promise<Set<string>> {
-        const { vault } = this.app;
-        const canvasFiles = vault.getFiles().filter(file => file.extension === 'canvas');
-        const referenced = new Set<string>();
-
-        await this.forEachFileContent(canvasFiles, (canvasFile, raw) => {
-            let data: CanvasData;
-            try {
-                data = JSON.parse(raw);
-            } catch (error) {
-                // Malformed canvas: skip rather than risk a false "orphaned".
-                console.error(`Failed to parse canvas file ${canvasFile.path}:`, error);
-                return;
-            }
-
-            const nodes = Array.isArray(data?.nodes) ? data.nodes : [];
-            for (const node of nodes) {
-                if (node.type === 'file' && typeof node.file === 'string') {
-                    referenced.add(node.file); // already a full vault path
-                } else if (node.type === 'group' && typeof node.background === 'string') {
-                    this.addResolvedRef(referenced, node.background, canvasFile.path);
-                } else if (node.type === 'text' && typeof node.text === 'string') {
-                    for (const embed of extractEmbeds(node.text)) {
-                        this.addResolvedRef(referenced, embed, canvasFile.path);
-                    }
-                }
-            }
-        });
-
-        return referenced;
-    }
-
-    // Frontmatter wikilinks (e.g. `cover: "[[image.png]]"`), which live outside resolvedLinks.
-    private collectFrontmatterReferences(): Set<string> {
-        const { vault, metadataCache } = this.app;
-        const referenced = new Set<string>();
-
-        for (const file of vault.getMarkdownFiles()) {
-            const links = metadataCache.getFileCache(file)?.frontmatterLinks;
-            for (const link of links ?? []) {
-                this.addResolvedRef(referenced, link.link, file.path);
-            }
+    // SHA-256 of the file's bytes, or null if it can't be read (which keeps it out of any group).
+    private async hashFile(file: TFile): Promise<string | null> {
+        try {
+            const data = await this.app.vault.readBinary(file);
+            return arrayBufferToHex(await crypto.subtle.digest('SHA-256', data));
+        } catch (error) {
+            console.error(`Failed to hash ${file.path}:`, error);
+            return null;
         }
-
-        return referenced;
     }
 
-    // Raw note-text references Obsidian doesn't index: <img> tags and admonition embeds.
-    private async collectNoteBodyReferences(): Promise<Set<string>> {
-        const referenced = new Set<string>();
+    // Runs every enabled extractor for the file's type (see collectReferences).
+    private referencesIn(file: TFile, content: string): Reference[] {
+        const extractors = this.extractors.forExtension(file.extension, this.settings.disabledExtractors);
+        return this.withResolvedLinks(file.path, this.extract(file, content, extractors));
+    }
 
-        await this.forEachFileContent(this.app.vault.getMarkdownFiles(), (file, content) => {
-            for (const src of extractImgSrcs(content)) {
-                this.addResolvedRef(referenced, src, file.path);
-            }
-            for (const embed of extractAdmonitionEmbeds(content)) {
-                this.addResolvedRef(referenced, embed, file.path);
-            }
-        });
+    private extract(file: TFile, content: string, extractors: ReferenceExtractor[]): Reference[] {
+        return collectReferences(
+            extractors,
+            content,
+            { path: file.path, cache: this.app.metadataCache.getFileCache(file) },
+            (link, source) => this.resolveTarget(link, source),
+            (extractor, error) => console.error(`Reference extractor "${extractor.id}" failed on ${file.path}:`, error),
+        );
+    }
 
-        return referenced;
+    // Anything Obsidian resolved that the extractors missed still counts, so this never
+    // finds more orphans than resolvedLinks alone would.
+    private withResolvedLinks(source: string, refs: Reference[]): Reference[] {
+        const targets = new Set(refs.map(ref => ref.target));
+        for (const target of Object.keys(this.app.metadataCache.resolvedLinks[source] ?? {})) {
+            if (!targets.has(target)) refs.push({ source, target, kind: 'link' });
+        }
+        return refs;
     }
 
-    // Resolves a link/path against the vault (handling shortest-form links) and records it.
-    private addResolvedRef(set: Set<string>, linkText: string, sourcePath: string) {
+    // The vault path `linkText` resolves to from `sourcePath`, or its raw path if none.
+    resolveTarget(linkText: string, sourcePath: string): string {
         const { path } = parseLinktext(linkText);
-        const dest = this.app.metadataCache.getFirstLinkpathDest(path, sourcePath);
-        set.add(dest ? dest.path : path);
+        return this.app.metadataCache.getFirstLinkpathDest(path, sourcePath)?.path ?? path;
     }
 }
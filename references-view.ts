@@ -0,0 +1,135 @@
+import { ItemView, WorkspaceLeaf, TFile, setIcon } from 'obsidian';
+import type FindOrphanedImagesPlugin from './main';
+import { Reference, describeLocation, kindLabel } from './reference-index';
+
+export const REFERENCES_VIEW_TYPE = 'find-orphaned-images-references-view';
+
+// References pane: everything that references one attachment (the active file, or one
+// picked from the file menu), with the kind of reference and where it sits. Answers
+// "why isn't this listed as an orphan?".
+export class ReferencesView extends ItemView {
+    private plugin: FindOrphanedImagesPlugin;
+    private file: TFile | null = null;
+    private references: Reference[] = [];
+    private loading = false;
+    private generation = 0; // drops results from superseded lookups
+
+    constructor(leaf: WorkspaceLeaf, plugin: FindOrphanedImagesPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return REFERENCES_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Attachment references';
+    }
+
+    getIcon(): string {
+        return 'links-coming-in';
+    }
+
+    async onOpen() {
+        this.register(this.plugin.scanner.onChange(() => void this.refresh({ quiet: true })));
+        // Follow the active file, but only attachments: opening a note keeps the last one.
+        this.registerEvent(this.app.workspace.on('file-open', file => {
+            if (file && file.extension !== 'md' && file !== this.file) void this.setFile(file);
+        }));
+
+        const active = this.app.workspace.getActiveFile();
+        if (active && active.extension !== 'md') await this.setFile(active);
+        else this.render();
+    }
+
+    async setFile(file: TFile) {
+        this.file = file;
+        await this.refresh();
+    }
+
+    // `quiet` keeps the current list on screen while looking up (used for live updates);
+    // `rebuild` re-reads the whole vault instead of trusting the live index.
+    async refresh({ quiet = false, rebuild = false } = {}) {
+        const file = this.file;
+        if (!file) {
+            this.render();
+            return;
+        }
+
+        const generation = ++this.generation;
+        if (rebuild) this.plugin.scanner.invalidate();
+        if (!quiet) {
+            this.loading = true;
+            this.render();
+        }
+        let references: Reference[] = [];
+        try {
+            references = await this.plugin.scanner.getReferences(file.path);
+        } catch (error) {
+            console.error(`Failed to find references to ${file.path}:`, error);
+        }
+        if (generation !== this.generation) return;
+        this.references = references;
+        this.loading = false;
+        this.render();
+    }
+
+    private render() {
+        const root = this.contentEl;
+        root.empty();
+        root.addClass('orphaned-images-view');
+
+        const file = this.file;
+        if (!file) {
+            root.createEl('p', { cls: 'oiv-status', text: 'Open an attachment, or use "Show references" from its file menu.' });
+            return;
+        }
+
+        const header = root.createDiv({ cls: 'oiv-header' });
+        const summary = header.createDiv({ cls: 'oiv-summary oiv-path', text: file.path });
+        summary.setAttribute('title', file.path);
+        const actions = header.createDiv({ cls: 'oiv-actions' });
+        const rescan = actions.createEl('button', { cls: 'oiv-btn oiv-btn-icon' });
+        setIcon(rescan, 'refresh-cw');
+        rescan.setAttribute('aria-label', 'Rescan vault');
+        rescan.addEventListener('click', () => this.refresh({ rebuild: true }));
+
+        if (this.loading) {
+            root.createEl('p', { cls: 'oiv-status', text: 'Finding references…' });
+            return;
+        }
+
+        const inScope = this.plugin.scanner.isInScope(file);
+        if (!inScope) {
+            root.createEl('p', {
+                cls: 'oiv-status',
+                text: 'Not in scan scope: its type is switched off or its folder is excluded, so it is never listed as an orphan.',
+            });
+        }
+
+        if (this.references.length === 0) {
+            root.createEl('p', { cls: 'oiv-status', text: inScope ? 'No references found — this file is orphaned.' : 'No references found.' });
+            return;
+        }
+
+        const count = this.references.length;
+        header.createDiv({ cls: 'oiv-size', text: `${count} reference${count === 1 ? '' : 's'}` });
+
+        const list = root.createDiv({ cls: 'oiv-list' });
+        for (const ref of this.references) {
+            const item = list.createDiv({ cls: 'oiv-item oiv-ref' });
+            const meta = item.createDiv({ cls: 'oiv-meta' });
+            const sourceEl = meta.createDiv({ cls: 'oiv-path', text: ref.source });
+            sourceEl.setAttribute('title', ref.source);
+            sourceEl.addEventListener('click', () => this.openSource(ref));
+            meta.createDiv({ cls: 'oiv-size', text: `${kindLabel(ref)}${describeLocation(ref)}` });
+        }
+    }
+
+    private openSource(ref: Reference) {
+        const source = this.app.vault.getAbstractFileByPath(ref.source);
+        if (!(source instanceof TFile)) return;
+        void this.app.workspace.getLeaf(true).openFile(source, ref.line !== undefined ? { eState: { line: ref.line } } : {});
+    }
+}
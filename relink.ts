@@ -0,0 +1,95 @@
+import { maskCode } from './parsing';
+
+// Pure link rewriting for merging duplicates (no Obsidian dependency). `replace` receives a
+// raw link target (decoded, anchor included) and returns the new target, or null to leave
+// the link alone; the caller does the vault resolution.
+export type TargetReplacer = (target: string) => string | null;
+
+// Markdown link targets can't hold spaces or parentheses unencoded.
+export function encodeLinkTarget(target: string): string {
+    return encodeURI(target).replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+// Rewrites wikilinks and embeds ([[t]], ![[t|alias]]), markdown links and embeds
+// ([x](t), ![x](t)), and <img src="t"> targets outside code, as Obsidian would index them.
+// Aliases, titles, and everything else are kept byte-for-byte.
+export function rewriteLinks(text: string, replace: TargetReplacer): string {
+    let result = replaceOutsideCode(text, /(!?\[\[)([^\]|]+)((?:\|[^\]]*)?\]\])/g, (match, open, target, close) => {
+        const next = replace(target.trim());
+        return next === null ? match : `${open}${next}${close}`;
+    });
+    result = replaceOutsideCode(result, /(!?\[[^\]]*\]\()(<[^>]+>|[^)\s]+)((?:\s+"[^"]*")?\))/g, (match, open, raw, close) => {
+        const bracketed = raw.startsWith('<');
+        const target = bracketed ? raw.slice(1, -1) : raw;
+        if (/^[a-z][a-z0-9+.-]*:/i.test(target)) return match; // URL, not a vault path
+        const next = replace(safeDecode(target));
+        if (next === null) return match;
+        return `${open}${bracketed ? `<${next}>` : encodeLinkTarget(next)}${close}`;
+    });
+    return replaceOutsideCode(result, /(<img\b[^>]*\bsrc\s*=\s*)(["'])([^"']+)\2/gi, (match, open, quote, src) => {
+        if (/^[a-z][a-z0-9+.-]*:/i.test(src)) return match;
+        const next = replace(safeDecode(src).replace(/^\.?\//, ''));
+        return next === null ? match : `${open}${quote}${encodeLinkTarget(next)}${quote}`;
+    });
+}
+
+// `text.replace(pattern, replacer)`, except that matches overlapping fenced or inline code
+// are kept as they are.
+function replaceOutsideCode(text: string, pattern: RegExp, replacer: (match: string, ...groups: string[]) => string): string {
+    const masked = maskCode(text);
+    let result = '';
+    let last = 0;
+    for (const match of masked.matchAll(pattern)) {
+        const index = match.index ?? 0;
+        // Code is blanked in `masked`, so a match touching it differs from the original.
+        if (text.slice(index, index + match[0].length) !== match[0]) continue;
+        result += text.slice(last, index) + replacer(match[0], ...match.slice(1));
+        last = index + match[0].length;
+    }
+    return result + text.slice(last);
+}
+
+// Rewrites a canvas file: file nodes (literal vault paths, via `replacePath`), group
+// backgrounds, and links inside text cards (via `replaceLink`). Returns the new JSON, or
+// null if nothing changed or the canvas can't be parsed.
+export function rewriteCanvas(raw: string, replacePath: TargetReplacer, replaceLink: TargetReplacer): string | null {
+    let data: { nodes?: Record<string, unknown>[] };
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        return null;
+    }
+
+    let changed = false;
+    for (const node of Array.isArray(data?.nodes) ? data.nodes : []) {
+        if (node.type === 'file' && typeof node.file === 'string') {
+            const next = replacePath(node.file);
+            if (next !== null && next !== node.file) {
+                node.file = next;
+                changed = true;
+            }
+        } else if (node.type === 'group' && typeof node.background === 'string') {
+            const next = replaceLink(node.background);
+            if (next !== null && next !== node.background) {
+                node.background = next;
+                changed = true;
+            }
+        } else if (node.type === 'text' && typeof node.text === 'string') {
+            const next = rewriteLinks(node.text, replaceLink);
+            if (next !== node.text) {
+                node.text = next;
+                changed = true;
+            }
+        }
+    }
+
+    return changed ? JSON.stringify(data, null, '\t') : null;
+}
+
+function safeDecode(raw: string): string {
+    try {
+        return decodeURIComponent(raw);
+    } catch {
+        return raw;
+    }
+}
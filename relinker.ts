@@ -0,0 +1,78 @@
+import { App, TFile, parseLinktext } from 'obsidian';
+import { rewriteLinks, rewriteCanvas, TargetReplacer } from './relink';
+import type { Reference } from './reference-index';
+
+// Points every reference to a set of duplicate files at the copy being kept: wikilinks,
+// markdown links and embeds, <img> tags and frontmatter links in notes, plus canvas file
+// nodes, group backgrounds and text cards. Also repairs broken references. Text rewriting
+// lives in ./relink.
+export class Relinker {
+    constructor(private app: App) {}
+
+    // Returns how many files changed and the paths of any that couldn't be updated.
+    async relink(duplicates: TFile[], keeper: TFile): Promise<{ changed: number; failed: string[] }> {
+        const { vault, metadataCache } = this.app;
+        const targets = new Set(duplicates.map(file => file.path));
+        // Cheap pre-filter: a file can only link to a duplicate if it mentions its name.
+        const needles = duplicates.flatMap(file => [file.name.toLowerCase(), encodeURI(file.name).toLowerCase()]);
+
+        let changed = 0;
+        const failed: string[] = [];
+
+        const sources = vault.getFiles().filter(file => file.extension === 'md' || file.extension === 'canvas');
+        for (const source of sources) {
+            // Link text for the keeper as written from this note (shortest unambiguous form).
+            const keeperLink = metadataCache.fileToLinktext(keeper, source.path, false);
+            const replaceLink = (target: string): string | null => {
+                const { path, subpath } = parseLinktext(target);
+                const dest = metadataCache.getFirstLinkpathDest(path, source.path);
+                return dest && targets.has(dest.path) ? keeperLink + subpath : null;
+            };
+            const replacePath = (path: string) => (targets.has(path) ? keeper.path : null);
+
+            try {
+                const content = await vault.cachedRead(source);
+                const haystack = content.toLowerCase();
+                if (!needles.some(needle => haystack.includes(needle))) continue;
+
+                if (await this.rewrite(source, replacePath, replaceLink)) changed++;
+            } catch (error) {
+                console.error(`Failed to relink references in ${source.path}:`, error);
+                failed.push(source.path);
+            }
+        }
+
+        return { changed, failed };
+    }
+
+    // Points the broken reference `ref` (and any identical broken link in the same file) at
+    // `replacement`. Links that resolve are never touched. True if the file changed.
+    async fixReference(ref: Reference, replacement: TFile): Promise<boolean> {
+        const { vault, metadataCache } = this.app;
+        const source = vault.getAbstractFileByPath(ref.source);
+        if (!(source instanceof TFile)) throw new Error(`${ref.source} no longer exists`);
+
+        const brokenPath = parseLinktext(ref.link ?? ref.target).path;
+        const newLink = metadataCache.fileToLinktext(replacement, source.path, false);
+        const replaceLink = (target: string): string | null => {
+            const { path, subpath } = parseLinktext(target);
+            if (path !== brokenPath || metadataCache.getFirstLinkpathDest(path, source.path)) return null;
+            return newLink + subpath;
+        };
+        const replacePath = (path: string) => (path === ref.target ? replacement.path : null);
+
+        return this.rewrite(source, replacePath, replaceLink);
+    }
+
+    private async rewrite(source: TFile, replacePath: TargetReplacer, replaceLink: TargetReplacer): Promise<boolean> {
+        let modified = false;
+        await this.app.vault.process(source, data => {
+            const next = source.extension === 'canvas'
+                ? rewriteCanvas(data, replacePath, replaceLink) ?? data
+                : rewriteLinks(data, replaceLink);
+            modified = next !== data;
+            return next;
+        });
+        return modified;
+    }
+}
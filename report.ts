@@ -1,35 +1,146 @@
 import type { TFile } from 'obsidian';
+import type { AttachmentCategory, SnapshotFile } from './types';
 import { formatBytes, totalSize } from './utils';
+import { categoryFor } from './categories';
+import { ScanDiff, dateStamp } from './history';
 
-// Report body: summary line, then images grouped by folder with sizes. Uses wikilinks
-// (![[ ]] / [[ ]]) so special chars in filenames resolve without URL-encoding. Pure.
-export function buildReport(images: TFile[], embedImages: boolean): string {
-    const byFolder = new Map<string, TFile[]>();
-    for (const image of images) {
-        const folder = image.parent?.path ?? '/';
-        const bucket = byFolder.get(folder);
-        if (bucket) bucket.push(image);
-        else byFolder.set(folder, [image]);
+// Base name of the orphan report note; dated reports add the day (see reportFileName).
+export const REPORT_NAME = 'Orphaned Attachments Report';
+
+// "Orphaned Attachments Report.md", or with `dated` one note per day:
+// "Orphaned Attachments Report 2026-10-19.md".
+export function reportFileName(dated: boolean, timestamp: number): string {
+    return dated ? `${REPORT_NAME} ${dateStamp(timestamp)}.md` : `${REPORT_NAME}.md`;
+}
+
+// What the report note was called before it covered every attachment type. Vaults that
+// upgraded may still hold one.
+const LEGACY_REPORT_FILE = 'orphaned images report.md';
+
+// Base name of the broken references note (see ./broken), written next to the report.
+export const BROKEN_REPORT_NAME = 'Broken Attachment References';
+
+// True for an orphan report note (dated or not, or under its legacy name) in
+// `reportFolder`. Reports link every orphan they list, so they must not count as
+// references to them.
+export function isReportNote(path: string, reportFolder: string): boolean {
+    const name = nameInFolder(path, reportFolder);
+    if (name === null) return false;
+    return name.toLowerCase() === LEGACY_REPORT_FILE || /^Orphaned Attachments Report( \d{4}-\d{2}-\d{2})?\.md$/i.test(name);
+}
+
+// True for any note the plugin writes to `reportFolder`: the orphan reports and the broken
+// references note, whose suggested paths would otherwise keep those orphans.
+export function isPluginNote(path: string, reportFolder: string): boolean {
+    return isReportNote(path, reportFolder)
+        || nameInFolder(path, reportFolder)?.toLowerCase() === `${BROKEN_REPORT_NAME.toLowerCase()}.md`;
+}
+
+// The file name of `path` if it sits directly in `folder` (any case), else null.
+function nameInFolder(path: string, folder: string): string | null {
+    const normalized = folder.trim().replace(/^\/+|\/+$/g, '').toLowerCase();
+    const slash = path.lastIndexOf('/');
+    if ((slash === -1 ? '' : path.slice(0, slash).toLowerCase()) !== normalized) return null;
+    return path.slice(slash + 1);
+}
+
+// Changes since the previous report, for the sections above the listing.
+export interface ReportHistory {
+    since: number; // timestamp of the previous report
+    diff: ScanDiff;
+    trend: string; // from trendLine; may be ''
+}
+
+// Report body: summary line, then files grouped by category and folder with sizes, as a
+// task list whose checked items "Process report note" deletes (see checkedReportItems). Uses
+// wikilinks (![[ ]] / [[ ]]) so special chars in filenames resolve without URL-encoding.
+// `filters` are the phrases from describeFilters (./filters), stated under the summary;
+// `history` adds new/resolved/still-orphaned sections and the trend. Pure.
+export function buildReport(
+    files: TFile[],
+    embedFiles: boolean,
+    categories: readonly AttachmentCategory[],
+    filters: readonly string[] = [],
+    history: ReportHistory | null = null,
+): string {
+    // Category order follows settings; files outside every enabled category go last.
+    const byCategory = new Map<string, { name: string; files: TFile[] }>();
+    for (const category of categories) byCategory.set(category.id, { name: category.name, files: [] });
+    for (const file of files) {
+        const category = categoryFor(file.extension, categories);
+        const id = category?.id ?? '';
+        const bucket = byCategory.get(id);
+        if (bucket) bucket.files.push(file);
+        else byCategory.set(id, { name: 'Other', files: [file] });
     }
-    const folders = [...byFolder.keys()].sort((a, b) => a.localeCompare(b));
 
-    const total = formatBytes(totalSize(images));
+    const total = formatBytes(totalSize(files));
     const lines = [
-        '# Orphaned Images',
+        '# Orphaned Attachments',
         '',
-        `These ${images.length} image${images.length === 1 ? ' is' : 's are'} not linked in any note — ${total} reclaimable.`,
+        `These ${files.length} file${files.length === 1 ? ' is' : 's are'} not linked in any note — ${total} reclaimable.`,
     ];
+    if (filters.length > 0) lines.push('', `Filtered to files ${filters.join(', ')}.`);
+    if (files.length > 0) lines.push('', 'Check the files to delete, then run the "Process report note" command.');
+    if (history) lines.push(...historySections(history, embedFiles));
 
-    for (const folder of folders) {
-        const bucket = byFolder.get(folder)!;
-        const label = folder === '/' ? '(vault root)' : folder;
-        const folderSize = formatBytes(totalSize(bucket));
-        lines.push('', `## ${label} — ${bucket.length} image${bucket.length === 1 ? '' : 's'}, ${folderSize}`, '');
-        for (const image of bucket) {
-            const link = embedImages ? `![[${image.path}]]` : `[[${image.path}]]`;
-            lines.push(`- ${link} — ${formatBytes(image.stat.size)}`);
+    for (const { name, files: bucket } of byCategory.values()) {
+        if (bucket.length === 0) continue;
+        lines.push('', `## ${name} — ${fileCount(bucket.length)}, ${formatBytes(totalSize(bucket))}`);
+
+        const byFolder = new Map<string, TFile[]>();
+        for (const file of bucket) {
+            const folder = file.parent?.path ?? '/';
+            const folderBucket = byFolder.get(folder);
+            if (folderBucket) folderBucket.push(file);
+            else byFolder.set(folder, [file]);
+        }
+        const folders = [...byFolder.keys()].sort((a, b) => a.localeCompare(b));
+
+        for (const folder of folders) {
+            const folderFiles = byFolder.get(folder)!;
+            const label = folder === '/' ? '(vault root)' : folder;
+            lines.push('', `### ${label} — ${fileCount(folderFiles.length)}, ${formatBytes(totalSize(folderFiles))}`, '');
+            for (const file of folderFiles) {
+                const link = embedFiles ? `![[${file.path}]]` : `[[${file.path}]]`;
+                lines.push(`- [ ] ${link} — ${formatBytes(file.stat.size)}`);
+            }
         }
     }
 
     return lines.join('\n');
 }
+
+// New files follow the embed option; still-orphaned ones are plain links, as the listing below
+// shows them again; resolved ones are code spans, since they may no longer exist.
+function historySections({ since, diff, trend }: ReportHistory, embedFiles: boolean): string[] {
+    const lines = ['', `## Since the last scan (${dateStamp(since)})`];
+    if (trend) lines.push('', `Trend: ${trend}`);
+    const sections: [string, SnapshotFile[], (path: string) => string][] = [
+        ['New since last scan', diff.added, path => embedFiles ? `![[${path}]]` : `[[${path}]]`],
+        ['Resolved since last scan', diff.resolved, path => `\`${path}\``],
+        ['Still orphaned', diff.still, path => `[[${path}]]`],
+    ];
+    for (const [title, entries, format] of sections) {
+        const bytes = entries.reduce((sum, file) => sum + file.size, 0);
+        lines.push('', `### ${title} — ${fileCount(entries.length)}, ${formatBytes(bytes)}`, '');
+        if (entries.length === 0) lines.push('None.');
+        for (const file of entries) lines.push(`- ${format(file.path)} — ${formatBytes(file.size)}`);
+    }
+    return lines;
+}
+
+// Vault paths of the checked task items in a report note, in order. Only the listing's items
+// are tasks; the history sections are plain lists.
+export function checkedReportItems(content: string): string[] {
+    const paths: string[] = [];
+    for (const match of content.matchAll(/^[ \t]*[-*+] \[[xX]\] !?\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/gm)) {
+        const path = match[1].trim();
+        if (!paths.includes(path)) paths.push(path);
+    }
+    return paths;
+}
+
+function fileCount(count: number): string {
+    return `${count} file${count === 1 ? '' : 's'}`;
+}
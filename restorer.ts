@@ -0,0 +1,112 @@
+import { App, normalizePath } from 'obsidian';
+import type { JournalFile, JournalRun, QuarantineEntry } from './types';
+import { Quarantine, ensureParentFolders } from './quarantine';
+
+// Where a journaled file can be restored from, or why it can't be.
+export interface RestoreStatus {
+    file: JournalFile;
+    source: string | null; // vault path to move back from; null = not restorable
+    reason: string; // shown to the user either way
+}
+
+// Undoes journaled cleanups. Files are restorable only while they are still in the vault's
+// own `.trash` folder or in quarantine; permanent deletes and the system trash are out of
+// reach, and the checks say so rather than failing silently.
+export class Restorer {
+    constructor(private app: App, private quarantine: Quarantine) {}
+
+    async check(run: JournalRun): Promise<RestoreStatus[]> {
+        const quarantined = new Set((await this.quarantine.list()).map(entry => entry.quarantinePath));
+        return Promise.all(run.files.map(file => this.checkFile(file, quarantined)));
+    }
+
+    // Moves every restorable file of `run` back, marking it 'restored' in place. The caller
+    // persists the journal afterwards. Quarantined files are restored as one batch, so the
+    // manifest is written once.
+    async restore(run: JournalRun): Promise<{ restored: JournalFile[]; skipped: RestoreStatus[] }> {
+        const statuses = await this.check(run);
+        const restored: JournalFile[] = [];
+        const skipped: RestoreStatus[] = [];
+        const entries = await this.quarantine.list();
+        const quarantined = new Map<QuarantineEntry, JournalFile>();
+
+        const succeeded = (file: JournalFile) => {
+            file.outcome = 'restored';
+            delete file.quarantinePath;
+            restored.push(file);
+        };
+        const failed = (file: JournalFile, error: unknown) => {
+            console.error(`Failed to restore ${file.path}:`, error);
+            skipped.push({ file, source: null, reason: `Restore failed: ${error instanceof Error ? error.message : error}` });
+        };
+
+        for (const status of statuses) {
+            const { file, source } = status;
+            if (!source) {
+                skipped.push(status);
+                continue;
+            }
+            if (file.outcome === 'quarantined') {
+                const entry = entries.find(e => e.quarantinePath === source);
+                if (entry) quarantined.set(entry, file);
+                else failed(file, new Error('No longer in the quarantine manifest.'));
+                continue;
+            }
+            try {
+                await ensureParentFolders(this.app.vault, file.path);
+                await this.app.vault.adapter.rename(source, file.path);
+                succeeded(file);
+            } catch (error) {
+                failed(file, error);
+            }
+        }
+
+        if (quarantined.size > 0) {
+            const result = await this.quarantine.restoreEntries([...quarantined.keys()]);
+            const errors = new Map(result.failed.map(({ entry, error }) => [entry, error]));
+            for (const [entry, file] of quarantined) {
+                if (errors.has(entry)) failed(file, errors.get(entry));
+                else succeeded(file);
+            }
+        }
+
+        return { restored, skipped };
+    }
+
+    private async checkFile(file: JournalFile, quarantined: Set<string>): Promise<RestoreStatus> {
+        const { adapter } = this.app.vault;
+
+        switch (file.outcome) {
+            case 'restored':
+                return { file, source: null, reason: 'Already restored.' };
+            case 'failed':
+                return { file, source: null, reason: 'Never removed: the cleanup failed for this file.' };
+            case 'deleted':
+                return { file, source: null, reason: 'Permanently deleted; it cannot be restored.' };
+        }
+
+        if (await adapter.exists(file.path)) {
+            return { file, source: null, reason: 'Another file now exists at the original path.' };
+        }
+
+        if (file.outcome === 'quarantined') {
+            if (file.quarantinePath && quarantined.has(file.quarantinePath) && await adapter.exists(file.quarantinePath)) {
+                return { file, source: file.quarantinePath, reason: `In quarantine at ${file.quarantinePath}.` };
+            }
+            return { file, source: null, reason: 'No longer in quarantine (purged, or restored another way).' };
+        }
+
+        // Obsidian's local trash flattens paths to `.trash/<name>`. A size match guards
+        // against a different file with the same name.
+        const candidate = normalizePath(`.trash/${file.path.split('/').pop()}`);
+        const stat = await adapter.stat(candidate);
+        if (stat && stat.type === 'file' && stat.size === file.size) {
+            return { file, source: candidate, reason: `In the vault's .trash folder.` };
+        }
+        return {
+            file,
+            source: null,
+            reason: 'Not in the vault\'s .trash folder. If it went to the system trash, restore it from there.',
+        };
+    }
+}
@@ -0,0 +1,229 @@
+// Pure helpers for the review panel (no Obsidian dependency): searching and sorting the
+// orphan list, grouping it into a folder tree, which rows of a virtualized list or grid are
+// on screen, and keyboard focus and range selection.
+
+// Anything shaped like a TFile, as far as the panel is concerned.
+interface ReviewFile {
+    path: string;
+    extension: string;
+    stat: { size: number; mtime: number; ctime: number };
+}
+
+export type SortKey = 'size' | 'path' | 'mtime' | 'ctime' | 'extension';
+
+// In the order the sort menu lists them.
+export const SORT_LABELS: Record<SortKey, string> = {
+    size: 'Size',
+    path: 'Name',
+    mtime: 'Modified',
+    ctime: 'Created',
+    extension: 'Type',
+};
+
+export function isSortKey(value: unknown): value is SortKey {
+    return typeof value === 'string' && value in SORT_LABELS;
+}
+
+// Each key in its natural order (largest, A–Z, newest, newest, A–Z), ties broken by path;
+// `reverse` flips it.
+export function sortFiles<T extends ReviewFile>(files: readonly T[], key: SortKey, reverse = false): T[] {
+    const byPath = (a: T, b: T) => a.path.localeCompare(b.path);
+    const compare: Record<SortKey, (a: T, b: T) => number> = {
+        size: (a, b) => b.stat.size - a.stat.size || byPath(a, b),
+        path: byPath,
+        mtime: (a, b) => b.stat.mtime - a.stat.mtime || byPath(a, b),
+        ctime: (a, b) => b.stat.ctime - a.stat.ctime || byPath(a, b),
+        extension: (a, b) => a.extension.toLowerCase().localeCompare(b.extension.toLowerCase()) || byPath(a, b),
+    };
+    const sorted = [...files].sort(compare[key]);
+    return reverse ? sorted.reverse() : sorted;
+}
+
+// What the panel's search bar narrows the list to. Empty fields match everything.
+export interface ReviewQuery {
+    search: string; // words that must all appear in the path, any case
+    folder: string; // a folder, including its subfolders; "/" is the vault root only
+    extension: string;
+}
+
+export const EMPTY_QUERY: ReviewQuery = { search: '', folder: '', extension: '' };
+
+export function isEmptyQuery(query: ReviewQuery): boolean {
+    return query.search.trim() === '' && query.folder === '' && query.extension === '';
+}
+
+export function matchesQuery(file: ReviewFile, query: ReviewQuery): boolean {
+    const path = file.path.toLowerCase();
+    if (query.extension && file.extension.toLowerCase() !== query.extension.toLowerCase()) return false;
+    if (query.folder === '/') {
+        if (path.includes('/')) return false;
+    } else if (query.folder) {
+        const folder = query.folder.toLowerCase();
+        if (!path.startsWith(`${folder}/`)) return false;
+    }
+    return query.search.toLowerCase().split(/\s+/).every(word => path.includes(word));
+}
+
+// The folders holding `files`, with every ancestor, sorted; "/" for the vault root.
+export function folderOptions(files: readonly ReviewFile[]): string[] {
+    const folders = new Set<string>();
+    for (const file of files) {
+        const parts = file.path.split('/').slice(0, -1);
+        if (parts.length === 0) folders.add('/');
+        for (let i = 1; i <= parts.length; i++) folders.add(parts.slice(0, i).join('/'));
+    }
+    return [...folders].sort((a, b) => a.localeCompare(b));
+}
+
+// Lowercased extensions of `files`, sorted.
+export function extensionOptions(files: readonly ReviewFile[]): string[] {
+    return [...new Set(files.map(file => file.extension.toLowerCase()))].sort();
+}
+
+// Rows [start, end) of a virtualized list that intersect the viewport, plus `overscan` rows
+// either side so fast scrolling doesn't show blanks. `scrollTop` is measured from the top
+// of the list and may be negative while the list is further down the page.
+export function visibleRange(
+    scrollTop: number,
+    viewportHeight: number,
+    rowHeight: number,
+    rowCount: number,
+    overscan = 4,
+): { start: number; end: number } {
+    if (rowCount === 0 || rowHeight <= 0) return { start: 0, end: 0 };
+    const first = Math.floor(Math.max(0, scrollTop) / rowHeight);
+    const last = Math.ceil(Math.max(0, scrollTop + viewportHeight) / rowHeight);
+    return {
+        start: Math.min(rowCount, Math.max(0, first - overscan)),
+        end: Math.min(rowCount, last + overscan),
+    };
+}
+
+// How many cells of `cellWidth` (with `gap` between them) fit in `width`; at least one.
+export function gridColumns(width: number, cellWidth: number, gap: number): number {
+    return Math.max(1, Math.floor((width + gap) / (cellWidth + gap)));
+}
+
+export type FocusMove = 'up' | 'down' | 'left' | 'right' | 'first' | 'last' | 'pageUp' | 'pageDown';
+
+// Where keyboard focus goes from `index` in a list of `count` items laid out in `columns`
+// (1 for a list, where left and right move like up and down). Without a current focus any
+// move lands on the first item, except 'last'. -1 when the list is empty.
+export function moveFocus(index: number, move: FocusMove, count: number, columns: number, pageRows = 1): number {
+    if (count === 0) return -1;
+    if (index < 0 || index >= count) return move === 'last' ? count - 1 : 0;
+    const steps: Record<FocusMove, number> = {
+        up: -columns,
+        down: columns,
+        left: -1,
+        right: 1,
+        first: -count,
+        last: count,
+        pageUp: -columns * Math.max(1, pageRows),
+        pageDown: columns * Math.max(1, pageRows),
+    };
+    return Math.min(count - 1, Math.max(0, index + steps[move]));
+}
+
+// Indices from `from` to `to`, inclusive, in either direction.
+export function rangeIndices(from: number, to: number): number[] {
+    const start = Math.min(from, to);
+    return Array.from({ length: Math.abs(to - from) + 1 }, (_, i) => start + i);
+}
+
+// `selected` with every one of `paths` toggled; selections outside `paths` are kept.
+export function invertSelection(selected: ReadonlySet<string>, paths: readonly string[]): Set<string> {
+    const next = new Set(selected);
+    for (const path of paths) {
+        if (selected.has(path)) next.delete(path);
+        else next.add(path);
+    }
+    return next;
+}
+
+// The folder holding `path`: '' for the vault root.
+export function folderOf(path: string): string {
+    const slash = path.lastIndexOf('/');
+    return slash === -1 ? '' : path.slice(0, slash);
+}
+
+// A folder of the review panel's tree: the files directly in it, in the order given, and
+// its subfolders. `count` and `size` cover everything under it.
+export interface FolderNode<T> {
+    path: string; // '' for the vault root
+    name: string;
+    folders: FolderNode<T>[];
+    files: T[];
+    count: number;
+    size: number;
+}
+
+// Groups `files` by folder. Subfolders are ordered largest first by `bySize`, else by
+// name; `reverse` flips that, as it does the files.
+export function buildFolderTree<T extends ReviewFile>(files: readonly T[], bySize: boolean, reverse = false): FolderNode<T> {
+    const node = (path: string): FolderNode<T> =>
+        ({ path, name: path.slice(path.lastIndexOf('/') + 1), folders: [], files: [], count: 0, size: 0 });
+    const root = node('');
+    const nodes = new Map<string, FolderNode<T>>([['', root]]);
+    for (const file of files) {
+        root.count++;
+        root.size += file.stat.size;
+        let parent = root;
+        const parts = file.path.split('/').slice(0, -1);
+        for (let i = 1; i <= parts.length; i++) {
+            const path = parts.slice(0, i).join('/');
+            let folder = nodes.get(path);
+            if (!folder) {
+                folder = node(path);
+                nodes.set(path, folder);
+                parent.folders.push(folder);
+            }
+            folder.count++;
+            folder.size += file.stat.size;
+            parent = folder;
+        }
+        parent.files.push(file);
+    }
+
+    const compare = (a: FolderNode<T>, b: FolderNode<T>) =>
+        (bySize ? b.size - a.size : 0) || a.name.localeCompare(b.name);
+    const sort = (folder: FolderNode<T>) => {
+        folder.folders.sort(compare);
+        if (reverse) folder.folders.reverse();
+        folder.folders.forEach(sort);
+    };
+    sort(root);
+    return root;
+}
+
+// One row of the tree as the panel lists it. The root itself has no row.
+export type TreeRow<T> = { folder: FolderNode<T>; depth: number } | { file: T; depth: number };
+
+// The rows of `root` top to bottom, subfolders before files, skipping the contents of
+// `collapsed` folders (by path).
+export function flattenTree<T>(root: FolderNode<T>, collapsed: ReadonlySet<string>): TreeRow<T>[] {
+    const rows: TreeRow<T>[] = [];
+    const visit = (node: FolderNode<T>, depth: number) => {
+        for (const folder of node.folders) {
+            rows.push({ folder, depth });
+            if (!collapsed.has(folder.path)) visit(folder, depth + 1);
+        }
+        for (const file of node.files) rows.push({ file, depth });
+    };
+    visit(root, 0);
+    return rows;
+}
+
+// Every file under `node`, however deep.
+export function filesUnder<T>(node: FolderNode<T>): T[] {
+    return [...node.files, ...node.folders.flatMap(folder => filesUnder(folder))];
+}
+
+export type Tristate = 'all' | 'some' | 'none';
+
+// How many of `paths` are selected, for a tri-state checkbox. An empty folder is 'none'.
+export function selectionState(paths: readonly string[], selected: ReadonlySet<string>): Tristate {
+    const count = paths.filter(path => selected.has(path)).length;
+    if (count === 0) return 'none';
+    return count === paths.length ? 'all' : 'some';
+}
@@ -0,0 +1,171 @@
+// Scan scope (no Obsidian dependency): attachment types, include/exclude folders, and
+// gitignore-style scope rules. Each rule is a glob that excludes matching attachments; a
+// leading "!" re-includes them. Rules are evaluated in order and the last one that matches
+// a path decides, so later lines override earlier ones.
+
+import { DEFAULT_SETTINGS, FindOrphanedImagesSettings } from './types';
+import { enabledExtensions, parseExtensions } from './categories';
+import { extensionOf, isInFolder, parseFolderList } from './utils';
+
+// Read from the vault root at scan time, after the rules in settings.
+export const IGNORE_FILE = '.orphanignore';
+
+// Per-call replacements for the scope settings, in the same text form (see ./api for the
+// public, list-based version). The quarantine folder and .orphanignore always apply.
+export interface ScopeOverrides {
+    extensions?: string[]; // instead of the enabled categories
+    includeFolders?: string;
+    excludeFolders?: string;
+    scopeRules?: string;
+}
+
+type ScopeSettings = Pick<FindOrphanedImagesSettings,
+    'categories' | 'includeFolders' | 'excludeFolders' | 'scopeRules' | 'quarantineFolder'>;
+
+// Whether a vault path is in scan scope: in an enabled category, inside the include/exclude
+// folders, outside the quarantine folder, and not excluded by the settings' scope rules
+// followed by `ignoreRules` (from .orphanignore).
+export function scopeFilter(
+    settings: ScopeSettings,
+    ignoreRules: readonly ScopeRule[],
+    overrides: ScopeOverrides = {},
+): (path: string) => boolean {
+    const extensions = overrides.extensions
+        ? new Set(overrides.extensions.flatMap(parseExtensions))
+        : enabledExtensions(settings.categories);
+
+    const includeFolders = parseFolderList(overrides.includeFolders ?? settings.includeFolders);
+    const excludeFolders = parseFolderList(overrides.excludeFolders ?? settings.excludeFolders);
+    // Quarantined files were already disposed of; never offer them again.
+    excludeFolders.push(...parseFolderList(settings.quarantineFolder || DEFAULT_SETTINGS.quarantineFolder));
+    const rules = [...parseScopeRules(overrides.scopeRules ?? settings.scopeRules, 'settings'), ...ignoreRules];
+
+    return path =>
+        extensions.has(extensionOf(path))
+        && (includeFolders.length === 0 || includeFolders.some(dir => isInFolder(path, dir)))
+        && !excludeFolders.some(dir => isInFolder(path, dir))
+        && !isExcludedByRules(path, rules);
+}
+
+export interface ScopeRule {
+    pattern: string; // as written, without the "!"
+    negate: boolean;
+    origin: string; // 'settings' or IGNORE_FILE
+    line: number; // 1-based, in its origin
+    regex: RegExp;
+    problem?: string; // why part of the pattern is matched literally (see describeRuleProblems)
+}
+
+// One rule per non-blank, non-comment line of `text`. "\#" and "\!" escape a leading
+// "#" or "!".
+export function parseScopeRules(text: string, origin: string): ScopeRule[] {
+    const rules: ScopeRule[] = [];
+    text.split(/\r?\n/).forEach((raw, i) => {
+        let pattern = raw.trim();
+        if (pattern === '' || pattern.startsWith('#')) return;
+        const negate = pattern.startsWith('!');
+        if (negate) pattern = pattern.slice(1);
+        else if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) pattern = pattern.slice(1);
+        if (pattern === '') return;
+        const { regex, problem } = translateGlob(pattern);
+        rules.push({ pattern, negate, origin, line: i + 1, regex, ...problem ? { problem } : {} });
+    });
+    return rules;
+}
+
+// "[z-a].png (.orphanignore, line 3): …" for each rule with a problem.
+export function describeRuleProblems(rules: readonly ScopeRule[]): string[] {
+    return rules
+        .filter(rule => rule.problem)
+        .map(rule => `${rule.negate ? '!' : ''}${rule.pattern} (${rule.origin}, line ${rule.line}): ${rule.problem}`);
+}
+
+// True if the last rule matching `path` excludes it; false if none matches or it negates.
+export function isExcludedByRules(path: string, rules: readonly ScopeRule[]): boolean {
+    for (let i = rules.length - 1; i >= 0; i--) {
+        if (rules[i].regex.test(path)) return !rules[i].negate;
+    }
+    return false;
+}
+
+// How many of `paths` each rule matches, whether or not a later rule overrides it.
+export function countRuleMatches(paths: readonly string[], rules: readonly ScopeRule[]): number[] {
+    return rules.map(rule => paths.filter(path => rule.regex.test(path)).length);
+}
+
+// Case-insensitive regex for a gitignore-style glob, matched against vault paths:
+//   `*` any run within a segment, `?` one character, `[abc]`/`[!abc]` a class,
+//   `**` any number of folders, a trailing "/" everything inside a folder.
+// A glob without a "/" (other than a trailing one) matches a name at any depth; one with a
+// "/" is anchored at the vault root. Matching a folder matches everything inside it.
+// A class no regex accepts, such as "[z-a]", is matched literally.
+export function globToRegExp(glob: string): RegExp {
+    return translateGlob(glob).regex;
+}
+
+function translateGlob(glob: string): { regex: RegExp; problem: string | null } {
+    let problem: string | null = null;
+    let pattern = glob.replace(/\/+$/, '');
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\/+/, '');
+
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            const atStart = i === 0 || pattern[i - 1] === '/';
+            const atEnd = i + 2 === pattern.length || pattern[i + 2] === '/';
+            i++;
+            if (atStart && pattern[i + 1] === '/') {
+                source += '(?:.*/)?'; // "**/": zero or more folders
+                i++;
+            } else if (atStart && atEnd) {
+                source += '.*';
+            } else {
+                source += '[^/]*'; // "a**b" is just a star
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[' && classEnd(pattern, i) !== -1) {
+            const end = classEnd(pattern, i);
+            const negate = pattern[i + 1] === '!';
+            const body = pattern.slice(i + (negate ? 2 : 1), end).replace(/[\\\]^]/g, '\\$&');
+            const cls = `[${negate ? '^' : ''}${body}]`;
+            if (isValidClass(cls)) {
+                source += cls;
+                i = end;
+            } else {
+                problem ??= `invalid character class "${pattern.slice(i, end + 1)}", matched literally`;
+                source += escapeRegExp(char);
+            }
+        } else if (char === '\\' && i + 1 < pattern.length) {
+            source += escapeRegExp(pattern[++i]);
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+
+    return { regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}(?:/.*)?$`, 'i'), problem };
+}
+
+// Index of the "]" closing the class opened at `start`, or -1. As in gitignore, a "]" first
+// in the class (after any "!") is a member, not the end.
+function classEnd(pattern: string, start: number): number {
+    const first = pattern[start + 1] === '!' ? start + 2 : start + 1;
+    return pattern.indexOf(']', first + 1);
+}
+
+function isValidClass(cls: string): boolean {
+    try {
+        new RegExp(cls);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -1,8 +1,23 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, PluginSettingTab, Setting, TFile, debounce } from 'obsidian';
 import type FindOrphanedImagesPlugin from './main';
+import { CandidateFilters, CustomPattern, DEFAULT_SETTINGS, DisposalMode } from './types';
+import { enabledExtensions, isBuiltInCategory, parseExtensions } from './categories';
+import { compilePattern, matchPattern, patternError } from './patterns';
+import { IGNORE_FILE, countRuleMatches } from './scope';
+import { dateStamp } from './history';
+import { KEEP_PROPERTY } from './keep';
+
+// Matches the pattern tester lists before summarising the rest.
+const TESTER_LIMIT = 20;
 
 export class FindOrphanedImagesSettingTab extends PluginSettingTab {
     plugin: FindOrphanedImagesPlugin;
+    // Pattern edits arrive per keystroke; re-index once typing pauses.
+    private patternsChanged = debounce(() => this.plugin.referenceSourcesChanged(), 1000, true);
+    private scopePreviewEl: HTMLElement | null = null;
+    private scopeRulesChanged = debounce(() => void this.previewScopeRules(), 300, true);
+    // Open review panels show the filters' candidates and inputs; typing waits for a pause.
+    private filtersChanged = debounce(() => this.plugin.refreshOrphanViews(), 500, true);
 
     constructor(app: App, plugin: FindOrphanedImagesPlugin) {
         super(app, plugin);
@@ -14,22 +29,15 @@ export class FindOrphanedImagesSettingTab extends PluginSettingTab {
 
         containerEl.empty();
 
-        new Setting(containerEl).setName('Scanning').setHeading();
+        new Setting(containerEl).setName('Attachment types').setHeading();
 
-        new Setting(containerEl)
-            .setName('Image extensions')
-            .setDesc('Comma-separated list of image extensions to look for.')
-            .addText(text => text
-                .setPlaceholder('Enter image extensions')
-                .setValue(this.plugin.settings.imageExtensions)
-                .onChange(async (value) => {
-                    this.plugin.settings.imageExtensions = value;
-                    await this.plugin.saveSettings();
-                }));
+        this.displayCategories(containerEl);
+
+        new Setting(containerEl).setName('Scanning').setHeading();
 
         new Setting(containerEl)
             .setName('Include folders')
-            .setDesc('One folder path per line. If set, only images inside these folders are scanned. Leave empty to scan the whole vault.')
+            .setDesc('One folder path per line. If set, only attachments inside these folders are scanned. Leave empty to scan the whole vault.')
             .addTextArea(text => text
                 .setPlaceholder('e.g. Attachments/Temp')
                 .setValue(this.plugin.settings.includeFolders)
@@ -40,33 +48,91 @@ export class FindOrphanedImagesSettingTab extends PluginSettingTab {
 
         new Setting(containerEl)
             .setName('Exclude folders')
-            .setDesc('One folder path per line. Images inside these folders are never reported or deleted. Takes precedence over Include folders.')
+            .setDesc('One folder path per line. Attachments inside these folders are never reported or deleted. Takes precedence over Include folders.')
             .addTextArea(text => text
                 .setPlaceholder('e.g. Assets/Keep')
                 .setValue(this.plugin.settings.excludeFolders)
                 .onChange(async (value) => {
                     this.plugin.settings.excludeFolders = value;
                     await this.plugin.saveSettings();
+                    this.scopeRulesChanged();
+                }));
+
+        new Setting(containerEl)
+            .setName('Scope rules')
+            .setDesc(`Glob rules, one per line, like a .gitignore: a matching rule excludes attachments, "!" brings them back, and the last matching rule wins. A rule without "/" matches a name in any folder; "**" matches any number of folders. Rules in ${IGNORE_FILE} at the vault root are read at scan time and apply after these.`)
+            .addTextArea(text => text
+                .setPlaceholder('e.g. **/Pasted image *.png\n!Assets/Logos/**')
+                .setValue(this.plugin.settings.scopeRules)
+                .onChange(async (value) => {
+                    this.plugin.settings.scopeRules = value;
+                    await this.plugin.saveSettings();
+                    this.scopeRulesChanged();
                 }));
+        this.scopePreviewEl = containerEl.createDiv({ cls: 'oiv-scope-preview' });
+        void this.previewScopeRules();
+
+        const kept = this.plugin.settings.keptFiles.length;
+        new Setting(containerEl)
+            .setName('Keep by sidecar note')
+            .setDesc(`Also keep an attachment when a note named after it (e.g. "logo.png.md" next to "logo.png") has "${KEEP_PROPERTY}: true" in its frontmatter. Kept files are never reported or deleted. ${kept} file${kept === 1 ? ' is' : 's are'} on the keep list; right-click a file in the review panel or the file explorer to keep it, and review kept files at the bottom of the panel.`)
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.keepSidecars)
+                .onChange(async (value) => {
+                    this.plugin.settings.keepSidecars = value;
+                    await this.plugin.saveSettings();
+                    this.plugin.refreshOrphanViews();
+                }));
+
+        new Setting(containerEl)
+            .setName('Reference sources')
+            .setDesc('Where the scanner looks for references. Switching a source off can make more attachments look orphaned; links Obsidian resolves itself always count.')
+            .setHeading();
+        this.displayExtractors(containerEl);
+
+        new Setting(containerEl)
+            .setName('Custom reference patterns')
+            .setDesc('Regular expressions for references no built-in source reads. The first capture group (or a group named "target") is the referenced file. Each pattern is tested live against the active note.')
+            .setHeading();
+        this.displayCustomPatterns(containerEl);
+
+        new Setting(containerEl)
+            .setName('Cleanup filters')
+            .setDesc('Limit reports, the review panel and bulk delete to orphans of a certain age or size. The panel has the same controls. 0 switches a filter off.')
+            .setHeading();
+        this.displayFilters(containerEl);
 
         new Setting(containerEl).setName('Report').setHeading();
 
         new Setting(containerEl)
             .setName('Report folder')
-            .setDesc('Folder for the generated "Orphaned Images Report" note. Created if it does not exist. Leave empty to save it in the vault root.')
+            .setDesc('Folder for the generated "Orphaned Attachments Report" note. Created if it does not exist. Leave empty to save it in the vault root.')
             .addText(text => text
                 .setPlaceholder('e.g. Reports')
                 .setValue(this.plugin.settings.reportFolder)
                 .onChange(async (value) => {
                     this.plugin.settings.reportFolder = value;
                     await this.plugin.saveSettings();
+                    this.plugin.scanner.invalidate(); // reports there no longer count as references
+                }));
+
+        new Setting(containerEl)
+            .setName('Dated reports')
+            .setDesc('Write each day\'s report to its own note, e.g. "Orphaned Attachments Report 2026-10-19", instead of overwriting a single note. Reports made on the same day update that day\'s note.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.datedReports)
+                .onChange(async (value) => {
+                    this.plugin.settings.datedReports = value;
+                    await this.plugin.saveSettings();
                 }));
 
+        this.displayHistory(containerEl);
+
         new Setting(containerEl).setName('Deletion').setHeading();
 
         new Setting(containerEl)
             .setName('Max delete count')
-            .setDesc('Maximum number of orphaned images to delete (-1 for no limit, 0 to disable deletion).')
+            .setDesc('Maximum number of orphaned attachments to delete (-1 for no limit, 0 to disable deletion).')
             .addText(text => text
                 .setPlaceholder('-1')
                 .setValue(this.plugin.settings.maxDeleteCount.toString())
@@ -78,18 +144,46 @@ export class FindOrphanedImagesSettingTab extends PluginSettingTab {
                 }));
 
         new Setting(containerEl)
-            .setName('Move to trash')
-            .setDesc('If enabled, orphaned images are moved to trash (using your configured deletion preference) instead of being permanently deleted.')
-            .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.moveToTrash)
+            .setName('Deleted attachments')
+            .setDesc('What happens to deleted attachments. Trash follows your "Deleted files" preference; quarantine moves them into a folder in the vault (keeping their folder structure) so they sync and can be restored from any device.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    trash: 'Move to trash',
+                    quarantine: 'Move to quarantine folder',
+                    delete: 'Delete permanently',
+                })
+                .setValue(this.plugin.settings.disposalMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.disposalMode = value as DisposalMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Quarantine folder')
+            .setDesc('Where quarantined files are moved, along with a manifest of their original paths. Files in this folder are never reported as orphaned.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.quarantineFolder)
+                .setValue(this.plugin.settings.quarantineFolder)
                 .onChange(async (value) => {
-                    this.plugin.settings.moveToTrash = value;
+                    this.plugin.settings.quarantineFolder = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Purge quarantine after (days)')
+            .setDesc('The "Purge old quarantined files" command permanently deletes quarantined files older than this.')
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_SETTINGS.quarantinePurgeDays))
+                .setValue(this.plugin.settings.quarantinePurgeDays.toString())
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    this.plugin.settings.quarantinePurgeDays = Number.isNaN(parsed) ? DEFAULT_SETTINGS.quarantinePurgeDays : Math.max(0, parsed);
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
             .setName('Safety scan before deleting')
-            .setDesc('Before deleting, skip any image whose filename still appears in a note or canvas. Guards against references this plugin cannot detect (raw HTML, other plugins, etc.). Recommended.')
+            .setDesc('Before deleting, skip any attachment whose filename still appears in a note or canvas. Guards against references this plugin cannot detect (raw HTML, other plugins, etc.). Recommended.')
             .addToggle(toggle => toggle
                 .setValue(this.plugin.settings.safetyTextScan)
                 .onChange(async (value) => {
@@ -97,6 +191,30 @@ export class FindOrphanedImagesSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl).setName('Notifications').setHeading();
+
+        new Setting(containerEl)
+            .setName('Notify when an attachment becomes orphaned')
+            .setDesc('When an edit, a deleted note or a canvas change removes the last reference to an attachment, offer to delete it, move it to quarantine, or keep it. Only attachments in scan scope are offered.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.orphanNotifications)
+                .onChange(async (value) => {
+                    this.plugin.settings.orphanNotifications = value;
+                    await this.plugin.saveSettings();
+                    if (value) void this.plugin.scanner.ensureIndex();
+                }));
+
+        new Setting(containerEl)
+            .setName('Folders without notifications')
+            .setDesc('One folder path per line. Attachments inside these folders are never offered for cleanup as they become orphaned, but still show up in scans.')
+            .addTextArea(text => text
+                .setPlaceholder('e.g. Drafts')
+                .setValue(this.plugin.settings.orphanNotificationExcludeFolders)
+                .onChange(async (value) => {
+                    this.plugin.settings.orphanNotificationExcludeFolders = value;
+                    await this.plugin.saveSettings();
+                }));
+
         new Setting(containerEl).setName('Appearance').setHeading();
 
         new Setting(containerEl)
@@ -118,4 +236,260 @@ export class FindOrphanedImagesSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
     }
+
+    // One toggle per registered extractor, built-in or from another plugin.
+    private displayExtractors(containerEl: HTMLElement) {
+        const { settings } = this.plugin;
+        for (const extractor of this.plugin.extractors.all()) {
+            const reads = extractor.extensions.length > 0
+                ? `Reads ${extractor.extensions.map(ext => `.${ext}`).join(', ')} files.`
+                : 'Reads no files yet.';
+            new Setting(containerEl)
+                .setName(extractor.name)
+                .setDesc(extractor.description ? `${extractor.description} ${reads}` : reads)
+                .addToggle(toggle => toggle
+                    .setValue(!settings.disabledExtractors.includes(extractor.id))
+                    .onChange(async (value) => {
+                        settings.disabledExtractors = settings.disabledExtractors.filter(id => id !== extractor.id);
+                        if (!value) settings.disabledExtractors.push(extractor.id);
+                        await this.plugin.saveSettings();
+                        this.plugin.referenceSourcesChanged();
+                    }));
+        }
+    }
+
+    private displayFilters(containerEl: HTMLElement) {
+        const { settings } = this.plugin;
+        const numberSetting = (name: string, desc: string, key: 'minAgeDays' | 'minSizeKB' | 'maxSizeKB') =>
+            new Setting(containerEl)
+                .setName(name)
+                .setDesc(desc)
+                .addText(text => text
+                    .setPlaceholder('0')
+                    .setValue(String(settings.candidateFilters[key]))
+                    .onChange(async (value) => {
+                        const parsed = parseFloat(value);
+                        settings.candidateFilters = { ...settings.candidateFilters, [key]: Number.isNaN(parsed) ? 0 : Math.max(0, parsed) };
+                        await this.plugin.saveSettings();
+                        this.filtersChanged();
+                    }));
+
+        numberSetting('Minimum age (days)', 'Only files older than this. Recently pasted images are often unlinked only because the note isn\'t written yet.', 'minAgeDays');
+
+        new Setting(containerEl)
+            .setName('Age based on')
+            .setDesc('Which timestamp the minimum age looks at.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({ mtime: 'Last modified', ctime: 'Created' })
+                .setValue(settings.candidateFilters.ageField)
+                .onChange(async (value) => {
+                    settings.candidateFilters = { ...settings.candidateFilters, ageField: value as CandidateFilters['ageField'] };
+                    await this.plugin.saveSettings();
+                    this.filtersChanged();
+                }));
+
+        numberSetting('Larger than (KB)', 'Only files larger than this.', 'minSizeKB');
+        numberSetting('Smaller than (KB)', 'Only files smaller than this.', 'maxSizeKB');
+    }
+
+    // How many reports the history holds, with a button to start over.
+    private displayHistory(containerEl: HTMLElement) {
+        const { history } = this.plugin;
+        new Setting(containerEl)
+            .setName('Report history')
+            .setDesc(history.length === 0
+                ? 'No reports yet. Each report records its orphans, so the next one can show what is new, what was resolved and the trend.'
+                : `${history.length} report${history.length === 1 ? '' : 's'} since ${dateStamp(history[0].timestamp)}. The next report shows what changed since the last one.`)
+            .addButton(button => button
+                .setButtonText('Clear history')
+                .setDisabled(history.length === 0)
+                .onClick(async () => {
+                    this.plugin.history = [];
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    // How many attachments each scope rule matches, and how many are in scope overall.
+    private async previewScopeRules() {
+        const { scanner, settings } = this.plugin;
+        await scanner.loadIgnoreFile();
+        const el = this.scopePreviewEl;
+        if (!el) return;
+
+        el.empty();
+        const extensions = enabledExtensions(settings.categories);
+        const paths = this.app.vault.getFiles()
+            .filter(file => extensions.has(file.extension.toLowerCase()))
+            .map(file => file.path);
+        const rules = scanner.getScopeRules();
+        const counts = countRuleMatches(paths, rules);
+
+        if (rules.length > 0) {
+            const list = el.createEl('ul');
+            rules.forEach((rule, i) => list.createEl('li', {
+                text: `${rule.negate ? '!' : ''}${rule.pattern} (${rule.origin}, line ${rule.line}): matches ${counts[i]} of ${paths.length} attachments`
+                    + (rule.problem ? ` (${rule.problem})` : ''),
+                cls: rule.problem ? 'oiv-scope-problem' : undefined,
+            }));
+        }
+        el.createDiv({ text: `${scanner.getAttachmentFiles().length} of ${paths.length} attachments in scope.` });
+    }
+
+    // One row per pattern (regex, extensions, how to resolve the capture), each followed by
+    // its tester output.
+    private displayCustomPatterns(containerEl: HTMLElement) {
+        const { customPatterns } = this.plugin.settings;
+
+        customPatterns.forEach((pattern, i) => {
+            const setting = new Setting(containerEl).setName(`Pattern ${i + 1}`);
+            const testerEl = containerEl.createDiv({ cls: 'oiv-pattern-test' });
+            const update = async () => {
+                setting.setDesc(patternError(pattern.pattern) ?? '');
+                await this.plugin.saveSettings();
+                this.patternsChanged();
+                await this.testPattern(pattern, testerEl);
+            };
+
+            setting
+                .addText(text => text
+                    .setPlaceholder('e.g. cover:\\s*(\\S+\\.png)')
+                    .setValue(pattern.pattern)
+                    .onChange(async (value) => {
+                        pattern.pattern = value;
+                        await update();
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Extensions, comma-separated')
+                    .setValue(pattern.extensions)
+                    .onChange(async (value) => {
+                        pattern.extensions = value;
+                        await update();
+                    }))
+                .addDropdown(dropdown => dropdown
+                    .addOption('link', 'Resolve as link')
+                    .addOption('path', 'Vault path')
+                    .setValue(pattern.resolveAs)
+                    .onChange(async (value) => {
+                        pattern.resolveAs = value as CustomPattern['resolveAs'];
+                        await update();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove pattern')
+                    .onClick(async () => {
+                        customPatterns.splice(customPatterns.indexOf(pattern), 1);
+                        await this.plugin.saveSettings();
+                        this.plugin.referenceSourcesChanged();
+                        this.display();
+                    }));
+
+            setting.setDesc(patternError(pattern.pattern) ?? '');
+            void this.testPattern(pattern, testerEl);
+        });
+
+        new Setting(containerEl)
+            .setDesc('"Resolve as link" finds the file the way Obsidian resolves [[links]]; "Vault path" takes the capture as a full path from the vault root.')
+            .addButton(button => button
+                .setButtonText('Add pattern')
+                .onClick(async () => {
+                    customPatterns.push({ pattern: '', extensions: 'md', resolveAs: 'link' });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    // Lists what `pattern` matches in the active note and where each match resolves.
+    private async testPattern(pattern: CustomPattern, el: HTMLElement) {
+        const file = this.app.workspace.getActiveFile();
+        const applies = file !== null && parseExtensions(pattern.extensions).includes(file.extension.toLowerCase());
+        const valid = patternError(pattern.pattern) === null;
+        // Read before emptying, so quick edits don't leave the output blank meanwhile.
+        const matches = file && applies && valid
+            ? matchPattern(compilePattern(pattern.pattern), await this.app.vault.cachedRead(file))
+            : [];
+
+        el.empty();
+        if (!valid) return;
+        if (!file) {
+            el.setText('Open a note to test this pattern against it.');
+            return;
+        }
+        if (!applies) {
+            el.setText(`Not applied to ${file.path}: .${file.extension} isn't in its extensions.`);
+            return;
+        }
+
+        el.createDiv({ text: `${matches.length} ${matches.length === 1 ? 'match' : 'matches'} in ${file.path}` });
+        const list = el.createEl('ul');
+        for (const { target, line } of matches.slice(0, TESTER_LIMIT)) {
+            const resolved = pattern.resolveAs === 'path' ? target : this.plugin.scanner.resolveTarget(target, file.path);
+            const exists = this.app.vault.getAbstractFileByPath(resolved) instanceof TFile;
+            list.createEl('li', {
+                text: `Line ${line + 1}: ${target} → ${exists ? resolved : 'no such file'}`,
+                cls: exists ? '' : 'oiv-pattern-missing',
+            });
+        }
+        if (matches.length > TESTER_LIMIT) el.createDiv({ text: `…and ${matches.length - TESTER_LIMIT} more` });
+    }
+
+    // One row per category: extensions and an on/off toggle. Custom categories can also be
+    // renamed and removed; built-ins can only be edited or switched off.
+    private displayCategories(containerEl: HTMLElement) {
+        const { categories } = this.plugin.settings;
+
+        for (const category of categories) {
+            const builtIn = isBuiltInCategory(category.id);
+            const setting = new Setting(containerEl)
+                .setName(builtIn ? category.name : '')
+                .setDesc(builtIn ? '' : 'Custom category');
+
+            if (!builtIn) {
+                setting.addText(text => text
+                    .setPlaceholder('Category name')
+                    .setValue(category.name)
+                    .onChange(async (value) => {
+                        category.name = value;
+                        await this.plugin.saveSettings();
+                    }));
+            }
+
+            setting
+                .addText(text => text
+                    .setPlaceholder('Extensions, comma-separated')
+                    .setValue(category.extensions)
+                    .onChange(async (value) => {
+                        category.extensions = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addToggle(toggle => toggle
+                    .setTooltip('Scan this category')
+                    .setValue(category.enabled)
+                    .onChange(async (value) => {
+                        category.enabled = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            if (!builtIn) {
+                setting.addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove category')
+                    .onClick(async () => {
+                        categories.splice(categories.indexOf(category), 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+            }
+        }
+
+        new Setting(containerEl)
+            .setDesc('Files are counted under the first enabled category that lists their extension.')
+            .addButton(button => button
+                .setButtonText('Add category')
+                .onClick(async () => {
+                    categories.push({ id: `custom-${Date.now().toString(36)}`, name: 'New category', extensions: '', enabled: true });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
 }
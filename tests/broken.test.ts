@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { buildBrokenReport, nameSimilarity, suggestFixes } from '../broken';
+import type { Reference } from '../reference-index';
+
+describe('suggestFixes', () => {
+    it('offers same-named files in other folders first', () => {
+        const files = ['assets/diagram.png', 'old/Diagram.PNG', 'assets/other.png'];
+        expect(suggestFixes('img/diagram.png', files, [])).toEqual([
+            { path: 'assets/diagram.png', reason: 'same-name' },
+            { path: 'old/Diagram.PNG', reason: 'same-name' },
+        ]);
+    });
+
+    it('then orphans with similar names, most similar first', () => {
+        const orphans = ['a/diagram-v2.png', 'a/diagram1.png', 'a/unrelated.jpg'];
+        expect(suggestFixes('diagram.png', orphans, orphans)).toEqual([
+            { path: 'a/diagram1.png', reason: 'similar-orphan' },
+            { path: 'a/diagram-v2.png', reason: 'similar-orphan' },
+        ]);
+    });
+
+    it('does not repeat a same-name match as a similar orphan', () => {
+        const orphans = ['b/photo.jpg'];
+        expect(suggestFixes('a/photo.jpg', orphans, orphans)).toEqual([{ path: 'b/photo.jpg', reason: 'same-name' }]);
+    });
+
+    it('caps the number of suggestions', () => {
+        const files = ['1/x.png', '2/x.png', '3/x.png', '4/x.png'];
+        expect(suggestFixes('x.png', files, [], 2)).toHaveLength(2);
+    });
+});
+
+describe('nameSimilarity', () => {
+    it('is 1 for names that differ only in case', () => {
+        expect(nameSimilarity('Photo', 'photo')).toBe(1);
+    });
+
+    it('drops with each edit', () => {
+        expect(nameSimilarity('photo', 'photos')).toBeCloseTo(5 / 6);
+        expect(nameSimilarity('abc', 'xyz')).toBe(0);
+    });
+});
+
+describe('buildBrokenReport', () => {
+    const ref = (source: string, link: string, line: number): Reference =>
+        ({ source, target: link, kind: 'link', link, line });
+
+    it('groups broken references by source with location and suggestions', () => {
+        const report = buildBrokenReport([
+            { ref: ref('b.md', 'gone.png', 4), suggestions: [] },
+            { ref: ref('a.md', 'diagram.png', 0), suggestions: [{ path: 'img/diagram.png', reason: 'same-name' }] },
+        ]);
+
+        expect(report).toContain('2 references in 2 files point at a missing file.');
+        expect(report.indexOf('## [[a.md]]')).toBeLessThan(report.indexOf('## [[b.md]]'));
+        expect(report).toContain('- `diagram.png` — Link or embed · line 1 — try `img/diagram.png` (same name, other folder)');
+        expect(report).toContain('- `gone.png` — Link or embed · line 5 — no suggestion');
+    });
+
+    it('never links to suggested files', () => {
+        const report = buildBrokenReport([
+            { ref: ref('a.md', 'x.png', 0), suggestions: [{ path: 'orphan/x1.png', reason: 'similar-orphan' }] },
+        ]);
+        expect(report).not.toContain('[[orphan/x1.png]]');
+    });
+
+    it('says so when nothing is broken', () => {
+        expect(buildBrokenReport([])).toContain('Every attachment reference points at a file that exists.');
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import type { AttachmentCategory } from '../types';
+import {
+    DEFAULT_CATEGORIES, isBuiltInCategory, parseExtensions, enabledExtensions, categoryFor, previewKind,
+} from '../categories';
+
+function category(id: string, extensions: string, enabled = true): AttachmentCategory {
+    return { id, name: id, extensions, enabled };
+}
+
+describe('DEFAULT_CATEGORIES', () => {
+    it('enables only images by default', () => {
+        expect(DEFAULT_CATEGORIES.filter(c => c.enabled).map(c => c.id)).toEqual(['images']);
+    });
+});
+
+describe('isBuiltInCategory', () => {
+    it('recognises built-in ids only', () => {
+        expect(isBuiltInCategory('pdf')).toBe(true);
+        expect(isBuiltInCategory('my-custom')).toBe(false);
+    });
+});
+
+describe('parseExtensions', () => {
+    it('splits, trims, lowercases and strips leading dots', () => {
+        expect(parseExtensions(' png, .JPG ,, gif')).toEqual(['png', 'jpg', 'gif']);
+    });
+
+    it('accepts whitespace as a separator', () => {
+        expect(parseExtensions('mp3 wav')).toEqual(['mp3', 'wav']);
+    });
+});
+
+describe('enabledExtensions', () => {
+    it('unions enabled categories and skips disabled ones', () => {
+        const extensions = enabledExtensions([category('a', 'png, jpg'), category('b', 'pdf', false), category('c', 'mp3')]);
+        expect([...extensions].sort()).toEqual(['jpg', 'mp3', 'png']);
+    });
+});
+
+describe('categoryFor', () => {
+    const categories = [category('off', 'png', false), category('images', 'png, jpg'), category('docs', 'pdf')];
+
+    it('returns the first enabled category with the extension', () => {
+        expect(categoryFor('PNG', categories)?.id).toBe('images');
+        expect(categoryFor('pdf', categories)?.id).toBe('docs');
+    });
+
+    it('returns null for unknown extensions', () => {
+        expect(categoryFor('zip', categories)).toBeNull();
+    });
+});
+
+describe('previewKind', () => {
+    it('classifies by extension', () => {
+        expect(previewKind('PNG')).toBe('image');
+        expect(previewKind('pdf')).toBe('pdf');
+        expect(previewKind('mp3')).toBe('audio');
+        expect(previewKind('mp4')).toBe('video');
+        expect(previewKind('docx')).toBe('other');
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { groupDuplicates, wastedBytes, sortByWaste, pickKeeper } from '../duplicates';
+
+function file(path: string, size: number, ctime = 0) {
+    return { path, stat: { size, ctime } };
+}
+
+describe('groupDuplicates', () => {
+    it('groups items sharing a key and drops singletons', () => {
+        const groups = groupDuplicates(['a1', 'b1', 'a2', 'c1'], item => item[0]);
+        expect(groups).toEqual([['a1', 'a2']]);
+    });
+
+    it('drops items with a null key', () => {
+        const groups = groupDuplicates(['a1', 'a2', 'a3'], (item, i) => (i === 1 ? null : 'a'));
+        expect(groups).toEqual([['a1', 'a3']]);
+    });
+
+    it('returns empty when nothing repeats', () => {
+        expect(groupDuplicates([1, 2, 3], String)).toEqual([]);
+    });
+});
+
+describe('wastedBytes', () => {
+    it('counts every copy but one', () => {
+        expect(wastedBytes([file('a', 100), file('b', 100), file('c', 100)])).toBe(200);
+    });
+
+    it('is zero for a single file', () => {
+        expect(wastedBytes([file('a', 100)])).toBe(0);
+    });
+});
+
+describe('sortByWaste', () => {
+    it('puts the most wasteful group first', () => {
+        const small = [file('s1', 10), file('s2', 10)];
+        const big = [file('b1', 50), file('b2', 50)];
+        expect(sortByWaste([small, big])).toEqual([big, small]);
+    });
+});
+
+describe('pickKeeper', () => {
+    it('prefers the most-linked copy', () => {
+        const group = [file('a/x.png', 1), file('b/x.png', 1)];
+        const links: Record<string, number> = { 'a/x.png': 1, 'b/x.png': 3 };
+        expect(pickKeeper(group, f => links[f.path]).path).toBe('b/x.png');
+    });
+
+    it('falls back to the oldest copy', () => {
+        const group = [file('a/x.png', 1, 20), file('b/x.png', 1, 10)];
+        expect(pickKeeper(group, () => 0).path).toBe('b/x.png');
+    });
+
+    it('then to the shortest path', () => {
+        const group = [file('deep/er/x.png', 1), file('a/x.png', 1)];
+        expect(pickKeeper(group, () => 0).path).toBe('a/x.png');
+    });
+});
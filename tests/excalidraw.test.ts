@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { extractExcalidrawLinks, isExcalidrawNote, locateEmbeddedFiles, parseDrawing } from '../excalidraw';
+import { decompressFromBase64 } from '../lzstring';
+
+// LZ-string compressToBase64 of DRAWING (generated with the reference lz-string encoder).
+const DRAWING = JSON.stringify({
+    type: 'excalidraw',
+    elements: [
+        { id: 'el1', type: 'image', fileId: 'f1', link: '[[diagrams/flow.png]]' },
+        { id: 'el2', type: 'rectangle', link: 'https://example.com' },
+        { id: 'el3', type: 'text', link: '[[old.png]]', isDeleted: true },
+    ],
+});
+const COMPRESSED = 'N4IgLgngDgpiBcIYA8DGBDANgSwCYCd0B3EAGiUxgFsYA7MAZwQG1Q8EKBGM8aORbFXQBzOOQBm2SgElcHcd3I5aAaw7NmubCMJUGAenGYA9kQB0UWsIC61kAF9SbOYhiYATD0iwO+GKjB0K0oeZTVEAAswMCgGeH19FHQqKEozVGMqBycQdldMAGYvPg4wFDBQ7FV1ZmNMXAsrWx5sBgARNxgylzB8AFcYe2t7IA===';
+
+function drawingNote(drawingBlock: string): string {
+    return [
+        '---',
+        'excalidraw-plugin: parsed',
+        '---',
+        '# Text Elements',
+        'Hello ^abc123',
+        '',
+        '%%',
+        '## Embedded files',
+        'a1b2c3d4: [[Pasted Image 1.png]]',
+        'e5f6a7b8: [[assets/photo.jpg|200]]',
+        'c9d0e1f2: [scan](scans/page%201.png)',
+        'deadbeef: https://example.com/remote.png',
+        'feedface: $$E=mc^2$$',
+        '',
+        '## Drawing',
+        drawingBlock,
+        '%%',
+    ].join('\n');
+}
+
+describe('decompressFromBase64', () => {
+    it('decodes LZ-string Base64', () => {
+        expect(decompressFromBase64('BYUwNmD2AEoTcpA=')).toBe('hello hello hello');
+        expect(decompressFromBase64('BYUwNmD2AEoTcq3FIA==')).toBe('hello hello hello hello');
+        expect(decompressFromBase64(COMPRESSED)).toBe(DRAWING);
+    });
+
+    it('rejects input outside the Base64 alphabet', () => {
+        expect(decompressFromBase64('not base64!')).toBeNull();
+        expect(decompressFromBase64('')).toBeNull();
+    });
+});
+
+describe('isExcalidrawNote', () => {
+    it('recognises drawings by extension or frontmatter', () => {
+        expect(isExcalidrawNote('Drawings/Flow.excalidraw.md', undefined)).toBe(true);
+        expect(isExcalidrawNote('Drawings/Flow.md', { 'excalidraw-plugin': 'parsed' })).toBe(true);
+        expect(isExcalidrawNote('Notes/Plain.md', { tags: ['x'] })).toBe(false);
+    });
+});
+
+describe('locateEmbeddedFiles', () => {
+    it('reads wiki and markdown entries with their lines, skipping URLs and formulas', () => {
+        expect(locateEmbeddedFiles(drawingNote(''))).toEqual([
+            { target: 'Pasted Image 1.png', line: 8 },
+            { target: 'assets/photo.jpg', line: 9 },
+            { target: 'scans/page 1.png', line: 10 },
+        ]);
+    });
+
+    it('stops at the next heading', () => {
+        const text = '## Embedded files\nid1: [[a.png]]\n## Drawing\nid2: [[b.png]]';
+        expect(locateEmbeddedFiles(text).map(link => link.target)).toEqual(['a.png']);
+    });
+
+    it('finds nothing without the section', () => {
+        expect(locateEmbeddedFiles('# Just a note\nid: [[a.png]]')).toEqual([]);
+    });
+});
+
+describe('parseDrawing', () => {
+    it('reads plain json blocks', () => {
+        expect(parseDrawing(drawingNote('```json\n' + DRAWING + '\n```'))).toEqual(JSON.parse(DRAWING));
+    });
+
+    it('reads compressed-json blocks, even when wrapped across lines', () => {
+        const wrapped = COMPRESSED.match(/.{1,64}/g)?.join('\n\n') ?? '';
+        expect(parseDrawing(drawingNote('```compressed-json\n' + wrapped + '\n```'))).toEqual(JSON.parse(DRAWING));
+    });
+
+    it('reads legacy .excalidraw files as JSON', () => {
+        expect(parseDrawing(DRAWING)).toEqual(JSON.parse(DRAWING));
+    });
+
+    it('returns null for unreadable drawings', () => {
+        expect(parseDrawing('```compressed-json\n@@@\n```')).toBeNull();
+        expect(parseDrawing('{ broken')).toBeNull();
+        expect(parseDrawing('# No drawing here')).toBeNull();
+    });
+});
+
+describe('extractExcalidrawLinks', () => {
+    it('combines embedded files and live element links', () => {
+        const links = extractExcalidrawLinks(drawingNote('```compressed-json\n' + COMPRESSED + '\n```'));
+        expect(links.map(link => link.target)).toEqual([
+            'Pasted Image 1.png',
+            'assets/photo.jpg',
+            'scans/page 1.png',
+            'diagrams/flow.png',
+        ]);
+        expect(links[3]).toEqual({ target: 'diagrams/flow.png', elementId: 'el1' });
+    });
+});
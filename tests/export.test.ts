@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import type { TFile } from 'obsidian';
+import { DEFAULT_SETTINGS } from '../types';
+import { buildCsvExport, buildJsonExport, csvField, ExportRun } from '../export';
+
+// Minimal TFile-shaped stub — the exports read path, name, extension, parent.path and stat.
+function file(path: string, size: number, mtime = 0, ctime = 0): TFile {
+    const slash = path.lastIndexOf('/');
+    const parent = slash === -1 ? null : { path: path.slice(0, slash) };
+    const name = path.slice(slash + 1);
+    const extension = path.slice(path.lastIndexOf('.') + 1);
+    return { path, name, extension, parent, stat: { size, mtime, ctime } } as unknown as TFile;
+}
+
+const run: ExportRun = {
+    scannedAt: Date.UTC(2024, 0, 2, 3, 4, 5),
+    pluginVersion: '1.3.0',
+    settings: { ...DEFAULT_SETTINGS, excludeFolders: 'Keep\nArchive/', scopeRules: '# drafts\n**/*.tmp.png\n!Keep/**' },
+};
+
+describe('buildJsonExport', () => {
+    it('includes run metadata and totals', () => {
+        const data = JSON.parse(buildJsonExport([file('a/x.png', 100), file('y.pdf', 50)], run));
+
+        expect(data.generator).toBe('find-orphaned-images 1.3.0');
+        expect(data.scannedAt).toBe('2024-01-02T03:04:05.000Z');
+        expect(data.totals).toEqual({ files: 2, bytes: 150 });
+        expect(data.settings.excludeFolders).toEqual(['keep', 'archive']); // normalized, as matched
+        expect(data.settings.scopeRules).toEqual(['**/*.tmp.png', '!Keep/**']);
+        expect(data.settings.categories.map((c: { id: string }) => c.id)).toEqual(['images']);
+    });
+
+    it('lists files sorted by path with folder, category and ISO dates', () => {
+        const data = JSON.parse(buildJsonExport([file('b.png', 1, 0, 0), file('a/x.pdf', 2, 86400000, 0)], run));
+
+        expect(data.files.map((f: { path: string }) => f.path)).toEqual(['a/x.pdf', 'b.png']);
+        expect(data.files[0]).toMatchObject({
+            folder: 'a',
+            name: 'x.pdf',
+            extension: 'pdf',
+            category: 'Other', // PDFs are off by default
+            size: 2,
+            mtime: '1970-01-02T00:00:00.000Z',
+        });
+        expect(data.files[1]).toMatchObject({ folder: '/', category: 'Images' });
+    });
+});
+
+describe('buildCsvExport', () => {
+    it('writes a header and one row per file', () => {
+        const lines = buildCsvExport([file('img/a.png', 10)], run).trimEnd().split('\n');
+
+        expect(lines[0]).toBe('path,folder,name,extension,category,size,mtime,ctime,scanned_at');
+        expect(lines[1]).toBe('img/a.png,img,a.png,png,Images,10,1970-01-01T00:00:00.000Z,1970-01-01T00:00:00.000Z,2024-01-02T03:04:05.000Z');
+    });
+
+    it('is just a header when nothing is orphaned', () => {
+        expect(buildCsvExport([], run)).toBe('path,folder,name,extension,category,size,mtime,ctime,scanned_at\n');
+    });
+});
+
+describe('csvField', () => {
+    it('quotes fields with commas, quotes or line breaks', () => {
+        expect(csvField('plain.png')).toBe('plain.png');
+        expect(csvField('a, b.png')).toBe('"a, b.png"');
+        expect(csvField('say "hi".png')).toBe('"say ""hi"".png"');
+        expect(csvField(42)).toBe('42');
+    });
+});
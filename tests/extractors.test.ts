@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import type { CachedMetadata } from 'obsidian';
+import {
+    ExtractorRegistry, ReferenceExtractor, BUILT_IN_EXTRACTORS,
+    linksExtractor, frontmatterExtractor, imgTagExtractor, admonitionExtractor, canvasExtractor,
+} from '../extractors';
+
+const noCache = { path: 'note.md', cache: null };
+
+function extractor(id: string, extensions: string[]): ReferenceExtractor {
+    return { id, name: id, extensions, extract: () => [] };
+}
+
+describe('built-in extractors', () => {
+    it('reads links and embeds from the metadata cache with their lines', () => {
+        const cache = {
+            links: [{ link: 'a.png', position: { start: { line: 2 } } }],
+            embeds: [{ link: 'b.png', position: { start: { line: 5 } } }],
+        } as unknown as CachedMetadata;
+
+        expect(linksExtractor.extract('', { path: 'note.md', cache })).toEqual([
+            { link: 'a.png', kind: 'link', line: 2 },
+            { link: 'b.png', kind: 'link', line: 5 },
+        ]);
+        expect(linksExtractor.extract('', noCache)).toEqual([]);
+    });
+
+    it('reads frontmatter links with their property', () => {
+        const cache = { frontmatterLinks: [{ link: 'cover.png', key: 'cover' }] } as unknown as CachedMetadata;
+        expect(frontmatterExtractor.extract('', { path: 'note.md', cache })).toEqual([
+            { link: 'cover.png', kind: 'frontmatter', key: 'cover' },
+        ]);
+    });
+
+    it('reads <img> tags and admonition embeds from raw text', () => {
+        const text = 'intro\n<img src="pics/a.png">\n```ad-note\n![[b.png]]\n```';
+        expect(imgTagExtractor.extract(text, noCache)).toEqual([{ link: 'pics/a.png', kind: 'img-tag', line: 1 }]);
+        expect(admonitionExtractor.extract(text, noCache)).toEqual([{ link: 'b.png', kind: 'admonition', line: 3 }]);
+    });
+
+    it('reads canvas file nodes as literal paths, and backgrounds and text-card embeds as links', () => {
+        const canvas = JSON.stringify({
+            nodes: [
+                { id: 'n1', type: 'file', file: 'assets/a.png' },
+                { id: 'n2', type: 'group', background: 'bg.png' },
+                { id: 'n3', type: 'text', text: 'see ![[c.png]]' },
+            ],
+        });
+        expect(canvasExtractor.extract(canvas, { path: 'board.canvas', cache: null })).toEqual([
+            { link: 'assets/a.png', kind: 'canvas-file', literal: true, nodeId: 'n1' },
+            { link: 'bg.png', kind: 'canvas-group', nodeId: 'n2' },
+            { link: 'c.png', kind: 'canvas-text', nodeId: 'n3' },
+        ]);
+    });
+
+    it('throws on a malformed canvas rather than returning a partial list', () => {
+        expect(() => canvasExtractor.extract('{ not json', { path: 'board.canvas', cache: null })).toThrow();
+    });
+
+    it('have unique ids', () => {
+        const ids = BUILT_IN_EXTRACTORS.map(e => e.id);
+        expect(new Set(ids).size).toBe(ids.length);
+    });
+});
+
+describe('ExtractorRegistry', () => {
+    it('finds extractors by extension, skipping disabled ones', () => {
+        const registry = new ExtractorRegistry();
+        registry.register(extractor('notes', ['md']));
+        registry.register(extractor('drawings', ['excalidraw', 'md']));
+
+        expect(registry.forExtension('MD').map(e => e.id)).toEqual(['notes', 'drawings']);
+        expect(registry.forExtension('md', ['notes']).map(e => e.id)).toEqual(['drawings']);
+        expect(registry.reads('excalidraw')).toBe(true);
+        expect(registry.reads('excalidraw', ['drawings'])).toBe(false);
+        expect(registry.reads('png')).toBe(false);
+    });
+
+    it('rejects duplicate ids', () => {
+        const registry = new ExtractorRegistry();
+        registry.register(extractor('x', ['md']));
+        expect(() => registry.register(extractor('x', ['md']))).toThrow(/already registered/);
+    });
+
+    it('unregisters, and reports both changes', () => {
+        const registry = new ExtractorRegistry();
+        let changes = 0;
+        registry.onChange(() => changes++);
+
+        const unregister = registry.register(extractor('x', ['md']));
+        unregister();
+        unregister(); // no-op the second time
+
+        expect(registry.all()).toEqual([]);
+        expect(changes).toBe(2);
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import type { CandidateFilters } from '../types';
+import { applyFilters, describeFilters, oldestFirst, passesFilters } from '../filters';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 5, 1);
+const NONE: CandidateFilters = { minAgeDays: 0, ageField: 'mtime', minSizeKB: 0, maxSizeKB: 0 };
+
+function file(path: string, sizeKB: number, ageDays: number, createdDays = ageDays) {
+    return { path, stat: { size: sizeKB * 1024, mtime: NOW - ageDays * DAY, ctime: NOW - createdDays * DAY } };
+}
+
+describe('passesFilters', () => {
+    it('passes everything when no filter is active', () => {
+        expect(passesFilters(file('a.png', 0, 0), NONE, NOW)).toBe(true);
+    });
+
+    it('keeps only files older than the minimum age, by the chosen timestamp', () => {
+        const pasted = file('new.png', 10, 0.01, 30); // just edited, created a month ago
+        expect(passesFilters(pasted, { ...NONE, minAgeDays: 7 }, NOW)).toBe(false);
+        expect(passesFilters(pasted, { ...NONE, minAgeDays: 7, ageField: 'ctime' }, NOW)).toBe(true);
+        expect(passesFilters(file('old.png', 10, 8), { ...NONE, minAgeDays: 7 }, NOW)).toBe(true);
+    });
+
+    it('bounds size from either side, exclusively', () => {
+        const filters = { ...NONE, minSizeKB: 100, maxSizeKB: 1000 };
+        expect(passesFilters(file('a.png', 100, 1), filters, NOW)).toBe(false);
+        expect(passesFilters(file('b.png', 500, 1), filters, NOW)).toBe(true);
+        expect(passesFilters(file('c.png', 1000, 1), filters, NOW)).toBe(false);
+    });
+});
+
+describe('applyFilters', () => {
+    it('keeps the order of the input', () => {
+        const files = [file('b.png', 50, 10), file('a.png', 5, 10), file('c.png', 60, 1)];
+        expect(applyFilters(files, { ...NONE, minAgeDays: 2, minSizeKB: 10 }, NOW).map(f => f.path)).toEqual(['b.png']);
+    });
+});
+
+describe('describeFilters', () => {
+    it('phrases each active filter', () => {
+        expect(describeFilters(NONE)).toEqual([]);
+        expect(describeFilters({ minAgeDays: 1, ageField: 'ctime', minSizeKB: 500, maxSizeKB: 2048 })).toEqual([
+            'created more than 1 day ago',
+            'larger than 500.0 KB',
+            'smaller than 2.0 MB',
+        ]);
+    });
+});
+
+describe('oldestFirst', () => {
+    it('sorts by the age field, then path', () => {
+        const files = [file('b.png', 1, 1), file('c.png', 1, 5, 0), file('a.png', 1, 1)];
+        expect(oldestFirst(files, 'mtime').map(f => f.path)).toEqual(['c.png', 'a.png', 'b.png']);
+        expect(oldestFirst(files, 'ctime').map(f => f.path)).toEqual(['a.png', 'b.png', 'c.png']);
+    });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { buildTextReport, diskFile, parseCliArgs, scanFiles, settingsFromData } from '../headless';
+import { DEFAULT_SETTINGS } from '../types';
+
+// An in-memory vault: path -> contents (attachments get placeholder bytes).
+function vault(contents: Record<string, string>) {
+    const files = Object.keys(contents).map(path => diskFile(path, { size: contents[path].length, mtime: 0, ctime: 0 }));
+    const read = (path: string) => {
+        if (!(path in contents)) throw new Error('missing');
+        return contents[path];
+    };
+    return { files, read };
+}
+
+describe('scanFiles', () => {
+    const { files, read } = vault({
+        'Notes/Trip.md': '---\ncover: "[[cover.jpg]]"\n---\n![[beach.png]]\n[map](../assets/My%20Map.png)\n`![[code.png]]`',
+        'Notes/beach.png': 'png',
+        'assets/cover.jpg': 'jpg',
+        'assets/My Map.png': 'png',
+        'assets/code.png': 'png',
+        'assets/unused.gif': 'gif',
+        'Pasted image 1.png': 'png',
+    });
+
+    it('finds attachments no note references', () => {
+        const scan = scanFiles(files, read, DEFAULT_SETTINGS);
+        expect(scan.orphans.map(f => f.path).sort()).toEqual(['Pasted image 1.png', 'assets/code.png', 'assets/unused.gif']);
+        expect(scan.attachments).toHaveLength(6);
+        expect(scan.sources).toBe(1);
+        expect(scan.errors).toEqual([]);
+    });
+
+    it('applies .orphanignore and scope overrides', () => {
+        const scan = scanFiles(files, read, DEFAULT_SETTINGS, {
+            ignoreFile: 'Pasted image *.png',
+            scope: { includeFolders: 'assets', extensions: ['png'] },
+        });
+        expect(scan.orphans.map(f => f.path)).toEqual(['assets/code.png']);
+    });
+
+    it('leaves out kept files, from the keep list or a sidecar note', () => {
+        const kept = vault({
+            'a.png': '', 'b.png': '', 'c.png': '',
+            'b.png.md': '---\nkeep: true\n---\n',
+            'c.png.md': '---\nkeep: no\n---\n',
+        });
+        const settings = { ...DEFAULT_SETTINGS, keptFiles: ['a.png'] };
+        expect(scanFiles(kept.files, kept.read, settings).orphans.map(f => f.path)).toEqual(['b.png', 'c.png']);
+        expect(scanFiles(kept.files, kept.read, { ...settings, keepSidecars: true }).orphans.map(f => f.path)).toEqual(['c.png']);
+    });
+
+    it('reports unreadable notes instead of failing', () => {
+        const broken = vault({ 'a.md': '', 'b.png': '' });
+        const scan = scanFiles(broken.files, () => { throw new Error('EACCES'); }, DEFAULT_SETTINGS);
+        expect(scan.errors).toEqual(['Could not read a.md: EACCES']);
+        expect(scan.orphans.map(f => f.path)).toEqual(['b.png']);
+    });
+});
+
+describe('buildTextReport', () => {
+    it('lists orphans sorted by path, or says there are none', () => {
+        const orphans = [diskFile('b.png', { size: 2048, mtime: 0, ctime: 0 }), diskFile('a/c.png', { size: 1024, mtime: 0, ctime: 0 })];
+        expect(buildTextReport({ attachments: orphans, orphans, sources: 0, errors: [] }, 'vault')).toBe(
+            '2 orphaned attachments in vault (3.0 KB):\n  a/c.png  1.0 KB\n  b.png  2.0 KB\n');
+        expect(buildTextReport({ attachments: orphans, orphans: [], sources: 0, errors: [] }, 'vault')).toBe(
+            'No orphaned attachments in vault (2 checked).\n');
+    });
+});
+
+describe('parseCliArgs', () => {
+    it('reads the vault and options, in both --flag value and --flag=value forms', () => {
+        expect(parseCliArgs(['my vault', '--format', 'csv', '--output=out.csv', '--include', 'assets', '--ext=png,jpg'])).toEqual({
+            vault: 'my vault',
+            format: 'csv',
+            output: 'out.csv',
+            scope: { includeFolders: 'assets', extensions: ['png,jpg'] },
+            help: false,
+        });
+    });
+
+    it('returns help without a vault', () => {
+        expect(parseCliArgs(['--help']).help).toBe(true);
+    });
+
+    it('rejects bad arguments with a message', () => {
+        expect(() => parseCliArgs([])).toThrow('Missing the vault folder');
+        expect(() => parseCliArgs(['a', 'b'])).toThrow('Only one vault folder');
+        expect(() => parseCliArgs(['v', '--format', 'xml'])).toThrow('Unknown format "xml"');
+        expect(() => parseCliArgs(['v', '--output'])).toThrow('--output needs a value');
+        expect(() => parseCliArgs(['v', '--verbose'])).toThrow('Unknown option --verbose');
+    });
+});
+
+describe('settingsFromData', () => {
+    it('fills in defaults and drops the journal', () => {
+        const settings = settingsFromData({ excludeFolders: 'Archive', journal: [{}] });
+        expect(settings.excludeFolders).toBe('Archive');
+        expect(settings.categories).toEqual(DEFAULT_SETTINGS.categories);
+        expect(settings).not.toHaveProperty('journal');
+        expect(settingsFromData(null)).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('migrates the pre-category image extension list', () => {
+        const settings = settingsFromData({ imageExtensions: 'png, heic' });
+        expect(settings.categories.find(c => c.id === 'images')?.extensions).toBe('png, heic');
+        expect(settings).not.toHaveProperty('imageExtensions');
+    });
+});
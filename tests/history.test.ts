@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import type { ScanSnapshot } from '../types';
+import { appendSnapshot, dateStamp, diffSnapshots, takeSnapshot, trendLine } from '../history';
+
+const file = (path: string, size: number) => ({ path, stat: { size } });
+
+function totals(timestamp: number, count: number, bytes: number): ScanSnapshot {
+    return { timestamp, count, bytes };
+}
+
+describe('takeSnapshot', () => {
+    it('records each file and the totals', () => {
+        expect(takeSnapshot([file('a.png', 10), file('b.png', 5)], 7)).toEqual({
+            timestamp: 7,
+            count: 2,
+            bytes: 15,
+            files: [{ path: 'a.png', size: 10 }, { path: 'b.png', size: 5 }],
+        });
+    });
+});
+
+describe('appendSnapshot', () => {
+    it('keeps the file list of the newest snapshot only', () => {
+        const first = takeSnapshot([file('a.png', 1)], 1);
+        const second = takeSnapshot([file('b.png', 2)], 2);
+        const history = appendSnapshot(appendSnapshot([], first), second);
+        expect(history).toEqual([totals(1, 1, 1), second]);
+        expect(first.files).toHaveLength(1); // the input isn't mutated
+    });
+
+    it('drops the oldest snapshots past the limit', () => {
+        let history: ScanSnapshot[] = [];
+        for (let i = 1; i <= 5; i++) history = appendSnapshot(history, totals(i, i, i), 3);
+        expect(history.map(snapshot => snapshot.timestamp)).toEqual([3, 4, 5]);
+    });
+});
+
+describe('diffSnapshots', () => {
+    it('splits files into added, resolved and still orphaned, sorted by path', () => {
+        const previous = takeSnapshot([file('kept.png', 1), file('gone.png', 2)], 1);
+        const current = takeSnapshot([file('z-new.png', 3), file('kept.png', 1), file('a-new.png', 4)], 2);
+        expect(diffSnapshots(previous, current)).toEqual({
+            added: [{ path: 'a-new.png', size: 4 }, { path: 'z-new.png', size: 3 }],
+            resolved: [{ path: 'gone.png', size: 2 }],
+            still: [{ path: 'kept.png', size: 1 }],
+        });
+    });
+
+    it('treats a snapshot without files as empty', () => {
+        const diff = diffSnapshots(totals(1, 3, 30), takeSnapshot([file('a.png', 1)], 2));
+        expect(diff.added).toHaveLength(1);
+        expect(diff.resolved).toEqual([]);
+    });
+});
+
+describe('trendLine', () => {
+    const day = (d: number) => new Date(2026, 9, d).getTime();
+
+    it('shows a sparkline of counts with the first and last totals', () => {
+        const history = [totals(day(1), 4, 4096), totals(day(5), 0, 0), totals(day(9), 8, 2048)];
+        expect(trendLine(history)).toBe('▅▁█ 3 scans since 2026-10-01: 4 → 8 orphans, 4.0 KB → 2.0 KB');
+    });
+
+    it('covers only the last points, and needs two scans', () => {
+        const history = [totals(day(1), 1, 1), totals(day(2), 2, 2), totals(day(3), 2, 2)];
+        expect(trendLine(history, 2)).toMatch(/^██ 2 scans since 2026-10-02/);
+        expect(trendLine(history.slice(0, 1))).toBe('');
+        expect(trendLine([totals(day(1), 0, 0), totals(day(2), 0, 0)])).toMatch(/^▁▁ /);
+    });
+});
+
+describe('dateStamp', () => {
+    it('formats the local date', () => {
+        expect(dateStamp(new Date(2026, 0, 5, 23, 59).getTime())).toBe('2026-01-05');
+    });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { readImageInfo } from '../image-info';
+
+const text = (s: string) => [...s].map(c => c.charCodeAt(0));
+const u16be = (n: number) => [n >> 8, n & 0xff];
+const u32be = (n: number) => [n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+const u16le = (n: number) => [n & 0xff, n >> 8];
+const u32le = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, n >>> 24];
+
+function pngChunk(type: string, data: number[]): number[] {
+    return [...u32be(data.length), ...text(type), ...data, 0, 0, 0, 0]; // CRC isn't checked
+}
+
+function png(...chunks: number[][]): Uint8Array {
+    const ihdr = pngChunk('IHDR', [...u32be(640), ...u32be(480), 8, 6, 0, 0, 0]);
+    return new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...ihdr, ...chunks.flat(), ...pngChunk('IEND', [])]);
+}
+
+// Little-endian TIFF with IFD0 (Make, Model, Orientation) pointing at an EXIF IFD
+// (ExposureTime, FNumber, ISO) and a GPS IFD.
+function exifTiff(): number[] {
+    const entry = (tag: number, type: number, count: number, value: number[]) =>
+        [...u16le(tag), ...u16le(type), ...u32le(count), ...value, ...Array(4 - value.length).fill(0)];
+    // Layout: header 8, IFD0 at 8 (5 entries), EXIF IFD, GPS IFD, then out-of-line data.
+    const ifd0Size = 2 + 5 * 12 + 4;
+    const exifAt = 8 + ifd0Size;
+    const exifSize = 2 + 3 * 12 + 4;
+    const gpsAt = exifAt + exifSize;
+    const gpsSize = 2 + 4 * 12 + 4;
+    const dataAt = gpsAt + gpsSize;
+    const make = [...text('Canon'), 0, 0, 0]; // 8 bytes with padding
+    const model = [...text('EOS R6'), 0, 0]; // 8 bytes
+    const rational = (n: number, d: number) => [...u32le(n), ...u32le(d)];
+    const extra = [
+        ...make, ...model,
+        ...rational(1, 250), ...rational(28, 10),
+        ...rational(48, 1), ...rational(51, 1), ...rational(30, 1),
+        ...rational(2, 1), ...rational(17, 1), ...rational(40, 1),
+    ];
+    const makeAt = dataAt, modelAt = dataAt + 8, exposureAt = dataAt + 16, fAt = dataAt + 24, latAt = dataAt + 32, lonAt = dataAt + 56;
+    return [
+        ...text('II'), ...u16le(42), ...u32le(8),
+        ...u16le(5),
+        ...entry(0x010f, 2, 6, u32le(makeAt)),
+        ...entry(0x0110, 2, 7, u32le(modelAt)),
+        ...entry(0x0112, 3, 1, u16le(6)),
+        ...entry(0x8769, 4, 1, u32le(exifAt)),
+        ...entry(0x8825, 4, 1, u32le(gpsAt)),
+        ...u32le(0),
+        ...u16le(3),
+        ...entry(0x829a, 5, 1, u32le(exposureAt)),
+        ...entry(0x829d, 5, 1, u32le(fAt)),
+        ...entry(0x8827, 3, 1, u16le(400)),
+        ...u32le(0),
+        ...u16le(4),
+        ...entry(1, 2, 2, text('N\0')),
+        ...entry(2, 5, 3, u32le(latAt)),
+        ...entry(3, 2, 2, text('W\0')),
+        ...entry(4, 5, 3, u32le(lonAt)),
+        ...u32le(0),
+        ...extra,
+    ];
+}
+
+function jpeg(...segments: number[][]): Uint8Array {
+    const sof = [0xff, 0xc0, ...u16be(17), 8, ...u16be(1080), ...u16be(1920), 3, ...Array(9).fill(0)];
+    return new Uint8Array([0xff, 0xd8, ...segments.flat(), ...sof, 0xff, 0xda, ...u16be(2), 0xff, 0xd9]);
+}
+
+function app1(tiff: number[]): number[] {
+    const data = [...text('Exif'), 0, 0, ...tiff];
+    return [0xff, 0xe1, ...u16be(data.length + 2), ...data];
+}
+
+describe('readImageInfo', () => {
+    it('reads PNG dimensions and text chunks', () => {
+        const info = readImageInfo(png(
+            pngChunk('tEXt', [...text('Software'), 0, ...text('Paint')]),
+            pngChunk('iTXt', [...text('Title'), 0, 0, 0, ...text('en'), 0, 0, ...text('Sunset')]),
+            pngChunk('zTXt', [...text('Comment'), 0, 0, 1, 2, 3]),
+        ));
+        expect(info.width).toBe(640);
+        expect(info.height).toBe(480);
+        expect(info.fields).toEqual([['Software', 'Paint'], ['Title', 'Sunset']]);
+    });
+
+    it('skips compressed iTXt chunks', () => {
+        const info = readImageInfo(png(pngChunk('iTXt', [...text('Title'), 0, 1, 0, 0, 0, 1, 2])));
+        expect(info.fields).toEqual([]);
+    });
+
+    it('reads JPEG dimensions from the frame header', () => {
+        const info = readImageInfo(jpeg());
+        expect(info).toEqual({ width: 1920, height: 1080, fields: [] });
+    });
+
+    it('reads EXIF tags from a JPEG', () => {
+        const info = readImageInfo(jpeg(app1(exifTiff())));
+        expect(info.width).toBe(1920);
+        expect(info.fields).toEqual([
+            ['Camera make', 'Canon'],
+            ['Camera model', 'EOS R6'],
+            ['Orientation', 'Rotated 90° clockwise'],
+            ['Exposure', '1/250 s'],
+            ['Aperture', 'f/2.8'],
+            ['ISO', '400'],
+            ['Location', '48.85833, -2.29444'],
+        ]);
+    });
+
+    it('reads EXIF from a PNG eXIf chunk', () => {
+        const info = readImageInfo(png(pngChunk('eXIf', exifTiff())));
+        expect(info.fields[0]).toEqual(['Camera make', 'Canon']);
+    });
+
+    it('reads GIF, BMP and WebP dimensions', () => {
+        expect(readImageInfo(new Uint8Array([...text('GIF89a'), ...u16le(32), ...u16le(16)])))
+            .toEqual({ width: 32, height: 16, fields: [] });
+
+        const bmp = new Uint8Array(26);
+        bmp.set(text('BM'));
+        bmp.set(u32le(100), 18);
+        bmp.set(u32le(-50 >>> 0), 22); // top-down
+        expect(readImageInfo(bmp)).toMatchObject({ width: 100, height: 50 });
+
+        const vp8x = new Uint8Array(30);
+        vp8x.set([...text('RIFF'), 0, 0, 0, 0, ...text('WEBP'), ...text('VP8X')]);
+        vp8x.set([0x1f, 0x03, 0x00], 24); // 800 - 1
+        vp8x.set([0x57, 0x02, 0x00], 27); // 600 - 1
+        expect(readImageInfo(vp8x)).toMatchObject({ width: 800, height: 600 });
+
+        const vp8l = new Uint8Array(25);
+        vp8l.set([...text('RIFF'), 0, 0, 0, 0, ...text('WEBP'), ...text('VP8L')]);
+        const bits = (100 - 1) | ((200 - 1) << 14);
+        vp8l.set(u32le(bits), 21);
+        expect(readImageInfo(vp8l)).toMatchObject({ width: 100, height: 200 });
+    });
+
+    it('returns what it found before the data ran out', () => {
+        const whole = png(pngChunk('tEXt', [...text('Author'), 0, ...text('Ann')]));
+        const info = readImageInfo(whole.subarray(0, 40));
+        expect(info.width).toBe(640);
+        expect(readImageInfo(jpeg(app1(exifTiff())).subarray(0, 30)).fields).toEqual([]);
+    });
+
+    it('returns nothing for unknown formats', () => {
+        expect(readImageInfo(new Uint8Array(text('<svg xmlns="http://www.w3.org/2000/svg"/>')))).toEqual({ fields: [] });
+        expect(readImageInfo(new ArrayBuffer(0))).toEqual({ fields: [] });
+    });
+
+    it('cuts long values', () => {
+        const info = readImageInfo(png(pngChunk('tEXt', [...text('XML'), 0, ...text('x'.repeat(500))])));
+        expect(info.fields[0][1]).toHaveLength(201);
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import type { JournalFile, JournalRun } from '../types';
+import { newRunId, outcomeFor, appendRun, summarizeRun, describeRun } from '../journal';
+
+function run(id: string, files: JournalFile[] = []): JournalRun {
+    return { id, timestamp: 0, mode: 'trash', files };
+}
+
+function file(path: string, size: number, outcome: JournalFile['outcome']): JournalFile {
+    return { path, size, outcome };
+}
+
+describe('newRunId', () => {
+    it('starts with the base-36 timestamp', () => {
+        expect(newRunId(1000)).toMatch(/^rs-[a-z0-9]+$/);
+    });
+
+    it('differs between calls at the same time', () => {
+        expect(newRunId(1000)).not.toBe(newRunId(1000));
+    });
+});
+
+describe('outcomeFor', () => {
+    it('maps each disposal mode to its outcome', () => {
+        expect(outcomeFor('trash')).toBe('trashed');
+        expect(outcomeFor('delete')).toBe('deleted');
+        expect(outcomeFor('quarantine')).toBe('quarantined');
+    });
+});
+
+describe('appendRun', () => {
+    it('appends without mutating the input', () => {
+        const journal = [run('a')];
+        const next = appendRun(journal, run('b'));
+        expect(next.map(r => r.id)).toEqual(['a', 'b']);
+        expect(journal).toHaveLength(1);
+    });
+
+    it('drops the oldest runs past the limit', () => {
+        const next = appendRun([run('a'), run('b')], run('c'), 2);
+        expect(next.map(r => r.id)).toEqual(['b', 'c']);
+    });
+});
+
+describe('summarizeRun', () => {
+    it('counts outcomes and sums removed bytes only', () => {
+        const summary = summarizeRun(run('a', [
+            file('x.png', 100, 'trashed'),
+            file('y.png', 50, 'trashed'),
+            file('z.png', 10, 'failed'),
+            file('w.png', 5, 'restored'),
+        ]));
+        expect(summary.trashed).toBe(2);
+        expect(summary.failed).toBe(1);
+        expect(summary.restored).toBe(1);
+        expect(summary.bytes).toBe(150);
+    });
+});
+
+describe('describeRun', () => {
+    it('lists non-zero outcomes', () => {
+        const text = describeRun(run('a', [file('x.png', 1, 'quarantined'), file('y.png', 1, 'failed')]));
+        expect(text).toBe('1 quarantined, 1 failed');
+    });
+
+    it('handles an empty run', () => {
+        expect(describeRun(run('a'))).toBe('no files');
+    });
+});
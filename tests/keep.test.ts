@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { addToKeepList, isKeepValue, removeFromKeepList, renameInKeepList, sidecarPathFor } from '../keep';
+
+describe('sidecarPathFor', () => {
+    it('appends .md to the full file name', () => {
+        expect(sidecarPathFor('Logos/logo.png')).toBe('Logos/logo.png.md');
+    });
+});
+
+describe('isKeepValue', () => {
+    it('accepts true, "true" and "yes" in any case', () => {
+        for (const value of [true, 'true', 'Yes', ' TRUE ']) expect(isKeepValue(value)).toBe(true);
+        for (const value of [false, 'no', '', 1, null, undefined, ['true']]) expect(isKeepValue(value)).toBe(false);
+    });
+});
+
+describe('keep list', () => {
+    it('adds paths sorted and without duplicates', () => {
+        expect(addToKeepList(['b.png'], ['a.png', 'b.png'])).toEqual(['a.png', 'b.png']);
+    });
+
+    it('removes paths', () => {
+        expect(removeFromKeepList(['a.png', 'b.png'], ['a.png', 'c.png'])).toEqual(['b.png']);
+    });
+
+    it('follows renamed files and folders', () => {
+        const list = ['Assets/logo.png', 'Assets/sub/icon.png', 'Assets2/x.png'];
+        expect(renameInKeepList(list, 'Assets/logo.png', 'Brand/logo.png'))
+            .toEqual(['Assets/sub/icon.png', 'Assets2/x.png', 'Brand/logo.png']);
+        expect(renameInKeepList(list, 'Assets', 'Old')).toEqual(['Assets2/x.png', 'Old/logo.png', 'Old/sub/icon.png']);
+    });
+
+    it('returns the same list when a rename does not touch it', () => {
+        const list = ['a.png'];
+        expect(renameInKeepList(list, 'b.png', 'c.png')).toBe(list);
+    });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { LinkResolver } from '../link-resolver';
+
+const resolver = new LinkResolver([
+    'Notes/Trip.md',
+    'Notes/img/pic.png',
+    'Archive/pic.png',
+    'Archive/deep/old/pic.png',
+    'assets/Diagram.svg',
+    'Index.md',
+]);
+
+describe('LinkResolver', () => {
+    it('resolves paths from the vault root, ignoring case', () => {
+        expect(resolver.resolve('Archive/pic.png', 'Index.md')).toBe('Archive/pic.png');
+        expect(resolver.resolve('assets/diagram.SVG', 'Index.md')).toBe('assets/Diagram.svg');
+        expect(resolver.resolve('/Index.md', 'Notes/Trip.md')).toBe('Index.md');
+    });
+
+    it('resolves paths relative to the linking note', () => {
+        expect(resolver.resolve('img/pic.png', 'Notes/Trip.md')).toBe('Notes/img/pic.png');
+        expect(resolver.resolve('../assets/Diagram.svg', 'Notes/Trip.md')).toBe('assets/Diagram.svg');
+        expect(resolver.resolve('../../Index.md', 'Notes/Trip.md')).toBeNull(); // above the vault root
+    });
+
+    it('resolves shortest-path links by name, preferring the same folder, then the shortest path', () => {
+        expect(resolver.resolve('pic.png', 'Index.md')).toBe('Archive/pic.png');
+        expect(resolver.resolve('pic.png', 'Notes/img/Other.md')).toBe('Notes/img/pic.png');
+        expect(resolver.resolve('old/pic.png', 'Index.md')).toBe('Archive/deep/old/pic.png');
+        expect(resolver.resolve('ld/pic.png', 'Index.md')).toBeNull(); // suffixes are whole folders
+    });
+
+    it('adds .md to links without an extension', () => {
+        expect(resolver.resolve('Trip', 'Index.md')).toBe('Notes/Trip.md');
+        expect(resolver.resolve('Missing', 'Index.md')).toBeNull();
+    });
+
+    it('resolveTarget drops subpaths and falls back to the raw path', () => {
+        expect(resolver.resolveTarget('Trip#Day 1', 'Index.md')).toBe('Notes/Trip.md');
+        expect(resolver.resolveTarget('#Heading', 'Index.md')).toBe('Index.md');
+        expect(resolver.resolveTarget('gone.png', 'Index.md')).toBe('gone.png');
+    });
+});
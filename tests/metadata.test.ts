@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { parseMetadata } from '../metadata';
+
+describe('parseMetadata', () => {
+    it('records body links and embeds with their lines', () => {
+        const cache = parseMetadata('# Title\n![[pic.png]]\nSee [[Other|other]].');
+        expect(cache.embeds?.map(e => [e.link, e.position.start.line])).toEqual([['pic.png', 1]]);
+        expect(cache.links?.map(l => [l.link, l.position.start.line])).toEqual([['Other', 2]]);
+        expect(cache.frontmatter).toBeUndefined();
+    });
+
+    it('reads frontmatter scalars and links under their property', () => {
+        const cache = parseMetadata([
+            '---',
+            'title: "Trip"',
+            'cover: "[[cover.jpg]]"',
+            'gallery:',
+            '  - "[[a.png|A]]"',
+            '---',
+            '![[body.png]]',
+        ].join('\n'));
+        expect(cache.frontmatter).toMatchObject({ title: 'Trip', cover: '[[cover.jpg]]' });
+        expect(cache.frontmatterLinks?.map(l => [l.key, l.link])).toEqual([
+            ['cover', 'cover.jpg'],
+            ['gallery', 'a.png'],
+        ]);
+        expect(cache.embeds?.map(e => [e.link, e.position.start.line])).toEqual([['body.png', 6]]);
+    });
+
+    it('treats an unclosed frontmatter block as body text', () => {
+        const cache = parseMetadata('---\n![[pic.png]]');
+        expect(cache.frontmatter).toBeUndefined();
+        expect(cache.embeds?.map(e => e.link)).toEqual(['pic.png']);
+    });
+});
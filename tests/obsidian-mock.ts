@@ -0,0 +1,16 @@
+// The parts of Obsidian's runtime API that tests of vault-backed classes touch. The real
+// package ships type declarations only; vitest.config.ts aliases 'obsidian' to this file.
+
+export class TAbstractFile {
+    constructor(public path: string) {}
+}
+
+export class TFile extends TAbstractFile {
+    stat = { size: 0, mtime: 0, ctime: 0 };
+}
+
+export class TFolder extends TAbstractFile {}
+
+export function normalizePath(path: string): string {
+    return path.replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { extractEmbeds, extractImgSrcs, extractAdmonitionEmbeds } from '../parsing';
+import {
+    extractEmbeds, extractImgSrcs, extractAdmonitionEmbeds,
+    lineLocator, linkFileName, locateEmbeds, locateImgSrcs, locateAdmonitionEmbeds, locateLinks, maskCode,
+} from '../parsing';
 
 describe('extractEmbeds', () => {
     it('extracts wiki embed targets', () => {
@@ -96,3 +99,77 @@ describe('extractAdmonitionEmbeds', () => {
         expect(extractAdmonitionEmbeds('![[normal.png]]')).toEqual([]);
     });
 });
+
+describe('linkFileName', () => {
+    it('takes the lowercased last path segment', () => {
+        expect(linkFileName('assets/Pic.PNG')).toBe('pic.png');
+        expect(linkFileName('pic.png')).toBe('pic.png');
+    });
+
+    it('drops headings, block refs and aliases', () => {
+        expect(linkFileName('a/doc.pdf#page=3')).toBe('doc.pdf');
+        expect(linkFileName('pic.png|200')).toBe('pic.png');
+    });
+});
+
+describe('lineLocator', () => {
+    it('maps offsets to 0-based lines', () => {
+        const lineOf = lineLocator('ab\ncd\n\nef');
+        expect(lineOf(0)).toBe(0);
+        expect(lineOf(2)).toBe(0); // the newline itself
+        expect(lineOf(3)).toBe(1);
+        expect(lineOf(7)).toBe(3);
+    });
+});
+
+describe('locate* variants', () => {
+    it('report the line of each embed', () => {
+        expect(locateEmbeds('x\n![[a.png]]\n\n![](b.png)')).toEqual([
+            { target: 'a.png', line: 1 },
+            { target: 'b.png', line: 3 },
+        ]);
+    });
+
+    it('report the line of each img tag', () => {
+        expect(locateImgSrcs('\n\n<img src="a.png">')).toEqual([{ target: 'a.png', line: 2 }]);
+    });
+
+    it('report admonition embed lines relative to the whole note', () => {
+        const md = 'intro\n```ad-note\ntext\n![[inside.png]]\n```';
+        expect(locateAdmonitionEmbeds(md)).toEqual([{ target: 'inside.png', line: 3 }]);
+    });
+});
+
+describe('locateLinks', () => {
+    it('finds wikilinks and embeds, keeping the subpath and dropping the alias', () => {
+        expect(locateLinks('[[Note#Heading|see]]\n![[pic.png|100]]')).toEqual([
+            { link: 'Note#Heading', line: 0, embed: false },
+            { link: 'pic.png', line: 1, embed: true },
+        ]);
+    });
+
+    it('finds markdown links, decoding and unwrapping their targets', () => {
+        expect(locateLinks('[doc](My%20File.pdf) ![](<a b.png> "title")')).toEqual([
+            { link: 'My File.pdf', line: 0, embed: false },
+            { link: 'a b.png', line: 0, embed: true },
+        ]);
+    });
+
+    it('skips external URLs and links in code', () => {
+        const md = '[site](https://example.com)\n`[[inline.png]]`\n```\n![[fenced.png]]\n```\n[[kept]]';
+        expect(locateLinks(md, 10)).toEqual([{ link: 'kept', line: 15, embed: false }]);
+    });
+});
+
+describe('maskCode', () => {
+    it('blanks code but keeps offsets and line breaks', () => {
+        const md = 'a `b` c\n~~~\nx\n~~~\nd';
+        const masked = maskCode(md);
+        expect(masked).toHaveLength(md.length);
+        expect(masked.split('\n')).toEqual(['a     c', '   ', ' ', '   ', 'd']);
+    });
+
+    it('blanks an unclosed fence to the end', () => {
+        expect(maskCode('a\n```\n[[x]]').trim()).toBe('a');
+    });
+});
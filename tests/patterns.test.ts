@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { compilePattern, compilePatterns, customPatternExtractor, matchPattern, patternError } from '../patterns';
+import type { CustomPattern } from '../types';
+
+describe('compilePattern', () => {
+    it('compiles bare sources and /source/flags as global regexes', () => {
+        expect(compilePattern('img:(\\S+)').flags).toBe('g');
+        const withFlags = compilePattern('/IMG:(\\S+)/i');
+        expect(withFlags.source).toBe('IMG:(\\S+)');
+        expect(withFlags.flags).toBe('gi');
+    });
+
+    it('rejects invalid, empty and capture-less patterns', () => {
+        expect(patternError('img:(\\S+')).toMatch(/Invalid regular expression/);
+        expect(patternError('  ')).toBe('Pattern is empty');
+        expect(patternError('img:\\S+')).toBe('Pattern has no capture group for the target');
+        expect(patternError('img:(?:a|b)')).toBe('Pattern has no capture group for the target');
+        expect(patternError('img:(\\S+)')).toBeNull();
+    });
+});
+
+describe('matchPattern', () => {
+    it('returns the first capture group with its line', () => {
+        const text = 'intro\nthumb: a.png\nnone\nthumb: pics/b.png';
+        expect(matchPattern(compilePattern('thumb: (\\S+)'), text)).toEqual([
+            { target: 'a.png', line: 1 },
+            { target: 'pics/b.png', line: 3 },
+        ]);
+    });
+
+    it('prefers a group named target, and skips empty captures', () => {
+        const regex = compilePattern('(?<kind>img|pdf)=(?<target>[^;]*);');
+        expect(matchPattern(regex, 'img=a.png; pdf=; img=b.png;').map(match => match.target)).toEqual(['a.png', 'b.png']);
+    });
+});
+
+describe('customPatternExtractor', () => {
+    const patterns: CustomPattern[] = [
+        { pattern: 'thumb: (\\S+)', extensions: 'md', resolveAs: 'link' },
+        { pattern: '"src": "([^"]+)"', extensions: 'json, .MD', resolveAs: 'path' },
+        { pattern: 'broken(', extensions: 'txt', resolveAs: 'link' },
+    ];
+    const extractor = customPatternExtractor(() => patterns);
+
+    it('reads the union of valid patterns\' extensions', () => {
+        expect(extractor.extensions).toEqual(['md', 'json']);
+    });
+
+    it('runs only the patterns for the file\'s extension, marking literal paths', () => {
+        const text = 'thumb: a.png\n"src": "assets/b.png"';
+        expect(extractor.extract(text, { path: 'note.md', cache: null })).toEqual([
+            { link: 'a.png', kind: 'pattern', literal: false, line: 0 },
+            { link: 'assets/b.png', kind: 'pattern', literal: true, line: 1 },
+        ]);
+        expect(extractor.extract(text, { path: 'data.json', cache: null })).toEqual([
+            { link: 'assets/b.png', kind: 'pattern', literal: true, line: 1 },
+        ]);
+    });
+
+    it('picks up edits to the pattern list', () => {
+        const list: CustomPattern[] = [];
+        const live = customPatternExtractor(() => list);
+        expect(live.extensions).toEqual([]);
+        list.push({ pattern: 'x=(\\w+)', extensions: 'txt', resolveAs: 'link' });
+        expect(live.extract('x=y', { path: 'a.txt', cache: null })).toEqual([{ link: 'y', kind: 'pattern', literal: false, line: 0 }]);
+    });
+});
+
+describe('compilePatterns', () => {
+    it('reuses cached regexes and forgets patterns no longer listed', () => {
+        const cache = new Map<string, RegExp | null>();
+        const first: CustomPattern = { pattern: 'a=(\\w+)', extensions: 'md', resolveAs: 'link' };
+        const broken: CustomPattern = { pattern: 'broken(', extensions: 'md', resolveAs: 'link' };
+        const [{ regex }] = compilePatterns([first, broken], cache);
+        expect([...cache.keys()]).toEqual(['a=(\\w+)', 'broken(']);
+
+        expect(compilePatterns([first], cache)[0].regex).toBe(regex);
+        expect([...cache.keys()]).toEqual(['a=(\\w+)']);
+
+        const edited = { ...first, pattern: 'b=(\\w+)' };
+        expect(compilePatterns([edited], cache).map(({ pattern }) => pattern)).toEqual([edited]);
+        expect([...cache.keys()]).toEqual(['b=(\\w+)']);
+    });
+});
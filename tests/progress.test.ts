@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { ScanCancelledError, describeProgress, sourcePhase, throwIfCancelled, untilCancelled } from '../progress';
+
+describe('untilCancelled', () => {
+    it('settles like the promise when nothing aborts', async () => {
+        const controller = new AbortController();
+        await expect(untilCancelled(Promise.resolve(3), controller.signal)).resolves.toBe(3);
+        await expect(untilCancelled(Promise.reject(new Error('read failed')), controller.signal))
+            .rejects.toThrow('read failed');
+        await expect(untilCancelled(Promise.resolve(4))).resolves.toBe(4);
+    });
+
+    it('rejects with ScanCancelledError as soon as the signal aborts', async () => {
+        const controller = new AbortController();
+        const pending = untilCancelled(new Promise<number>(() => undefined), controller.signal);
+        controller.abort();
+        await expect(pending).rejects.toBeInstanceOf(ScanCancelledError);
+    });
+
+    it('rejects at once for an already aborted signal', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(untilCancelled(Promise.resolve(1), controller.signal)).rejects.toBeInstanceOf(ScanCancelledError);
+    });
+});
+
+describe('throwIfCancelled', () => {
+    it('throws only once the signal aborts', () => {
+        const controller = new AbortController();
+        expect(() => throwIfCancelled()).not.toThrow();
+        expect(() => throwIfCancelled(controller.signal)).not.toThrow();
+        controller.abort();
+        expect(() => throwIfCancelled(controller.signal)).toThrow(ScanCancelledError);
+    });
+});
+
+describe('sourcePhase', () => {
+    it('reads canvases before note bodies and other files', () => {
+        expect(sourcePhase('canvas')).toBe('canvases');
+        expect(sourcePhase('Canvas')).toBe('canvases');
+        expect(sourcePhase('md')).toBe('bodies');
+        expect(sourcePhase('excalidraw')).toBe('bodies');
+    });
+});
+
+describe('describeProgress', () => {
+    it('names the phase and counts the files', () => {
+        expect(describeProgress({ phase: 'canvases', done: 120, total: 400 })).toBe('Reading canvases… 120 of 400 files');
+        expect(describeProgress({ phase: 'safety', done: 0, total: 1 })).toBe('Safety scan… 0 of 1 file');
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { ReferenceIndex, Reference } from '../reference-index';
+
+function ref(source: string, target: string, line?: number): Reference {
+    return { source, target, kind: 'link', line };
+}
+
+describe('ReferenceIndex', () => {
+    it('answers lookups in both directions', () => {
+        const index = new ReferenceIndex();
+        index.setSource('note.md', [ref('note.md', 'a.png', 3), ref('note.md', 'b.png', 1)]);
+
+        expect(index.isReferenced('a.png')).toBe(true);
+        expect(index.isReferenced('c.png')).toBe(false);
+        expect(index.hasReference('note.md', 'b.png')).toBe(true);
+        expect(index.getReferencesFrom('note.md').map(r => r.target)).toEqual(['a.png', 'b.png']);
+    });
+
+    it('replaces a source\'s references on setSource', () => {
+        const index = new ReferenceIndex();
+        index.setSource('note.md', [ref('note.md', 'a.png')]);
+        index.setSource('note.md', [ref('note.md', 'b.png')]);
+
+        expect(index.isReferenced('a.png')).toBe(false);
+        expect(index.isReferenced('b.png')).toBe(true);
+    });
+
+    it('keeps a target referenced while any source still points at it', () => {
+        const index = new ReferenceIndex();
+        index.setSource('one.md', [ref('one.md', 'a.png')]);
+        index.setSource('two.md', [ref('two.md', 'a.png')]);
+        index.removeSource('one.md');
+
+        expect(index.isReferenced('a.png')).toBe(true);
+        index.removeSource('two.md');
+        expect(index.isReferenced('a.png')).toBe(false);
+    });
+
+    it('appends with add', () => {
+        const index = new ReferenceIndex();
+        index.setSource('note.md', [ref('note.md', 'a.png')]);
+        index.add(ref('note.md', 'b.png'));
+
+        expect(index.getReferencesFrom('note.md')).toHaveLength(2);
+        expect(index.isReferenced('b.png')).toBe(true);
+    });
+
+    it('sorts references to a target by source, then line', () => {
+        const index = new ReferenceIndex();
+        index.setSource('z.md', [ref('z.md', 'a.png', 0)]);
+        index.setSource('b.md', [ref('b.md', 'a.png', 9), ref('b.md', 'a.png', 2)]);
+
+        expect(index.getReferences('a.png').map(r => `${r.source}:${r.line}`)).toEqual(['b.md:2', 'b.md:9', 'z.md:0']);
+    });
+
+    it('finds references across sources', () => {
+        const index = new ReferenceIndex();
+        index.setSource('one.md', [ref('one.md', 'a.png'), ref('one.md', 'b.png')]);
+        index.setSource('two.md', [ref('two.md', 'a.png')]);
+
+        expect(index.find(r => r.target === 'a.png').map(r => r.source)).toEqual(['one.md', 'two.md']);
+    });
+
+    it('moves retargeted references to their new target', () => {
+        const index = new ReferenceIndex();
+        index.setSource('note.md', [ref('note.md', 'pic.png'), ref('note.md', 'b.png')]);
+
+        const moved = index.retarget(index.find(r => r.target === 'pic.png'), () => 'assets/pic.png');
+
+        expect(moved).toBe(true);
+        expect(index.isReferenced('pic.png')).toBe(false);
+        expect(index.getReferences('assets/pic.png').map(r => r.source)).toEqual(['note.md']);
+        expect(index.hasReference('note.md', 'assets/pic.png')).toBe(true);
+        expect(index.retarget(index.find(() => true), r => r.target)).toBe(false);
+    });
+
+    it('clears everything', () => {
+        const index = new ReferenceIndex();
+        index.setSource('note.md', [ref('note.md', 'a.png')]);
+        index.clear();
+        expect(index.isReferenced('a.png')).toBe(false);
+    });
+});
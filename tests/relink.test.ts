@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { rewriteLinks, rewriteCanvas, encodeLinkTarget } from '../relink';
+
+// Maps "old.png" (however it's written) to "keep/new image.png".
+const replace = (target: string) => (target === 'old.png' || target === 'dup/old.png' ? 'keep/new image.png' : null);
+
+describe('encodeLinkTarget', () => {
+    it('encodes spaces and parentheses', () => {
+        expect(encodeLinkTarget('a b (1).png')).toBe('a%20b%20%281%29.png');
+    });
+});
+
+describe('rewriteLinks', () => {
+    it('rewrites wiki embeds and links, keeping aliases', () => {
+        expect(rewriteLinks('![[old.png|200]] and [[old.png]]', replace))
+            .toBe('![[keep/new image.png|200]] and [[keep/new image.png]]');
+    });
+
+    it('rewrites markdown embeds with encoding, keeping titles', () => {
+        expect(rewriteLinks('![alt](old.png "t")', replace)).toBe('![alt](keep/new%20image.png "t")');
+    });
+
+    it('decodes markdown targets before matching', () => {
+        expect(rewriteLinks('![](dup%2Fold.png)', replace)).toBe('![](keep/new%20image.png)');
+    });
+
+    it('keeps angle-bracket markdown targets bracketed', () => {
+        expect(rewriteLinks('![](<old.png>)', replace)).toBe('![](<keep/new image.png>)');
+    });
+
+    it('rewrites img src, keeping the quote style', () => {
+        expect(rewriteLinks(`<img width="5" src='./old.png'>`, replace)).toBe(`<img width="5" src='keep/new%20image.png'>`);
+    });
+
+    it('leaves URLs and unrelated links alone', () => {
+        const text = '![](https://x.com/old.png) [[other.png]] <img src="http://x/old.png">';
+        expect(rewriteLinks(text, replace)).toBe(text);
+    });
+
+    it('leaves links in fenced and inline code alone', () => {
+        const text = '```\n![[old.png]]\n```\n`![](old.png)` and `<img src="old.png">`\n![[old.png]]';
+        expect(rewriteLinks(text, replace))
+            .toBe('```\n![[old.png]]\n```\n`![](old.png)` and `<img src="old.png">`\n![[keep/new image.png]]');
+    });
+
+    it('rewrites wikilinks inside frontmatter text', () => {
+        expect(rewriteLinks('---\ncover: "[[old.png]]"\n---', replace)).toBe('---\ncover: "[[keep/new image.png]]"\n---');
+    });
+});
+
+describe('rewriteCanvas', () => {
+    const canvas = JSON.stringify({
+        nodes: [
+            { id: '1', type: 'file', file: 'dup/old.png' },
+            { id: '2', type: 'group', background: 'old.png' },
+            { id: '3', type: 'text', text: 'see ![[old.png]]' },
+            { id: '4', type: 'file', file: 'other.png' },
+        ],
+        edges: [],
+    });
+
+    it('rewrites file nodes, group backgrounds, and text cards', () => {
+        const out = rewriteCanvas(canvas, replace, replace);
+        const nodes = JSON.parse(out!).nodes;
+        expect(nodes[0].file).toBe('keep/new image.png');
+        expect(nodes[1].background).toBe('keep/new image.png');
+        expect(nodes[2].text).toBe('see ![[keep/new image.png]]');
+        expect(nodes[3].file).toBe('other.png');
+    });
+
+    it('returns null when nothing changes', () => {
+        expect(rewriteCanvas(canvas, () => null, () => null)).toBeNull();
+    });
+
+    it('returns null for malformed JSON', () => {
+        expect(rewriteCanvas('{nope', replace, replace)).toBeNull();
+    });
+});
@@ -1,46 +1,141 @@
 import { describe, it, expect } from 'vitest';
 import type { TFile } from 'obsidian';
-import { buildReport } from '../report';
+import type { AttachmentCategory } from '../types';
+import { buildReport, checkedReportItems, isPluginNote, isReportNote, reportFileName } from '../report';
 
-// Minimal TFile-shaped stub — buildReport only reads path, parent.path, and stat.size.
+// Minimal TFile-shaped stub — buildReport only reads path, extension, parent.path, and stat.size.
 function img(path: string, size: number): TFile {
     const slash = path.lastIndexOf('/');
     const parent = slash === -1 ? null : { path: path.slice(0, slash) };
-    return { path, parent, stat: { size } } as unknown as TFile;
+    const extension = path.slice(path.lastIndexOf('.') + 1);
+    return { path, extension, parent, stat: { size } } as unknown as TFile;
 }
 
+const categories: AttachmentCategory[] = [
+    { id: 'images', name: 'Images', extensions: 'png', enabled: true },
+    { id: 'pdf', name: 'PDFs', extensions: 'pdf', enabled: true },
+];
+
 describe('buildReport', () => {
     it('summarises count and total reclaimable size', () => {
-        const report = buildReport([img('a/x.png', 1024), img('a/y.png', 1024)], false);
-        expect(report).toContain('These 2 images are not linked in any note — 2.0 KB reclaimable.');
+        const report = buildReport([img('a/x.png', 1024), img('a/y.png', 1024)], false, categories);
+        expect(report).toContain('These 2 files are not linked in any note — 2.0 KB reclaimable.');
+    });
+
+    it('states the filters applied, and nothing when there are none', () => {
+        const filtered = buildReport([img('a.png', 1)], false, categories, ['modified more than 7 days ago', 'larger than 1.0 KB']);
+        expect(filtered).toContain('Filtered to files modified more than 7 days ago, larger than 1.0 KB.');
+        expect(buildReport([img('a.png', 1)], false, categories)).not.toContain('Filtered');
+    });
+
+    it('uses singular grammar for a single file', () => {
+        const report = buildReport([img('x.png', 512)], false, categories);
+        expect(report).toContain('These 1 file is not linked');
+    });
+
+    it('groups by category with per-category totals, in settings order', () => {
+        const report = buildReport([img('a/doc.pdf', 2048), img('a/x.png', 1024)], false, categories);
+        expect(report).toContain('## Images — 1 file, 1.0 KB');
+        expect(report).toContain('## PDFs — 1 file, 2.0 KB');
+        expect(report.indexOf('## Images')).toBeLessThan(report.indexOf('## PDFs'));
     });
 
-    it('uses singular grammar for a single image', () => {
-        const report = buildReport([img('x.png', 512)], false);
-        expect(report).toContain('These 1 image is not linked');
+    it('omits empty categories and puts unknown extensions under Other', () => {
+        const report = buildReport([img('a/x.zip', 10)], false, categories);
+        expect(report).not.toContain('## Images');
+        expect(report).toContain('## Other — 1 file, 10 B');
     });
 
-    it('groups by folder with per-folder headings and sizes', () => {
-        const report = buildReport([img('a/x.png', 1024), img('b/y.png', 2048)], false);
-        expect(report).toContain('## a — 1 image, 1.0 KB');
-        expect(report).toContain('## b — 1 image, 2.0 KB');
+    it('groups by folder within a category with per-folder headings and sizes', () => {
+        const report = buildReport([img('a/x.png', 1024), img('b/y.png', 2048)], false, categories);
+        expect(report).toContain('### a — 1 file, 1.0 KB');
+        expect(report).toContain('### b — 1 file, 2.0 KB');
     });
 
-    it('labels vault-root images', () => {
-        const report = buildReport([img('root.png', 512)], false);
-        expect(report).toContain('## (vault root) — 1 image, 512 B');
+    it('labels vault-root files', () => {
+        const report = buildReport([img('root.png', 512)], false, categories);
+        expect(report).toContain('### (vault root) — 1 file, 512 B');
     });
 
     it('emits wikilinks (not markdown) so special chars resolve', () => {
-        const textReport = buildReport([img('a/my #1.png', 100)], false);
-        expect(textReport).toContain('- [[a/my #1.png]] — 100 B');
+        const textReport = buildReport([img('a/my #1.png', 100)], false, categories);
+        expect(textReport).toContain('- [ ] [[a/my #1.png]] — 100 B');
 
-        const embedReport = buildReport([img('a/my #1.png', 100)], true);
-        expect(embedReport).toContain('- ![[a/my #1.png]] — 100 B');
+        const embedReport = buildReport([img('a/my #1.png', 100)], true, categories);
+        expect(embedReport).toContain('- [ ] ![[a/my #1.png]] — 100 B');
     });
 
     it('sorts folders alphabetically', () => {
-        const report = buildReport([img('z/a.png', 1), img('a/b.png', 1)], false);
-        expect(report.indexOf('## a ')).toBeLessThan(report.indexOf('## z '));
+        const report = buildReport([img('z/a.png', 1), img('a/b.png', 1)], false, categories);
+        expect(report.indexOf('### a ')).toBeLessThan(report.indexOf('### z '));
+    });
+
+    it('adds new, resolved and still-orphaned sections and the trend from the history', () => {
+        const since = new Date(2026, 9, 12).getTime();
+        const report = buildReport([img('a/new.png', 100), img('a/old.png', 200)], true, categories, [], {
+            since,
+            diff: {
+                added: [{ path: 'a/new.png', size: 100 }],
+                resolved: [{ path: 'a/gone.png', size: 300 }],
+                still: [{ path: 'a/old.png', size: 200 }],
+            },
+            trend: '▁█ 2 scans since 2026-10-12: 2 → 2 orphans, 500 B → 300 B',
+        });
+        expect(report).toContain('## Since the last scan (2026-10-12)');
+        expect(report).toContain('Trend: ▁█ 2 scans');
+        expect(report).toContain('### New since last scan — 1 file, 100 B\n\n- ![[a/new.png]] — 100 B');
+        expect(report).toContain('### Resolved since last scan — 1 file, 300 B\n\n- `a/gone.png` — 300 B');
+        expect(report).toContain('### Still orphaned — 1 file, 200 B\n\n- [[a/old.png]] — 200 B');
+        expect(report.indexOf('## Since the last scan')).toBeLessThan(report.indexOf('## Images'));
+    });
+
+    it('says so when a history section is empty', () => {
+        const report = buildReport([], false, categories, [], { since: 0, diff: { added: [], resolved: [], still: [] }, trend: '' });
+        expect(report).toContain('### New since last scan — 0 files, 0 B\n\nNone.');
+        expect(report).not.toContain('Trend:');
+    });
+});
+
+describe('checkedReportItems', () => {
+    it('reads the checked items of a generated report', () => {
+        const report = buildReport([img('a/x.png', 1), img('a/y.png', 1), img('b/z.png', 1)], true, categories)
+            .replace('- [ ] ![[a/y.png]]', '- [x] ![[a/y.png]]')
+            .replace('- [ ] ![[b/z.png]]', '- [X] ![[b/z.png]]');
+        expect(checkedReportItems(report)).toEqual(['a/y.png', 'b/z.png']);
+    });
+
+    it('accepts plain links, aliases and other bullets, once each', () => {
+        const note = '* [x] [[a.png|A]] — 1 B\n  - [x] [[a.png]]\n- [ ] [[b.png]]\n- [[c.png]]\n- [x] `d.png`';
+        expect(checkedReportItems(note)).toEqual(['a.png']);
+    });
+
+    it('prompts to check items only when there are files', () => {
+        expect(buildReport([img('a.png', 1)], false, categories)).toContain('"Process report note"');
+        expect(buildReport([], false, categories)).not.toContain('"Process report note"');
+    });
+});
+
+describe('report notes', () => {
+    it('names dated reports by day', () => {
+        const day = new Date(2026, 9, 19, 23, 30).getTime();
+        expect(reportFileName(false, day)).toBe('Orphaned Attachments Report.md');
+        expect(reportFileName(true, day)).toBe('Orphaned Attachments Report 2026-10-19.md');
+    });
+
+    it('recognises report notes only in the report folder', () => {
+        expect(isReportNote('Orphaned Attachments Report.md', '')).toBe(true);
+        expect(isReportNote('Reports/Orphaned Attachments Report 2026-10-19.md', '/Reports/')).toBe(true);
+        expect(isReportNote('Orphaned Attachments Report.md', 'Reports')).toBe(false);
+        expect(isReportNote('Reports/Orphaned Attachments Report notes.md', 'Reports')).toBe(false);
+        expect(isReportNote('Reports/Orphaned Attachments Report.json', 'Reports')).toBe(false);
+        expect(isReportNote('Reports/Orphaned Images Report.md', 'Reports')).toBe(true);
+        expect(isReportNote('Orphaned Images Report.md', 'Reports')).toBe(false);
+    });
+
+    it('counts the broken references note as a plugin note, but not as a report', () => {
+        expect(isPluginNote('Reports/Broken Attachment References.md', 'Reports')).toBe(true);
+        expect(isPluginNote('Reports/Orphaned Attachments Report.md', 'Reports')).toBe(true);
+        expect(isPluginNote('Broken Attachment References.md', 'Reports')).toBe(false);
+        expect(isReportNote('Reports/Broken Attachment References.md', 'Reports')).toBe(false);
     });
 });
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import type { App, TFile as VaultFile } from 'obsidian';
+import { TFile, TFolder } from './obsidian-mock';
+import { Quarantine } from '../quarantine';
+import { Restorer } from '../restorer';
+import { DEFAULT_SETTINGS, JournalRun } from '../types';
+
+// An in-memory vault holding `paths`, with the adapter calls Quarantine and Restorer make.
+function fakeApp(paths: string[]) {
+    const files = new Map<string, TFile | TFolder>();
+    const text = new Map<string, string>();
+    paths.forEach(path => files.set(path, new TFile(path)));
+    const vault = {
+        getAbstractFileByPath: (path: string) => files.get(path) ?? null,
+        createFolder: async (path: string) => {
+            files.set(path, new TFolder(path));
+        },
+        rename: async (file: TFile, target: string) => {
+            files.delete(file.path);
+            file.path = target;
+            files.set(target, file);
+        },
+        delete: async (file: TFile) => {
+            files.delete(file.path);
+        },
+        adapter: {
+            exists: async (path: string) => files.has(path) || text.has(path),
+            read: async (path: string) => text.get(path) ?? '',
+            write: async (path: string, data: string) => {
+                text.set(path, data);
+            },
+        },
+    };
+    return { app: { vault } as unknown as App, files };
+}
+
+describe('Restorer.restore', () => {
+    it('restores every quarantined file of a run and drops them from the manifest', async () => {
+        const { app, files } = fakeApp(['a/one.png', 'b/two.png', 'three.png']);
+        const settings = { ...DEFAULT_SETTINGS };
+        const quarantine = new Quarantine(app, settings);
+        const run: JournalRun = { id: 'run', timestamp: 0, mode: 'quarantine', files: [] };
+        for (const path of ['a/one.png', 'b/two.png', 'three.png']) {
+            const entry = await quarantine.move(files.get(path) as unknown as VaultFile);
+            run.files.push({ path, size: entry.size, outcome: 'quarantined', quarantinePath: entry.quarantinePath });
+        }
+        await quarantine.flush();
+        expect(await quarantine.list()).toHaveLength(3);
+
+        const { restored, skipped } = await new Restorer(app, quarantine).restore(run);
+
+        expect(skipped).toEqual([]);
+        expect(restored.map(file => file.path)).toEqual(['a/one.png', 'b/two.png', 'three.png']);
+        expect(run.files.every(file => file.outcome === 'restored')).toBe(true);
+        for (const path of ['a/one.png', 'b/two.png', 'three.png']) expect(files.get(path)).toBeInstanceOf(TFile);
+        expect(await quarantine.list()).toEqual([]);
+    });
+});
+
+describe('Quarantine.purgeEntries', () => {
+    it('deletes only the entries given, even when others are as old', async () => {
+        const { app, files } = fakeApp(['one.png', 'two.png']);
+        const quarantine = new Quarantine(app, { ...DEFAULT_SETTINGS });
+        const one = await quarantine.move(files.get('one.png') as unknown as VaultFile);
+        const two = await quarantine.move(files.get('two.png') as unknown as VaultFile);
+        await quarantine.flush();
+
+        expect(await quarantine.purgeEntries([one])).toEqual({ purged: 1, failed: 0, freedBytes: one.size });
+        expect(files.has(one.quarantinePath)).toBe(false);
+        expect(files.has(two.quarantinePath)).toBe(true);
+        expect((await quarantine.list()).map(entry => entry.quarantinePath)).toEqual([two.quarantinePath]);
+
+        // Already purged: skipped rather than counted again.
+        expect(await quarantine.purgeEntries([one])).toEqual({ purged: 0, failed: 0, freedBytes: 0 });
+    });
+});
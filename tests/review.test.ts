@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'vitest';
+import {
+    EMPTY_QUERY, TreeRow, buildFolderTree, extensionOptions, filesUnder, flattenTree, folderOf, folderOptions,
+    gridColumns, invertSelection, isEmptyQuery, isSortKey, matchesQuery, moveFocus, rangeIndices, selectionState,
+    sortFiles, visibleRange,
+} from '../review';
+
+function file(path: string, size: number, mtime = 0, ctime = 0) {
+    return { path, extension: path.slice(path.lastIndexOf('.') + 1), stat: { size, mtime, ctime } };
+}
+
+const files = [
+    file('b/photo.jpg', 300, 3, 1),
+    file('a/scan.PDF', 100, 1, 3),
+    file('root.png', 200, 2, 2),
+    file('a/deep/chart.png', 200, 4, 4),
+];
+const paths = (list: { path: string }[]) => list.map(f => f.path);
+
+describe('sortFiles', () => {
+    it('sorts each key in its natural order, ties by path', () => {
+        expect(paths(sortFiles(files, 'size'))).toEqual(['b/photo.jpg', 'a/deep/chart.png', 'root.png', 'a/scan.PDF']);
+        expect(paths(sortFiles(files, 'path'))).toEqual(['a/deep/chart.png', 'a/scan.PDF', 'b/photo.jpg', 'root.png']);
+        expect(paths(sortFiles(files, 'mtime'))).toEqual(['a/deep/chart.png', 'b/photo.jpg', 'root.png', 'a/scan.PDF']);
+        expect(paths(sortFiles(files, 'ctime'))).toEqual(['a/deep/chart.png', 'a/scan.PDF', 'root.png', 'b/photo.jpg']);
+        expect(paths(sortFiles(files, 'extension'))).toEqual(['b/photo.jpg', 'a/scan.PDF', 'a/deep/chart.png', 'root.png']);
+    });
+
+    it('reverses without touching the input', () => {
+        const input = [...files];
+        expect(paths(sortFiles(input, 'path', true))).toEqual(['root.png', 'b/photo.jpg', 'a/scan.PDF', 'a/deep/chart.png']);
+        expect(input).toEqual(files);
+    });
+
+    it('recognises sort keys', () => {
+        expect(isSortKey('mtime')).toBe(true);
+        expect(isSortKey('name')).toBe(false);
+        expect(isSortKey(undefined)).toBe(false);
+    });
+});
+
+describe('matchesQuery', () => {
+    const matching = (query: Partial<typeof EMPTY_QUERY>) => paths(files.filter(f => matchesQuery(f, { ...EMPTY_QUERY, ...query })));
+
+    it('matches every search word anywhere in the path, any case', () => {
+        expect(matching({ search: 'A/ CHART' })).toEqual(['a/deep/chart.png']);
+        expect(matching({ search: '  ' })).toHaveLength(4);
+    });
+
+    it('narrows to a folder and its subfolders, or the vault root', () => {
+        expect(matching({ folder: 'a' })).toEqual(['a/scan.PDF', 'a/deep/chart.png']);
+        expect(matching({ folder: '/' })).toEqual(['root.png']);
+    });
+
+    it('narrows to an extension, any case', () => {
+        expect(matching({ extension: 'pdf' })).toEqual(['a/scan.PDF']);
+    });
+
+    it('knows an empty query', () => {
+        expect(isEmptyQuery({ ...EMPTY_QUERY, search: ' ' })).toBe(true);
+        expect(isEmptyQuery({ ...EMPTY_QUERY, folder: '/' })).toBe(false);
+    });
+});
+
+describe('options', () => {
+    it('lists folders with their ancestors, and the vault root', () => {
+        expect(folderOptions(files)).toEqual(['/', 'a', 'a/deep', 'b']);
+    });
+
+    it('lists lowercased extensions', () => {
+        expect(extensionOptions(files)).toEqual(['jpg', 'pdf', 'png']);
+    });
+});
+
+describe('visibleRange', () => {
+    it('covers the viewport plus overscan, within the list', () => {
+        expect(visibleRange(600, 300, 60, 100, 2)).toEqual({ start: 8, end: 17 });
+        expect(visibleRange(0, 300, 60, 3, 2)).toEqual({ start: 0, end: 3 });
+        expect(visibleRange(6000, 300, 60, 100, 2)).toEqual({ start: 98, end: 100 });
+    });
+
+    it('handles a list that starts below the viewport top', () => {
+        expect(visibleRange(-200, 300, 60, 100, 0)).toEqual({ start: 0, end: 2 });
+        expect(visibleRange(-400, 300, 60, 100, 0)).toEqual({ start: 0, end: 0 });
+    });
+
+    it('is empty for an empty list', () => {
+        expect(visibleRange(0, 300, 60, 0)).toEqual({ start: 0, end: 0 });
+    });
+});
+
+describe('gridColumns', () => {
+    it('fits as many cells as the width allows, at least one', () => {
+        expect(gridColumns(400, 128, 8)).toBe(3);
+        expect(gridColumns(408, 128, 8)).toBe(3);
+        expect(gridColumns(416, 128, 8)).toBe(3);
+        expect(gridColumns(544, 128, 8)).toBe(4);
+        expect(gridColumns(50, 128, 8)).toBe(1);
+    });
+});
+
+describe('moveFocus', () => {
+    it('moves by one in a list, where left and right act like up and down', () => {
+        expect(moveFocus(3, 'down', 10, 1)).toBe(4);
+        expect(moveFocus(3, 'up', 10, 1)).toBe(2);
+        expect(moveFocus(3, 'right', 10, 1)).toBe(4);
+        expect(moveFocus(3, 'left', 10, 1)).toBe(2);
+    });
+
+    it('moves by a row in a grid', () => {
+        expect(moveFocus(1, 'down', 10, 4)).toBe(5);
+        expect(moveFocus(5, 'up', 10, 4)).toBe(1);
+        expect(moveFocus(5, 'right', 10, 4)).toBe(6);
+    });
+
+    it('stays inside the list', () => {
+        expect(moveFocus(0, 'up', 10, 1)).toBe(0);
+        expect(moveFocus(9, 'down', 10, 1)).toBe(9);
+        expect(moveFocus(7, 'down', 10, 4)).toBe(9); // onto the short last row
+        expect(moveFocus(2, 'pageUp', 10, 1, 5)).toBe(0);
+        expect(moveFocus(2, 'pageDown', 10, 1, 5)).toBe(7);
+    });
+
+    it('jumps to either end', () => {
+        expect(moveFocus(4, 'first', 10, 3)).toBe(0);
+        expect(moveFocus(4, 'last', 10, 3)).toBe(9);
+    });
+
+    it('starts at the first item without a focus, or the last for End', () => {
+        expect(moveFocus(-1, 'down', 10, 1)).toBe(0);
+        expect(moveFocus(-1, 'up', 10, 1)).toBe(0);
+        expect(moveFocus(-1, 'last', 10, 1)).toBe(9);
+        expect(moveFocus(12, 'down', 10, 1)).toBe(0);
+    });
+
+    it('is -1 for an empty list', () => {
+        expect(moveFocus(0, 'down', 0, 1)).toBe(-1);
+    });
+});
+
+describe('rangeIndices', () => {
+    it('covers both ends in either direction', () => {
+        expect(rangeIndices(2, 5)).toEqual([2, 3, 4, 5]);
+        expect(rangeIndices(5, 2)).toEqual([2, 3, 4, 5]);
+        expect(rangeIndices(3, 3)).toEqual([3]);
+    });
+});
+
+describe('invertSelection', () => {
+    it('toggles the given paths and keeps other selections', () => {
+        const next = invertSelection(new Set(['a', 'b', 'hidden']), ['a', 'c']);
+        expect([...next].sort()).toEqual(['b', 'c', 'hidden']);
+    });
+
+    it('leaves the original set alone', () => {
+        const selected = new Set(['a']);
+        invertSelection(selected, ['a']);
+        expect([...selected]).toEqual(['a']);
+    });
+});
+
+describe('folderOf', () => {
+    it('returns the parent folder, or an empty string at the vault root', () => {
+        expect(folderOf('a/deep/chart.png')).toBe('a/deep');
+        expect(folderOf('root.png')).toBe('');
+    });
+});
+
+describe('buildFolderTree', () => {
+    it('totals every folder over everything under it', () => {
+        const root = buildFolderTree(files, true);
+        expect(root).toMatchObject({ path: '', count: 4, size: 800 });
+        expect(paths(root.files)).toEqual(['root.png']);
+        const a = root.folders.find(folder => folder.path === 'a');
+        expect(a).toMatchObject({ name: 'a', count: 2, size: 300 });
+        expect(a?.folders[0]).toMatchObject({ path: 'a/deep', name: 'deep', count: 1, size: 200 });
+    });
+
+    it('orders folders by reclaimable size, or by name', () => {
+        const b = [file('b/1.png', 50), file('b/2.png', 500)];
+        const a = [file('a/1.png', 100)];
+        expect(buildFolderTree([...a, ...b], true).folders.map(f => f.path)).toEqual(['b', 'a']);
+        expect(buildFolderTree([...a, ...b], true, true).folders.map(f => f.path)).toEqual(['a', 'b']);
+        expect(buildFolderTree([...b, ...a], false).folders.map(f => f.path)).toEqual(['a', 'b']);
+    });
+
+    it('keeps the given file order within a folder', () => {
+        const list = [file('x/b.png', 1), file('x/a.png', 2)];
+        expect(paths(buildFolderTree(list, false).folders[0].files)).toEqual(['x/b.png', 'x/a.png']);
+    });
+});
+
+describe('flattenTree', () => {
+    const describeRow = (row: TreeRow<{ path: string }>) =>
+        `${row.depth}:${'file' in row ? row.file.path : `[${row.folder.path}]`}`;
+
+    it('lists subfolders before files, depth first', () => {
+        const rows = flattenTree(buildFolderTree(files, false), new Set());
+        expect(rows.map(describeRow)).toEqual([
+            '0:[a]', '1:[a/deep]', '2:a/deep/chart.png', '1:a/scan.PDF', '0:[b]', '1:b/photo.jpg', '0:root.png',
+        ]);
+    });
+
+    it('skips the contents of collapsed folders', () => {
+        const rows = flattenTree(buildFolderTree(files, false), new Set(['a']));
+        expect(rows.map(describeRow)).toEqual(['0:[a]', '0:[b]', '1:b/photo.jpg', '0:root.png']);
+    });
+});
+
+describe('filesUnder', () => {
+    it('includes files of every subfolder', () => {
+        const a = buildFolderTree(files, false).folders[0];
+        expect(paths(filesUnder(a)).sort()).toEqual(['a/deep/chart.png', 'a/scan.PDF']);
+    });
+});
+
+describe('selectionState', () => {
+    it('is all, some or none', () => {
+        const selected = new Set(['a', 'b']);
+        expect(selectionState(['a', 'b'], selected)).toBe('all');
+        expect(selectionState(['a', 'c'], selected)).toBe('some');
+        expect(selectionState(['c'], selected)).toBe('none');
+        expect(selectionState([], selected)).toBe('none');
+    });
+});
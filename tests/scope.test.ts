@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { countRuleMatches, describeRuleProblems, globToRegExp, isExcludedByRules, parseScopeRules } from '../scope';
+
+function matches(glob: string, path: string): boolean {
+    return globToRegExp(glob).test(path);
+}
+
+describe('globToRegExp', () => {
+    it('matches names without a slash at any depth', () => {
+        expect(matches('Pasted image *.png', 'Pasted image 1.png')).toBe(true);
+        expect(matches('Pasted image *.png', 'a/b/Pasted image 1.png')).toBe(true);
+        expect(matches('*.png', 'a/b.jpg')).toBe(false);
+    });
+
+    it('anchors globs with a slash at the vault root', () => {
+        expect(matches('Assets/*.png', 'Assets/a.png')).toBe(true);
+        expect(matches('Assets/*.png', 'Old/Assets/a.png')).toBe(false);
+        expect(matches('/logo.png', 'logo.png')).toBe(true);
+        expect(matches('/logo.png', 'a/logo.png')).toBe(false);
+    });
+
+    it('keeps * and ? within one folder and lets ** cross folders', () => {
+        expect(matches('Projects/*/attachments/**', 'Projects/Alpha/attachments/x/y.png')).toBe(true);
+        expect(matches('Projects/*/attachments/**', 'Projects/A/B/attachments/y.png')).toBe(false);
+        expect(matches('**/Pasted image *.png', 'Pasted image 2.png')).toBe(true);
+        expect(matches('**/Pasted image *.png', 'x/y/Pasted image 2.png')).toBe(true);
+        expect(matches('img?.png', 'img1.png')).toBe(true);
+        expect(matches('img?.png', 'img12.png')).toBe(false);
+    });
+
+    it('matches everything inside a matched folder', () => {
+        expect(matches('Archive', 'Notes/Archive/old.png')).toBe(true);
+        expect(matches('Archive/', 'Archive/old.png')).toBe(true);
+        expect(matches('Archive', 'Archived.png')).toBe(false);
+    });
+
+    it('supports classes, escapes and ignores case', () => {
+        expect(matches('scan[0-9].png', 'scan7.png')).toBe(true);
+        expect(matches('scan[!0-9].png', 'scan7.png')).toBe(false);
+        expect(matches('what\\?.png', 'what?.png')).toBe(true);
+        expect(matches('what\\?.png', 'whatx.png')).toBe(false);
+        expect(matches('assets/*.PNG', 'Assets/a.png')).toBe(true);
+        expect(matches('a+b (1).png', 'a+b (1).png')).toBe(true);
+    });
+
+    it('reads a "]" first in a class as a member', () => {
+        expect(matches('[!]x].png', 'a.png')).toBe(true);
+        expect(matches('[!]x].png', 'x.png')).toBe(false);
+        expect(matches('[!]x].png', '].png')).toBe(false);
+        expect(matches('[]x].png', '].png')).toBe(true);
+        expect(matches('[^a].png', '^.png')).toBe(true);
+        expect(matches('[^a].png', 'b.png')).toBe(false);
+    });
+
+    it('matches a class no regex accepts literally instead of throwing', () => {
+        expect(() => globToRegExp('[z-a].png')).not.toThrow();
+        expect(matches('[z-a].png', '[z-a].png')).toBe(true);
+        expect(matches('[z-a].png', 'b.png')).toBe(false);
+    });
+});
+
+describe('parseScopeRules', () => {
+    it('skips blanks and comments, and reads negation and escapes', () => {
+        const rules = parseScopeRules('# header\n\n*.tmp\n!Keep/**\n\\#hash.png\n\\!bang.png', '.orphanignore');
+        expect(rules.map(rule => [rule.pattern, rule.negate, rule.line])).toEqual([
+            ['*.tmp', false, 3],
+            ['Keep/**', true, 4],
+            ['#hash.png', false, 5],
+            ['!bang.png', false, 6],
+        ]);
+        expect(rules[0].origin).toBe('.orphanignore');
+    });
+});
+
+describe('describeRuleProblems', () => {
+    it('names each invalid rule with its origin and line', () => {
+        const rules = parseScopeRules('*.tmp\n[z-a].png\n!Keep/[9-0]*', '.orphanignore');
+        expect(rules.map(rule => rule.problem === undefined)).toEqual([true, false, false]);
+        expect(describeRuleProblems(rules)).toEqual([
+            '[z-a].png (.orphanignore, line 2): invalid character class "[z-a]", matched literally',
+            '!Keep/[9-0]* (.orphanignore, line 3): invalid character class "[9-0]", matched literally',
+        ]);
+    });
+});
+
+describe('isExcludedByRules', () => {
+    const rules = parseScopeRules('Assets/**\n!Assets/Logos/**\nAssets/Logos/old-*', 'settings');
+
+    it('lets the last matching rule decide', () => {
+        expect(isExcludedByRules('Assets/a.png', rules)).toBe(true);
+        expect(isExcludedByRules('Assets/Logos/brand.png', rules)).toBe(false);
+        expect(isExcludedByRules('Assets/Logos/old-brand.png', rules)).toBe(true);
+        expect(isExcludedByRules('Notes/a.png', rules)).toBe(false);
+    });
+
+    it('excludes nothing without rules', () => {
+        expect(isExcludedByRules('a.png', [])).toBe(false);
+    });
+});
+
+describe('countRuleMatches', () => {
+    it('counts each rule on its own', () => {
+        const rules = parseScopeRules('*.png\n!Keep/**', 'settings');
+        expect(countRuleMatches(['a.png', 'Keep/b.png', 'Keep/c.jpg'], rules)).toEqual([2, 2]);
+    });
+});
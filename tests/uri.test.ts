@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { URI_ACTION, parseUriRequest } from '../uri';
+
+describe('parseUriRequest', () => {
+    it('reads report requests with embed and folder scopes', () => {
+        expect(parseUriRequest({ action: 'report', embed: 'false', folder: 'Inbox' })).toEqual({
+            action: 'report', embed: false, scope: { includeFolders: 'Inbox' },
+        });
+        expect(parseUriRequest({ action: 'report' })).toEqual({ action: 'report', embed: true, scope: {} });
+    });
+
+    it('reads cleanup requests with include and exclude folders', () => {
+        expect(parseUriRequest({ action: 'cleanup', folder: 'Inbox,Clippings', exclude: 'Inbox/Keep' })).toEqual({
+            action: 'cleanup', scope: { includeFolders: 'Inbox,Clippings', excludeFolders: 'Inbox/Keep' },
+        });
+    });
+
+    it('keeps an empty folder parameter, which scans the whole vault', () => {
+        expect(parseUriRequest({ action: 'cleanup', folder: '' })).toEqual({ action: 'cleanup', scope: { includeFolders: '' } });
+    });
+
+    it('opens the orphan panel unless another is named', () => {
+        expect(parseUriRequest({ action: 'open-panel' })).toEqual({ action: 'open-panel', panel: 'orphans' });
+        expect(parseUriRequest({ action: 'open-panel', panel: 'broken' })).toEqual({ action: 'open-panel', panel: 'broken' });
+        expect(() => parseUriRequest({ action: 'open-panel', panel: 'gallery' })).toThrow(/Unknown panel "gallery"/);
+    });
+
+    it('rejects missing and unknown actions and bad booleans', () => {
+        expect(() => parseUriRequest({ action: URI_ACTION })).toThrow(/no action/);
+        expect(() => parseUriRequest({})).toThrow(/no action/);
+        expect(() => parseUriRequest({ action: 'purge' })).toThrow(/Unknown action "purge"/);
+        expect(() => parseUriRequest({ action: 'report', embed: 'maybe' })).toThrow(/"embed" must be true or false/);
+    });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { formatBytes, totalSize, parseFolderList, isInFolder } from '../utils';
+import {
+    formatBytes, totalSize, parseFolderList, isInFolder, quarantinePathFor, numberedPath, isOlderThanDays,
+} from '../utils';
 
 describe('formatBytes', () => {
     it('returns "0 B" for zero or negative', () => {
@@ -73,3 +75,49 @@ describe('isInFolder', () => {
         expect(isInFolder('notes/a.png', 'assets')).toBe(false);
     });
 });
+
+describe('quarantinePathFor', () => {
+    it('mirrors the original path under the quarantine folder', () => {
+        expect(quarantinePathFor('Quarantine', 'a/b/pic.png')).toBe('Quarantine/a/b/pic.png');
+    });
+
+    it('strips surrounding slashes from the folder', () => {
+        expect(quarantinePathFor(' /Quarantine/ ', 'pic.png')).toBe('Quarantine/pic.png');
+    });
+
+    it('falls back to the original path for an empty folder', () => {
+        expect(quarantinePathFor('', 'pic.png')).toBe('pic.png');
+    });
+});
+
+describe('numberedPath', () => {
+    it('inserts the number before the extension', () => {
+        expect(numberedPath('a/b.png', 2)).toBe('a/b 2.png');
+    });
+
+    it('only uses the last extension', () => {
+        expect(numberedPath('a/b.tar.gz', 1)).toBe('a/b.tar 1.gz');
+    });
+
+    it('appends when there is no extension', () => {
+        expect(numberedPath('a.dir/file', 1)).toBe('a.dir/file 1');
+        expect(numberedPath('a/.hidden', 1)).toBe('a/.hidden 1');
+    });
+});
+
+describe('isOlderThanDays', () => {
+    const day = 24 * 60 * 60 * 1000;
+
+    it('is true past the cutoff', () => {
+        expect(isOlderThanDays(0, 30, 31 * day)).toBe(true);
+    });
+
+    it('is false within the cutoff', () => {
+        expect(isOlderThanDays(0, 30, 29 * day)).toBe(false);
+        expect(isOlderThanDays(0, 30, 30 * day)).toBe(false);
+    });
+
+    it('treats 0 days as anything in the past', () => {
+        expect(isOlderThanDays(0, 0, 1)).toBe(true);
+    });
+});
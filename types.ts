@@ -1,21 +1,114 @@
+import { DEFAULT_CATEGORIES } from './categories';
+
+// How performDeletion disposes of a file: the user's trash, permanent delete, or the
+// plugin's own quarantine folder (see ./quarantine).
+export type DisposalMode = 'trash' | 'delete' | 'quarantine';
+
+// A named group of attachment extensions that can be scanned or skipped as a unit.
+export interface AttachmentCategory {
+    id: string; // stable key; built-in ids are listed in DEFAULT_CATEGORIES (./categories)
+    name: string;
+    extensions: string; // comma-separated, as typed in settings
+    enabled: boolean;
+}
+
+// A user-defined reference pattern: a regex whose capture group (or `target` group) is the
+// referenced file, read from files with the given extensions (see ./patterns).
+export interface CustomPattern {
+    pattern: string; // regex source, or /source/flags
+    extensions: string; // comma-separated, as typed in settings
+    resolveAs: 'link' | 'path'; // resolve like a wikilink, or take as a literal vault path
+}
+
+// Age and size bounds on cleanup candidates (see ./filters). 0 switches a bound off.
+export interface CandidateFilters {
+    minAgeDays: number; // only files older than this
+    ageField: 'mtime' | 'ctime'; // which timestamp minAgeDays looks at
+    minSizeKB: number; // only files larger than this
+    maxSizeKB: number; // only files smaller than this
+}
+
 export interface FindOrphanedImagesSettings {
-    imageExtensions: string;
+    categories: AttachmentCategory[];
     includeFolders: string;
     excludeFolders: string;
+    scopeRules: string; // gitignore-style globs, one per line (see ./scope)
+    keptFiles: string[]; // vault paths of files kept as intentionally unlinked (see ./keep)
+    keepSidecars: boolean; // also keep files whose sidecar note says `keep: true`
+    disabledExtractors: string[]; // ids of reference extractors switched off (see ./extractors)
+    customPatterns: CustomPattern[];
+    candidateFilters: CandidateFilters;
     reportFolder: string;
+    datedReports: boolean; // a new report note per day instead of one overwritten note
     maxDeleteCount: number;
-    moveToTrash: boolean;
+    disposalMode: DisposalMode;
+    quarantineFolder: string;
+    quarantinePurgeDays: number;
     safetyTextScan: boolean;
+    orphanNotifications: boolean;
+    orphanNotificationExcludeFolders: string;
     showRibbonIcon: boolean;
 }
 
 export const DEFAULT_SETTINGS: FindOrphanedImagesSettings = {
-    imageExtensions: 'png, jpg, jpeg, gif, svg, bmp, webp, avif',
+    categories: DEFAULT_CATEGORIES,
     includeFolders: '',
     excludeFolders: '',
+    scopeRules: '',
+    keptFiles: [],
+    keepSidecars: false,
+    disabledExtractors: [],
+    customPatterns: [],
+    candidateFilters: { minAgeDays: 0, ageField: 'mtime', minSizeKB: 0, maxSizeKB: 0 },
     reportFolder: '', // Empty = vault root
+    datedReports: false,
     maxDeleteCount: -1,
-    moveToTrash: true, // Safer, recoverable default
+    disposalMode: 'trash', // Safer, recoverable default
+    quarantineFolder: 'Orphan Quarantine',
+    quarantinePurgeDays: 30,
     safetyTextScan: true, // Conservative backstop before deletion
+    orphanNotifications: false,
+    orphanNotificationExcludeFolders: '',
     showRibbonIcon: false,
 };
+
+// One quarantined file, as recorded in the quarantine manifest.
+export interface QuarantineEntry {
+    originalPath: string;
+    quarantinePath: string;
+    quarantinedAt: number; // epoch ms
+    size: number;
+}
+
+// What a cleanup did to one file; 'restored' replaces the original outcome after an undo.
+export type CleanupOutcome = 'trashed' | 'deleted' | 'quarantined' | 'failed' | 'restored';
+
+export interface JournalFile {
+    path: string;
+    size: number;
+    outcome: CleanupOutcome;
+    quarantinePath?: string; // set when outcome is 'quarantined'
+    error?: string; // set when outcome is 'failed'
+}
+
+// One performDeletion run, as recorded in the cleanup journal (see ./journal).
+export interface JournalRun {
+    id: string;
+    timestamp: number; // epoch ms
+    mode: DisposalMode;
+    files: JournalFile[];
+}
+
+// An orphan as recorded in a report snapshot.
+export interface SnapshotFile {
+    path: string;
+    size: number;
+}
+
+// The orphans one report listed, kept in plugin data for diffs and the trend (see ./history).
+export interface ScanSnapshot {
+    timestamp: number;
+    count: number;
+    bytes: number;
+    files?: SnapshotFile[]; // newest snapshot only
+}
@@ -0,0 +1,60 @@
+// Parsing for obsidian://find-orphaned-images URIs (no Obsidian dependency). main.ts
+// registers the handler and carries the request out.
+//
+//   obsidian://find-orphaned-images?action=report&embed=false&folder=Inbox
+//   obsidian://find-orphaned-images?action=open-panel&panel=duplicates
+//   obsidian://find-orphaned-images?action=cleanup&folder=Inbox,Clippings&exclude=Inbox/Keep
+
+export const URI_ACTION = 'find-orphaned-images';
+
+export type UriPanel = 'orphans' | 'duplicates' | 'broken';
+
+// Folder lists for one run, as typed in settings (comma- or newline-separated); unset
+// fields keep the user's settings.
+export interface UriScope {
+    includeFolders?: string;
+    excludeFolders?: string;
+}
+
+export type UriRequest =
+    | { action: 'report'; embed: boolean; scope: UriScope }
+    | { action: 'cleanup'; scope: UriScope }
+    | { action: 'open-panel'; panel: UriPanel };
+
+const PANELS: readonly UriPanel[] = ['orphans', 'duplicates', 'broken'];
+
+// The request `params` describe. Throws an Error whose message can be shown to the user.
+export function parseUriRequest(params: Record<string, string | undefined>): UriRequest {
+    // Obsidian passes the registered name as `action` when the URI has no action parameter.
+    const action = params.action === URI_ACTION ? undefined : params.action;
+    const scope: UriScope = {};
+    if (params.folder !== undefined) scope.includeFolders = params.folder;
+    if (params.exclude !== undefined) scope.excludeFolders = params.exclude;
+
+    switch (action) {
+        case 'report':
+            return { action, embed: parseBoolean('embed', params.embed, true), scope };
+        case 'cleanup':
+            return { action, scope };
+        case 'open-panel': {
+            const panel = params.panel ?? 'orphans';
+            if (!PANELS.includes(panel as UriPanel)) {
+                throw new Error(`Unknown panel "${panel}". Use one of: ${PANELS.join(', ')}.`);
+            }
+            return { action, panel: panel as UriPanel };
+        }
+        case undefined:
+            throw new Error('The URI has no action. Use action=report, action=open-panel or action=cleanup.');
+        default:
+            throw new Error(`Unknown action "${action}". Use report, open-panel or cleanup.`);
+    }
+}
+
+function parseBoolean(name: string, value: string | undefined, fallback: boolean): boolean {
+    if (value === undefined || value === '') return fallback;
+    switch (value.toLowerCase()) {
+        case 'true': case 'yes': case '1': return true;
+        case 'false': case 'no': case '0': return false;
+        default: throw new Error(`"${name}" must be true or false, not "${value}".`);
+    }
+}
@@ -26,9 +26,36 @@ export function parseFolderList(raw: string): string[] {
         .filter(entry => entry.length > 0);
 }
 
+// Lowercased extension of a path, or '' if its file name has none.
+export function extensionOf(path: string): string {
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
 // True if `path` is inside `folder` (the folder itself or any subpath).
 // `folder` must already be normalized/lowercased (see parseFolderList).
 export function isInFolder(path: string, folder: string): boolean {
     const p = path.toLowerCase();
     return p === folder || p.startsWith(folder + '/');
 }
+
+// Where `path` lands inside the quarantine `folder`, keeping its original folder structure.
+// `folder` is trimmed of surrounding slashes.
+export function quarantinePathFor(folder: string, path: string): string {
+    const root = folder.trim().replace(/^\/+|\/+$/g, '');
+    return root ? `${root}/${path}` : path;
+}
+
+// "a/b.png", 2 -> "a/b 2.png". Used to avoid overwriting an existing file.
+export function numberedPath(path: string, n: number): string {
+    const slash = path.lastIndexOf('/');
+    const dot = path.lastIndexOf('.');
+    if (dot <= slash + 1) return `${path} ${n}`; // no extension (or a dotfile)
+    return `${path.slice(0, dot)} ${n}${path.slice(dot)}`;
+}
+
+// True if `timestamp` (epoch ms) is more than `days` days before `now`.
+export function isOlderThanDays(timestamp: number, days: number, now: number): boolean {
+    return now - timestamp > days * 24 * 60 * 60 * 1000;
+}
@@ -1,19 +1,104 @@
-import { ItemView, WorkspaceLeaf, TFile, setIcon } from 'obsidian';
+import { ItemView, Menu, ViewStateResult, WorkspaceLeaf, TFile, debounce, setIcon } from 'obsidian';
 import type FindOrphanedImagesPlugin from './main';
+import type { CandidateFilters } from './types';
 import { formatBytes, totalSize } from './utils';
+import { renderPreview, stopPreviews } from './previews';
+import { sidecarPathFor } from './keep';
+import { LightboxModal } from './lightbox';
+import { ScanCancelledError } from './progress';
+import { ScanProgressBar } from './progress-bar';
+import {
+    EMPTY_QUERY, FocusMove, FolderNode, ReviewQuery, SORT_LABELS, SortKey, TreeRow,
+    buildFolderTree, extensionOptions, filesUnder, flattenTree, folderOf, folderOptions, gridColumns, invertSelection,
+    isEmptyQuery, isSortKey, matchesQuery, moveFocus, rangeIndices, selectionState, sortFiles, visibleRange,
+} from './review';
 
 export const ORPHAN_VIEW_TYPE = 'find-orphaned-images-view';
 
-type SortKey = 'size' | 'path';
-
-// Review panel: lists orphaned images with thumbnails and deletes a selected subset.
+type Layout = 'list' | 'grid' | 'tree';
+
+const LAYOUTS: { layout: Layout; icon: string; tooltip: string }[] = [
+    { layout: 'list', icon: 'list', tooltip: 'Show as list' },
+    { layout: 'grid', icon: 'layout-grid', tooltip: 'Show as gallery' },
+    { layout: 'tree', icon: 'folder-tree', tooltip: 'Group by folder' },
+];
+
+// Row height of the list and tree layouts, and the parts of a grid row besides its thumbnails. Rows
+// are positioned from these, so they must match styles.css.
+const LIST_ROW_HEIGHT = 60;
+const GRID_CAPTION_HEIGHT = 40;
+const GRID_GAP = 8;
+const GRID_PADDING = 12; // left and right, var(--size-4-3)
+
+export const THUMB_SIZES = { min: 64, max: 256, step: 16, default: 128 };
+
+const FOCUS_KEYS: Record<string, FocusMove> = {
+    ArrowUp: 'up',
+    ArrowDown: 'down',
+    ArrowLeft: 'left',
+    ArrowRight: 'right',
+    Home: 'first',
+    End: 'last',
+    PageUp: 'pageUp',
+    PageDown: 'pageDown',
+};
+
+// Review panel: lists orphaned attachments with previews and deletes a selected subset.
+// The age and size filters are the plugin's own (settings.candidateFilters), so the panel,
+// the report and bulk delete always agree on what is a candidate. Search, folder and type
+// only narrow what the panel shows. Kept files (see ./keep) are never listed as orphans; a
+// collapsed section below the list shows them instead.
+//
+// The list and the gallery grid are virtualized: only the rows on screen exist in the DOM,
+// absolutely positioned inside a container as tall as the whole list. Sorting, searching
+// and selecting rebuild those rows, never the rest of the panel. The folder tree is the list
+// with a row for each folder between the files; a collapsed folder's files are not shown,
+// so keyboard focus, ranges and Select all skip them, but its checkbox still covers them.
+//
+// With the list focused, the keyboard drives triage: arrows move the focus, Shift extends
+// the selection from where it last started, Space toggles, Enter opens and Delete deletes.
+// Focus is kept by path, so it survives re-sorting and live updates.
+//
+// Clicking a thumbnail (or Enter) opens the lightbox (see ./lightbox), which steps through
+// the list in the same order and is handed the new list whenever it changes.
 export class OrphanedImagesView extends ItemView {
     private plugin: FindOrphanedImagesPlugin;
     private orphans: TFile[] = [];
-    private selected = new Set<string>(); // selected image paths
+    private candidates: TFile[] = []; // orphans that pass the filters
+    private shown: TFile[] = []; // candidates matching the query, sorted; what the list shows
+    private matchCount = 0; // candidates matching the query, including those in collapsed folders
+    private treeRows: TreeRow<TFile>[] = []; // the tree layout's rows
+    private fileRows: number[] = []; // the tree row of each shown file
+    private rowFiles: number[] = []; // the shown file of each tree row, -1 for folders
+    private collapsed = new Set<string>(); // folder paths
+    private kept: TFile[] = [];
+    private keptOpen = false; // the kept section's rows are only built while it is open
+    private selected = new Set<string>(); // selected file paths
+    private focusPath: string | null = null; // the keyboard-focused file
+    private anchorPath: string | null = null; // where Shift ranges start
+    private query: ReviewQuery = { ...EMPTY_QUERY };
     private sortKey: SortKey = 'size';
+    private reverse = false;
+    private layout: Layout = 'list';
+    private thumbSize = THUMB_SIZES.default;
     private scanning = false;
+    private cancelled = false; // the last scan was cancelled before it finished
+    private scanProgress: ScanProgressBar | null = null; // shown while scanning
+    private deleting: ScanProgressBar | null = null; // shown in the delete bar during the safety scan
+    private generation = 0; // drops results from superseded scans
+    private summaryEl: HTMLElement | null = null;
     private deleteBarEl: HTMLElement | null = null;
+    private listEl: HTMLElement | null = null;
+    private rows = new Map<number, HTMLElement>(); // rendered rows of listEl, by row index
+    private items = new Map<number, { el: HTMLElement; checkbox: HTMLInputElement; row: number }>(); // rendered items, by index in shown
+    private folderItems = new Map<number, { checkbox: HTMLInputElement; paths: string[] }>(); // rendered folders, by row index
+    private columns = 1;
+    private frame = 0; // pending animation frame for renderWindow
+    private lightbox: LightboxModal | null = null;
+    private searchChanged = debounce((value: string) => {
+        this.query.search = value;
+        this.updateList();
+    }, 150, true);
 
     constructor(leaf: WorkspaceLeaf, plugin: FindOrphanedImagesPlugin) {
         super(leaf);
@@ -25,172 +110,772 @@ export class OrphanedImagesView extends ItemView {
     }
 
     getDisplayText(): string {
-        return 'Orphaned images';
+        return 'Orphaned attachments';
     }
 
     getIcon(): string {
-        return 'image';
+        return 'paperclip';
+    }
+
+    // Layout, thumbnail size and sort are saved with the workspace.
+    getState(): Record<string, unknown> {
+        return { ...super.getState(), layout: this.layout, thumbSize: this.thumbSize, sortKey: this.sortKey, reverse: this.reverse };
+    }
+
+    async setState(state: unknown, result: ViewStateResult) {
+        if (state && typeof state === 'object') {
+            const { layout, thumbSize, sortKey, reverse } = state as Record<string, unknown>;
+            if (LAYOUTS.some(option => option.layout === layout)) this.layout = layout as Layout;
+            if (typeof thumbSize === 'number') this.thumbSize = Math.min(THUMB_SIZES.max, Math.max(THUMB_SIZES.min, thumbSize));
+            if (isSortKey(sortKey)) this.sortKey = sortKey;
+            if (typeof reverse === 'boolean') this.reverse = reverse;
+        }
+        await super.setState(state, result);
+        if (!this.scanning) this.render();
     }
 
     async onOpen() {
+        // Follow edits as the scanner's index picks them up, without the "Scanning" flash.
+        this.register(this.plugin.scanner.onChange(() => void this.refresh({ quiet: true })));
+        this.registerDomEvent(this.contentEl, 'scroll', () => this.scheduleWindow());
         await this.refresh();
     }
 
     async onClose() {
         this.selected.clear();
+        if (this.frame) cancelAnimationFrame(this.frame);
+        this.lightbox?.close();
+        // Stop reading the vault for a panel nobody sees.
+        this.scanProgress?.cancel();
+        this.deleting?.cancel();
+        stopPreviews(this.contentEl);
     }
 
-    // Re-scans and re-renders. Called on open and after deletions.
-    async refresh() {
-        this.scanning = true;
-        this.render();
+    // More or fewer grid columns may fit now.
+    onResize() {
+        if (this.listEl && this.layout === 'grid' && this.gridColumns() !== this.columns) this.updateList();
+        else this.scheduleWindow();
+    }
+
+    // Re-scans and re-renders. Called on open, after deletions and (quietly) as the vault
+    // changes. `rebuild` re-reads the whole vault instead of trusting the live index. A
+    // non-quiet refresh shows the scan's progress, with a button to cancel it.
+    async refresh({ quiet = false, rebuild = false } = {}) {
+        const generation = ++this.generation;
+        if (rebuild) this.plugin.scanner.invalidate();
+        if (!quiet) {
+            this.scanning = true;
+            this.cancelled = false;
+            this.render();
+        }
+        let orphans: TFile[] = [];
         try {
-            this.orphans = await this.plugin.getOrphanedImages();
+            orphans = await this.plugin.getOrphanedImages(quiet ? {} : this.scanProgress?.options());
         } catch (error) {
-            console.error('Failed to scan for orphaned images:', error);
-            this.orphans = [];
-        }
-        // Drop selections that are no longer orphaned.
-        const present = new Set(this.orphans.map(f => f.path));
-        for (const path of [...this.selected]) {
-            if (!present.has(path)) this.selected.delete(path);
+            if (error instanceof ScanCancelledError) {
+                if (generation !== this.generation) return;
+                this.scanning = false;
+                this.cancelled = true;
+                this.render();
+                return;
+            }
+            console.error('Failed to scan for orphaned attachments:', error);
         }
+        if (generation !== this.generation) return;
+        this.cancelled = false;
+        this.orphans = orphans;
+        this.kept = this.plugin.scanner.getKeptFiles();
         this.scanning = false;
-        this.render();
+        this.applyFilters();
     }
 
-    private sortedOrphans(): TFile[] {
-        const orphans = [...this.orphans];
-        if (this.sortKey === 'size') {
-            orphans.sort((a, b) => b.stat.size - a.stat.size || a.path.localeCompare(b.path));
-        } else {
-            orphans.sort((a, b) => a.path.localeCompare(b.path));
+    // Re-filters the last scan and re-renders, dropping selections that are no longer shown.
+    private applyFilters() {
+        this.candidates = this.plugin.filterCandidates(this.orphans);
+        const present = new Set(this.candidates.map(f => f.path));
+        for (const path of [...this.selected]) {
+            if (!present.has(path)) this.selected.delete(path);
         }
-        return orphans;
+        this.render();
     }
 
     private render() {
         const root = this.contentEl;
+        const scrollTop = root.scrollTop; // live updates shouldn't jump the list to the top
+        const hadFocus = this.listEl?.contains(root.ownerDocument.activeElement) ?? false;
+        this.rows.clear();
+        this.items.clear();
+        this.folderItems.clear();
+        stopPreviews(root);
         root.empty();
-        this.deleteBarEl = null; // detached by empty(); renderHeader re-creates it
+        // Detached by empty(); re-created below as needed.
+        this.summaryEl = null;
+        this.deleteBarEl = null;
+        this.listEl = null;
+        this.scanProgress = null;
         root.addClass('orphaned-images-view');
 
         if (this.scanning) {
-            root.createEl('p', { cls: 'oiv-status', text: 'Scanning vault…' });
+            this.scanProgress = new ScanProgressBar(root, 'Scanning vault…');
+            return;
+        }
+        if (this.cancelled) {
+            const status = root.createDiv({ cls: 'oiv-status' });
+            status.createEl('p', { text: 'Scan cancelled.' });
+            this.textButton(status, 'Scan again', () => void this.refresh());
             return;
         }
 
         this.renderHeader(root);
 
         if (this.orphans.length === 0) {
-            root.createEl('p', { cls: 'oiv-status', text: 'All images are linked — nothing to clean up.' });
-            return;
+            root.createEl('p', { cls: 'oiv-status', text: 'All attachments are linked — nothing to clean up.' });
+        } else {
+            this.renderFilters(root);
+            if (this.candidates.length === 0) {
+                root.createEl('p', { cls: 'oiv-status', text: 'No orphaned attachments match the filters.' });
+            } else {
+                const list = this.listEl = root.createDiv({ cls: 'oiv-virtual' });
+                list.tabIndex = 0;
+                list.setAttribute('aria-label', 'Orphaned attachments: arrows to move, Space to select, Enter to open, Delete to delete');
+                list.addEventListener('keydown', event => this.onKeyDown(event));
+            }
         }
 
-        this.renderList(root);
+        this.renderKept(root);
+        this.updateList();
+        root.scrollTop = scrollTop;
+        this.renderWindow(); // the restored scroll position may show other rows
+        if (hadFocus) this.listEl?.focus({ preventScroll: true });
     }
 
     private renderHeader(root: HTMLElement) {
         const header = root.createDiv({ cls: 'oiv-header' });
-
-        const count = this.orphans.length;
-        const size = formatBytes(totalSize(this.orphans));
-        header.createDiv({
-            cls: 'oiv-summary',
-            text: count === 0
-                ? 'No orphaned images'
-                : `${count} orphaned image${count === 1 ? '' : 's'} · ${size}`,
-        });
+        this.summaryEl = header.createDiv({ cls: 'oiv-summary' });
 
         const actions = header.createDiv({ cls: 'oiv-actions' });
-
-        this.iconButton(actions, 'refresh-cw', 'Rescan vault', () => this.refresh());
-
-        if (this.orphans.length > 0) {
-            const sortLabel = this.sortKey === 'size' ? 'Sort: size' : 'Sort: name';
-            const sortBtn = actions.createEl('button', { cls: 'oiv-btn', text: sortLabel });
-            sortBtn.addEventListener('click', () => {
-                this.sortKey = this.sortKey === 'size' ? 'path' : 'size';
-                this.render();
+        this.iconButton(actions, 'refresh-cw', 'Rescan vault', () => this.refresh({ rebuild: true }));
+
+        if (this.candidates.length > 0) {
+            for (const { layout, icon, tooltip } of LAYOUTS) {
+                this.iconButton(actions, icon, tooltip, () => {
+                    this.layout = layout;
+                    this.app.workspace.requestSaveLayout();
+                    this.render();
+                }).toggleClass('is-active', this.layout === layout);
+            }
+
+            const sort = actions.createEl('select', { cls: 'dropdown oiv-sort' });
+            for (const [key, label] of Object.entries(SORT_LABELS)) sort.createEl('option', { value: key, text: `Sort: ${label}` });
+            sort.value = this.sortKey;
+            sort.addEventListener('change', () => {
+                if (isSortKey(sort.value)) this.sortKey = sort.value;
+                this.app.workspace.requestSaveLayout();
+                this.updateList();
+            });
+            const reverse = this.iconButton(actions, 'arrow-up-down', 'Reverse order', () => {
+                this.reverse = !this.reverse;
+                reverse.toggleClass('is-active', this.reverse);
+                this.app.workspace.requestSaveLayout();
+                this.updateList();
             });
+            reverse.toggleClass('is-active', this.reverse);
 
             const allBtn = actions.createEl('button', { cls: 'oiv-btn', text: 'Select all' });
+            allBtn.setAttribute('aria-label', 'Select every file shown');
             allBtn.addEventListener('click', () => {
-                for (const orphan of this.orphans) this.selected.add(orphan.path);
-                this.render();
+                for (const orphan of this.shown) this.selected.add(orphan.path);
+                this.selectionChanged();
             });
 
             const noneBtn = actions.createEl('button', { cls: 'oiv-btn', text: 'Select none' });
             noneBtn.addEventListener('click', () => {
                 this.selected.clear();
-                this.render();
+                this.selectionChanged();
             });
+
+            if (this.layout === 'grid') this.renderThumbSlider(actions);
+            this.renderSearch(header);
         }
 
         // Rebuilt on its own so a checkbox toggle doesn't re-render (and re-scroll) the list.
         this.deleteBarEl = header.createDiv({ cls: 'oiv-delete-bar' });
-        this.updateDeleteBar();
+    }
+
+    private renderThumbSlider(parent: HTMLElement) {
+        const slider = parent.createEl('input', { type: 'range', cls: 'slider oiv-thumb-size' });
+        slider.min = String(THUMB_SIZES.min);
+        slider.max = String(THUMB_SIZES.max);
+        slider.step = String(THUMB_SIZES.step);
+        slider.value = String(this.thumbSize);
+        slider.setAttribute('aria-label', 'Thumbnail size');
+        slider.addEventListener('input', () => {
+            this.thumbSize = Number(slider.value);
+            this.updateList();
+        });
+        slider.addEventListener('change', () => this.app.workspace.requestSaveLayout());
+    }
+
+    // Search box plus folder and type menus, built from the candidates. A folder or type that
+    // no candidate has any more is dropped from the query.
+    private renderSearch(header: HTMLElement) {
+        const bar = header.createDiv({ cls: 'oiv-search' });
+        const input = bar.createEl('input', { type: 'search', cls: 'oiv-search-input' });
+        input.placeholder = 'Search paths…';
+        input.value = this.query.search;
+        input.addEventListener('input', () => this.searchChanged(input.value));
+
+        const menu = (options: string[], key: 'folder' | 'extension', anyLabel: string, label: (option: string) => string) => {
+            const select = bar.createEl('select', { cls: 'dropdown' });
+            select.createEl('option', { value: '', text: anyLabel });
+            for (const option of options) select.createEl('option', { value: option, text: label(option) });
+            if (!options.includes(this.query[key])) this.query[key] = '';
+            select.value = this.query[key];
+            select.addEventListener('change', () => {
+                this.query[key] = select.value;
+                this.updateList();
+            });
+        };
+        menu(folderOptions(this.candidates), 'folder', 'All folders', folder => folder === '/' ? '(vault root)' : folder);
+        menu(extensionOptions(this.candidates), 'extension', 'All types', ext => `.${ext}`);
+    }
+
+    private updateSummary() {
+        const el = this.summaryEl;
+        if (!el) return;
+        const count = this.candidates.length;
+        const hidden = this.orphans.length - count;
+        const parts = [`${count} orphaned attachment${count === 1 ? '' : 's'}`, formatBytes(totalSize(this.candidates))];
+        if (hidden > 0) parts.push(`${hidden} filtered out`);
+        if (!isEmptyQuery(this.query)) parts.push(`${this.matchCount} shown`);
+        el.setText(this.orphans.length === 0 ? 'No orphaned attachments' : parts.join(' · '));
     }
 
     private updateDeleteBar() {
         const bar = this.deleteBarEl;
-        if (!bar) return;
+        if (!bar || this.deleting) return;
         bar.empty();
 
-        const selectedFiles = this.orphans.filter(f => this.selected.has(f.path));
+        const selectedFiles = this.candidates.filter(f => this.selected.has(f.path));
         const deleteBtn = bar.createEl('button', { cls: 'oiv-btn mod-warning' });
         if (selectedFiles.length === 0) {
             deleteBtn.setText('Delete selected');
             deleteBtn.disabled = true;
         } else {
             deleteBtn.setText(`Delete ${selectedFiles.length} selected (${formatBytes(totalSize(selectedFiles))})`);
-            deleteBtn.addEventListener('click', () => {
-                // Confirm + safety-scan + delete; the panel refreshes once it completes.
-                this.plugin.deleteOrphanedImages(selectedFiles);
-            });
+            deleteBtn.addEventListener('click', () => void this.deleteFiles(selectedFiles));
         }
     }
 
-    private renderList(root: HTMLElement) {
-        const list = root.createDiv({ cls: 'oiv-list' });
+    // Confirm + safety-scan + delete, with the safety scan's progress in the delete bar; the
+    // panel refreshes once the deletion completes.
+    private async deleteFiles(files: TFile[]) {
+        const bar = this.deleteBarEl;
+        if (!bar || this.deleting) return;
+        bar.empty();
+        const progress = this.deleting = new ScanProgressBar(bar, 'Checking notes before deleting…');
+        try {
+            await this.plugin.deleteOrphanedImages(files, progress.options());
+        } finally {
+            this.deleting = null;
+            this.updateDeleteBar();
+        }
+    }
 
-        for (const image of this.sortedOrphans()) {
-            const item = list.createDiv({ cls: 'oiv-item' });
+    // Age and size inputs; a change is saved to settings and re-filters without rescanning.
+    private renderFilters(root: HTMLElement) {
+        const { settings } = this.plugin;
+        const filters = settings.candidateFilters;
+        const bar = root.createDiv({ cls: 'oiv-filters' });
+
+        const update = async (change: Partial<CandidateFilters>) => {
+            settings.candidateFilters = { ...filters, ...change };
+            await this.plugin.saveSettings();
+            this.applyFilters();
+        };
+        const numberInput = (parent: HTMLElement, value: number, onChange: (value: number) => void) => {
+            const input = parent.createEl('input', { type: 'number', cls: 'oiv-filter-input' });
+            input.min = '0';
+            input.placeholder = 'any';
+            if (value > 0) input.value = String(value);
+            input.addEventListener('change', () => {
+                const parsed = parseFloat(input.value);
+                onChange(Number.isNaN(parsed) ? 0 : Math.max(0, parsed));
+            });
+        };
+
+        const age = bar.createDiv({ cls: 'oiv-filter' });
+        age.createSpan({ text: 'Older than' });
+        numberInput(age, filters.minAgeDays, minAgeDays => void update({ minAgeDays }));
+        age.createSpan({ text: 'days by' });
+        const field = age.createEl('select', { cls: 'dropdown' });
+        field.createEl('option', { value: 'mtime', text: 'modified' });
+        field.createEl('option', { value: 'ctime', text: 'created' });
+        field.value = filters.ageField;
+        field.addEventListener('change', () => void update({ ageField: field.value as CandidateFilters['ageField'] }));
+
+        const size = bar.createDiv({ cls: 'oiv-filter' });
+        size.createSpan({ text: 'Size from' });
+        numberInput(size, filters.minSizeKB, minSizeKB => void update({ minSizeKB }));
+        size.createSpan({ text: 'to' });
+        numberInput(size, filters.maxSizeKB, maxSizeKB => void update({ maxSizeKB }));
+        size.createSpan({ text: 'KB' });
+    }
 
-            const checkbox = item.createEl('input', { type: 'checkbox', cls: 'oiv-check' });
-            checkbox.checked = this.selected.has(image.path);
-            checkbox.addEventListener('change', () => {
-                if (checkbox.checked) this.selected.add(image.path);
-                else this.selected.delete(image.path);
-                this.updateDeleteBar();
+    // Re-applies the query and sort (and grouping, for the tree), then sizes the list for its
+    // rows and renders the ones on screen.
+    private updateList() {
+        const matching = sortFiles(this.candidates.filter(file => matchesQuery(file, this.query)), this.sortKey, this.reverse);
+        this.matchCount = matching.length;
+        this.shown = matching;
+        this.treeRows = [];
+        this.fileRows = [];
+        this.rowFiles = [];
+        if (this.layout === 'tree') {
+            // Folders follow the sort too: by reclaimable size when sorting by size.
+            this.treeRows = flattenTree(buildFolderTree(matching, this.sortKey === 'size', this.reverse), this.collapsed);
+            this.shown = [];
+            this.treeRows.forEach((row, index) => {
+                if (!('file' in row)) {
+                    this.rowFiles.push(-1);
+                    return;
+                }
+                this.rowFiles.push(this.shown.length);
+                this.fileRows.push(index);
+                this.shown.push(row.file);
             });
+        }
+        this.lightbox?.setFiles(this.shown);
+        this.updateSummary();
+        this.updateDeleteBar();
+
+        const list = this.listEl;
+        if (!list) return;
+        this.clearRows();
+        list.empty();
+        list.toggleClass('oiv-virtual-grid', this.layout === 'grid');
+        list.toggleClass('oiv-virtual-tree', this.layout === 'tree');
+        list.style.setProperty('--oiv-thumb-size', `${this.thumbSize}px`);
+        this.columns = this.layout === 'grid' ? this.gridColumns() : 1;
+
+        if (this.rowCount() === 0) {
+            list.style.height = '';
+            list.createEl('p', { cls: 'oiv-status', text: 'No orphaned attachments match the search.' });
+            return;
+        }
+        list.style.height = `${this.rowCount() * this.rowHeight() + (this.layout === 'grid' ? GRID_GAP : 0)}px`;
+        this.renderWindow();
+    }
+
+    private gridColumns(): number {
+        return gridColumns((this.listEl?.clientWidth ?? 0) - 2 * GRID_PADDING, this.thumbSize, GRID_GAP);
+    }
+
+    private rowHeight(): number {
+        return this.layout === 'grid' ? this.thumbSize + GRID_CAPTION_HEIGHT + GRID_GAP : LIST_ROW_HEIGHT;
+    }
+
+    private rowCount(): number {
+        return this.layout === 'tree' ? this.treeRows.length : Math.ceil(this.shown.length / this.columns);
+    }
+
+    private scheduleWindow() {
+        if (this.frame) return;
+        this.frame = requestAnimationFrame(() => {
+            this.frame = 0;
+            this.renderWindow();
+        });
+    }
+
+    // Adds the rows that scrolled into view and removes the ones that left it.
+    private renderWindow() {
+        const list = this.listEl;
+        if (!list || this.rowCount() === 0) return;
+        const root = this.contentEl;
+        const offset = root.getBoundingClientRect().top - list.getBoundingClientRect().top;
+        const { start, end } = visibleRange(offset, root.clientHeight, this.rowHeight(), this.rowCount());
+
+        for (const [index, row] of this.rows) {
+            if (index >= start && index < end) continue;
+            stopPreviews(row);
+            row.remove();
+            this.rows.delete(index);
+            for (const [i, item] of this.items) {
+                if (item.row === index) this.items.delete(i);
+            }
+            this.folderItems.delete(index);
+        }
+        for (let index = start; index < end; index++) {
+            if (!this.rows.has(index)) this.rows.set(index, this.renderRow(list, index));
+        }
+    }
+
+    private clearRows() {
+        for (const row of this.rows.values()) {
+            stopPreviews(row);
+            row.remove();
+        }
+        this.rows.clear();
+        this.items.clear();
+        this.folderItems.clear();
+    }
+
+    // Selections changed for files that may be on screen.
+    private selectionChanged() {
+        this.syncItems();
+        this.updateDeleteBar();
+    }
+
+    // Brings the rendered items' checkboxes and selected and focused styles up to date.
+    private syncItems() {
+        const focus = this.focusIndex();
+        for (const [index, { el, checkbox }] of this.items) {
+            const selected = this.selected.has(this.shown[index].path);
+            checkbox.checked = selected;
+            el.toggleClass('is-selected', selected);
+            el.toggleClass('is-focused', index === focus);
+        }
+        for (const { checkbox, paths } of this.folderItems.values()) this.syncFolderCheckbox(checkbox, paths);
+    }
+
+    private syncFolderCheckbox(checkbox: HTMLInputElement, paths: string[]) {
+        const state = selectionState(paths, this.selected);
+        checkbox.checked = state === 'all';
+        checkbox.indeterminate = state === 'some';
+    }
+
+    private focusIndex(): number {
+        return this.focusPath === null ? -1 : this.shown.findIndex(file => file.path === this.focusPath);
+    }
+
+    // The file with keyboard focus, if it is still shown.
+    focusedFile(): TFile | null {
+        return this.shown[this.focusIndex()] ?? null;
+    }
+
+    private setFocus(index: number, { extend = false } = {}) {
+        const file = this.shown[index];
+        if (!file) return;
+        if (extend) {
+            const anchor = this.shown.findIndex(f => f.path === this.anchorPath);
+            const from = anchor === -1 ? Math.max(0, this.focusIndex()) : anchor;
+            for (const i of rangeIndices(from, index)) this.selected.add(this.shown[i].path);
+            if (anchor === -1) this.anchorPath = this.shown[from].path;
+        } else {
+            this.anchorPath = file.path;
+        }
+        this.focusPath = file.path;
+        this.revealIndex(index);
+        this.selectionChanged();
+    }
+
+    // Scrolls the row holding item `index` into view, below the sticky header.
+    private revealIndex(index: number) {
+        const list = this.listEl;
+        if (!list) return;
+        const root = this.contentEl;
+        const listTop = list.getBoundingClientRect().top - root.getBoundingClientRect().top + root.scrollTop;
+        const row = this.layout === 'tree' ? this.fileRows[index] : Math.floor(index / this.columns);
+        const top = listTop + row * this.rowHeight();
+        const bottom = top + this.rowHeight();
+        const header = root.querySelector<HTMLElement>('.oiv-header')?.offsetHeight ?? 0;
+        if (top < root.scrollTop + header) root.scrollTop = top - header;
+        else if (bottom > root.scrollTop + root.clientHeight) root.scrollTop = bottom - root.clientHeight;
+        this.renderWindow();
+    }
+
+    private onKeyDown(event: KeyboardEvent) {
+        if (event.ctrlKey || event.metaKey || event.altKey) return;
+        const move = FOCUS_KEYS[event.key];
+        if (move) {
+            event.preventDefault();
+            const pageRows = Math.max(1, Math.floor(this.contentEl.clientHeight / this.rowHeight()) - 1);
+            const index = moveFocus(this.focusIndex(), move, this.shown.length, this.columns, pageRows);
+            this.setFocus(index, { extend: event.shiftKey });
+            return;
+        }
+
+        const focused = this.focusedFile();
+        switch (event.key) {
+            case ' ':
+                if (!focused) return;
+                if (this.selected.has(focused.path)) this.selected.delete(focused.path);
+                else this.selected.add(focused.path);
+                this.anchorPath = focused.path;
+                this.selectionChanged();
+                break;
+            case 'Enter':
+                if (!focused) return;
+                this.openLightbox(this.focusIndex());
+                break;
+            case 'Delete':
+            case 'Backspace': {
+                // The selection, or the focused file when nothing is selected.
+                const files = this.candidates.filter(f => this.selected.has(f.path));
+                if (files.length === 0 && focused) files.push(focused);
+                if (files.length === 0) return;
+                void this.deleteFiles(files);
+                break;
+            }
+            case 'Escape':
+                if (this.selected.size === 0) return;
+                this.selected.clear();
+                this.selectionChanged();
+                break;
+            default:
+                return;
+        }
+        event.preventDefault();
+    }
+
+    // Click on an item focuses it; Shift+click selects everything from the anchor to it.
+    private onItemClick(event: MouseEvent, index: number) {
+        this.setFocus(index, { extend: event.shiftKey });
+        this.listEl?.focus({ preventScroll: true });
+    }
+
+    private openLightbox(index: number) {
+        this.lightbox?.close();
+        const lightbox = new LightboxModal(this.app, this.shown, index, {
+            isSelected: file => this.selected.has(file.path),
+            toggleSelected: file => {
+                if (this.selected.has(file.path)) this.selected.delete(file.path);
+                else this.selected.add(file.path);
+                this.selectionChanged();
+            },
+            keep: file => {
+                this.selected.delete(file.path);
+                void this.plugin.keepFiles([file.path]);
+            },
+            delete: file => void this.deleteFiles([file]),
+            // Back in the list, focus the file the lightbox ended on.
+            closed: file => {
+                if (this.lightbox === lightbox) this.lightbox = null;
+                const at = file ? this.shown.indexOf(file) : -1;
+                if (at === -1) return;
+                this.setFocus(at);
+                this.listEl?.focus({ preventScroll: true });
+            },
+        });
+        this.lightbox = lightbox;
+        lightbox.open();
+    }
+
+    // Selects every shown file in the focused file's folder, not its subfolders.
+    selectFocusedFolder() {
+        const focused = this.focusedFile();
+        if (!focused) return;
+        const folder = folderOf(focused.path);
+        for (const file of this.shown) {
+            if (folderOf(file.path) === folder) this.selected.add(file.path);
+        }
+        this.selectionChanged();
+    }
+
+    // Toggles the selection of every shown file.
+    invertSelection() {
+        this.selected = invertSelection(this.selected, this.shown.map(file => file.path));
+        this.selectionChanged();
+    }
+
+    private renderRow(list: HTMLElement, index: number): HTMLElement {
+        const top = `${index * this.rowHeight()}px`;
+        if (this.layout === 'list') return this.renderFileRow(list, index, index, top);
+        if (this.layout === 'tree') {
+            const treeRow = this.treeRows[index];
+            const row = 'file' in treeRow
+                ? this.renderFileRow(list, this.rowFiles[index], index, top)
+                : this.renderFolderRow(list, treeRow.folder, index, top);
+            row.style.setProperty('--oiv-depth', String(treeRow.depth));
+            return row;
+        }
+
+        const row = list.createDiv({ cls: 'oiv-grid-row' });
+        row.style.top = top;
+        const first = index * this.columns;
+        this.shown.slice(first, first + this.columns).forEach((image, i) => {
+            const cell = row.createDiv({ cls: 'oiv-cell' });
+            this.renderThumb(cell, image, this.lightboxOpener(first + i));
+            const checkbox = this.renderCheckbox(cell, image);
+            const caption = cell.createDiv({ cls: 'oiv-cell-caption' });
+            caption.setAttribute('title', image.path);
+            caption.createDiv({ cls: 'oiv-cell-name', text: image.name });
+            caption.createDiv({ cls: 'oiv-size', text: formatBytes(image.stat.size) });
+            this.bindItem(cell, checkbox, image, first + i, index);
+        });
+        return row;
+    }
+
+    // The shown file `fileIndex` as row `rowIndex` of the list or tree.
+    private renderFileRow(list: HTMLElement, fileIndex: number, rowIndex: number, top: string): HTMLElement {
+        const image = this.shown[fileIndex];
+        const row = list.createDiv({ cls: 'oiv-item oiv-row' });
+        row.style.top = top;
+        const checkbox = this.renderCheckbox(row, image);
+        this.renderThumb(row, image, this.lightboxOpener(fileIndex));
+        this.renderMeta(row, image, formatBytes(image.stat.size));
+        this.bindItem(row, checkbox, image, fileIndex, rowIndex);
+        return row;
+    }
+
+    // A folder of the tree: click to collapse or expand it; its checkbox selects or
+    // deselects every file under it, collapsed or not.
+    private renderFolderRow(list: HTMLElement, folder: FolderNode<TFile>, rowIndex: number, top: string): HTMLElement {
+        const row = list.createDiv({ cls: 'oiv-item oiv-row oiv-folder-row' });
+        row.style.top = top;
+        const collapsed = this.collapsed.has(folder.path);
+        setIcon(row.createDiv({ cls: 'oiv-folder-toggle' }), collapsed ? 'chevron-right' : 'chevron-down');
+
+        const paths = filesUnder(folder).map(file => file.path);
+        const checkbox = row.createEl('input', { type: 'checkbox', cls: 'oiv-check' });
+        checkbox.tabIndex = -1;
+        checkbox.addEventListener('mousedown', event => event.preventDefault());
+        checkbox.addEventListener('click', event => event.stopPropagation()); // don't collapse
+        checkbox.addEventListener('change', () => {
+            for (const path of paths) {
+                if (checkbox.checked) this.selected.add(path);
+                else this.selected.delete(path);
+            }
+            this.selectionChanged();
+        });
+        this.folderItems.set(rowIndex, { checkbox, paths });
+        this.syncFolderCheckbox(checkbox, paths);
+
+        const meta = row.createDiv({ cls: 'oiv-meta' });
+        meta.createDiv({ cls: 'oiv-path', text: folder.name }).setAttribute('title', folder.path);
+        meta.createDiv({ cls: 'oiv-size', text: `${folder.count} orphan${folder.count === 1 ? '' : 's'} · ${formatBytes(folder.size)}` });
+        row.setAttribute('aria-expanded', String(!collapsed));
+        row.addEventListener('click', () => {
+            if (collapsed) this.collapsed.delete(folder.path);
+            else this.collapsed.add(folder.path);
+            this.updateList();
+        });
+        return row;
+    }
+
+    // Registers a rendered list row or grid cell for syncItems and wires its mouse handling.
+    private bindItem(el: HTMLElement, checkbox: HTMLInputElement, image: TFile, index: number, row: number) {
+        this.items.set(index, { el, checkbox, row });
+        const focus = this.focusIndex();
+        el.toggleClass('is-selected', checkbox.checked);
+        el.toggleClass('is-focused', index === focus);
+        // Shift+click anywhere on the item selects a range, rather than opening the file or
+        // toggling its checkbox, so it is caught before they see it.
+        el.addEventListener('click', event => {
+            if (!event.shiftKey) return;
+            event.preventDefault();
+            event.stopPropagation();
+            this.onItemClick(event, index);
+        }, true);
+        el.addEventListener('click', event => {
+            if (!event.shiftKey) this.onItemClick(event, index);
+        });
+        el.addEventListener('contextmenu', event => this.showItemMenu(event, image));
+    }
+
+    private renderCheckbox(item: HTMLElement, image: TFile): HTMLInputElement {
+        const checkbox = item.createEl('input', { type: 'checkbox', cls: 'oiv-check' });
+        checkbox.checked = this.selected.has(image.path);
+        checkbox.tabIndex = -1;
+        checkbox.addEventListener('mousedown', event => event.preventDefault()); // keyboard focus stays on the list
+        checkbox.addEventListener('change', () => {
+            if (checkbox.checked) this.selected.add(image.path);
+            else this.selected.delete(image.path);
+            this.selectionChanged();
+        });
+        return checkbox;
+    }
 
-            this.renderThumb(item, image);
+    // Right-click on an item: keep it, or every selected file if it is one of them.
+    private showItemMenu(event: MouseEvent, image: TFile) {
+        event.preventDefault();
+        const paths = this.selected.has(image.path) ? [...this.selected] : [image.path];
+        const menu = new Menu();
+        menu.addItem(item => item
+            .setTitle(paths.length === 1 ? 'Keep as intentionally unlinked' : `Keep ${paths.length} selected as intentionally unlinked`)
+            .setIcon('pin')
+            .onClick(() => {
+                for (const path of paths) this.selected.delete(path);
+                void this.plugin.keepFiles(paths);
+            }));
+        menu.addItem(item => item
+            .setTitle('Show references')
+            .setIcon('links-coming-in')
+            .onClick(() => this.plugin.showReferences(image)));
+        menu.showAtMouseEvent(event);
+    }
+
+    // Kept files, with a button to stop keeping each one. Files kept by a sidecar note open
+    // that note instead; keep-list entries whose file is gone can be removed.
+    private renderKept(root: HTMLElement) {
+        const { keptFiles } = this.plugin.settings;
+        const listed = new Set(keptFiles);
+        const missing = keptFiles.filter(path => !(this.app.vault.getAbstractFileByPath(path) instanceof TFile));
+        const count = this.kept.length + missing.length;
+        if (count === 0) return;
+
+        const section = root.createEl('details', { cls: 'oiv-kept' });
+        section.open = this.keptOpen;
+        section.createEl('summary', { cls: 'oiv-kept-title', text: `Kept files (${count})` });
+        section.addEventListener('toggle', () => {
+            if (section.open === this.keptOpen) return;
+            this.keptOpen = section.open;
+            this.render();
+        });
+        if (!this.keptOpen) return;
 
+        const list = section.createDiv({ cls: 'oiv-list' });
+        for (const file of [...this.kept].sort((a, b) => a.path.localeCompare(b.path))) {
+            const item = list.createDiv({ cls: 'oiv-item' });
+            this.renderThumb(item, file);
+            const byList = listed.has(file.path);
+            this.renderMeta(item, file, `${formatBytes(file.stat.size)}${byList ? '' : ' · kept by its sidecar note'}`);
+            if (byList) {
+                this.textButton(item, 'Stop keeping', () => void this.plugin.unkeepFiles([file.path]));
+            } else {
+                this.textButton(item, 'Open sidecar', () => void this.app.workspace.openLinkText(sidecarPathFor(file.path), '', true));
+            }
+        }
+        for (const path of missing) {
+            const item = list.createDiv({ cls: 'oiv-item' });
             const meta = item.createDiv({ cls: 'oiv-meta' });
-            const pathEl = meta.createDiv({ cls: 'oiv-path', text: image.path });
-            pathEl.setAttribute('title', image.path);
-            pathEl.addEventListener('click', () => {
-                this.app.workspace.getLeaf(true).openFile(image);
-            });
-            meta.createDiv({ cls: 'oiv-size', text: formatBytes(image.stat.size) });
+            meta.createDiv({ cls: 'oiv-path', text: path }).setAttribute('title', path);
+            meta.createDiv({ cls: 'oiv-size', text: 'No longer in the vault' });
+            this.textButton(item, 'Remove', () => void this.plugin.unkeepFiles([path]));
         }
     }
 
-    private renderThumb(item: HTMLElement, image: TFile) {
-        const thumb = item.createDiv({ cls: 'oiv-thumb' });
-        const img = thumb.createEl('img', { cls: 'oiv-thumb-img' });
-        img.loading = 'lazy';
-        img.src = this.app.vault.getResourcePath(image);
-        img.alt = image.name;
-        // Undecodable formats fall back to an extension badge.
-        img.addEventListener('error', () => {
-            img.remove();
-            thumb.createDiv({ cls: 'oiv-thumb-fallback', text: image.extension.toUpperCase() });
+    private renderMeta(item: HTMLElement, file: TFile, detail: string) {
+        const meta = item.createDiv({ cls: 'oiv-meta' });
+        const pathEl = meta.createDiv({ cls: 'oiv-path', text: file.path });
+        pathEl.setAttribute('title', file.path);
+        pathEl.addEventListener('click', () => {
+            this.app.workspace.getLeaf(true).openFile(file);
         });
-        thumb.addEventListener('click', () => {
+        meta.createDiv({ cls: 'oiv-size', text: detail });
+    }
+
+    // Clicking the thumbnail opens the file in a new tab, unless `onClick` says otherwise.
+    private renderThumb(item: HTMLElement, image: TFile, onClick?: (event: MouseEvent) => void) {
+        const thumb = item.createDiv({ cls: 'oiv-thumb' });
+        renderPreview(this.app, thumb, image);
+        thumb.addEventListener('click', onClick ?? (() => {
             this.app.workspace.getLeaf(true).openFile(image);
-        });
+        }));
+    }
+
+    // The item's own click handler would pull keyboard focus back from the lightbox.
+    private lightboxOpener(index: number) {
+        return (event: MouseEvent) => {
+            event.stopPropagation();
+            this.openLightbox(index);
+        };
+    }
+
+    private textButton(parent: HTMLElement, text: string, onClick: () => void) {
+        const btn = parent.createEl('button', { cls: 'oiv-btn', text });
+        btn.addEventListener('click', onClick);
+        return btn;
     }
 
     private iconButton(parent: HTMLElement, icon: string, tooltip: string, onClick: () => void) {
@@ -1,6 +1,10 @@
 import { defineConfig } from 'vitest/config';
+import { fileURLToPath } from 'url';
 
 export default defineConfig({
+    resolve: {
+        alias: { obsidian: fileURLToPath(new URL('./tests/obsidian-mock.ts', import.meta.url)) },
+    },
     test: {
         environment: 'node',
         include: ['tests/**/*.test.ts'],